@@ -0,0 +1,205 @@
+import { Token } from '../shared/types.js';
+import { logger } from '../shared/logger.js';
+import { config } from '../shared/config.js';
+import { MarketHistory, TokenSnapshot, marketHistory } from '../collectors/market-history.js';
+import { scoreTokens, ScoringConfig, ScoringMode, DEFAULT_SCORING } from './scorer.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface BacktestOptions {
+  from: number;
+  to: number;
+  topN?: number; // picks per run (default: config.maxTokensPerRun)
+  horizonsDays?: number[]; // forward return horizons (default 1d and 7d)
+  scoring?: ScoringConfig;
+  mode?: ScoringMode;
+  historyDays?: number; // relative mode: days of each token's own history
+  schedules?: string[]; // daily cron expressions (default: config.schedules)
+}
+
+export interface BacktestPeriod {
+  timestamp: number;
+  universe: number; // tokens scored
+  picks: string[]; // top-N token ids, best first
+  returns: Record<string, HorizonReturns>; // by horizon, e.g. '1d'
+}
+
+export interface HorizonReturns {
+  picks: number | null; // average forward return of the picks with prices (0.05 = +5%)
+  universe: number | null; // equal-weighted over every token with prices
+  graded: number; // picks with a forward return
+  hits: number; // picks that beat the universe average
+}
+
+export interface HorizonResult {
+  horizon: string; // '1d', '7d'
+  periods: number; // runs with forward prices for at least one pick
+  hitRate: number; // share of picks that beat the universe average
+  avgPickReturn: number; // 0.05 = +5%
+  avgUniverseReturn: number;
+  avgExcessReturn: number; // picks minus universe, per period, averaged
+}
+
+export interface BacktestReport {
+  label: string;
+  mode: ScoringMode;
+  from: number;
+  to: number;
+  topN: number;
+  runs: number; // schedule times with a universe to score
+  turnover: number; // average share of the top N replaced from one run to the next
+  horizons: HorizonResult[];
+  periods: BacktestPeriod[];
+}
+
+/**
+ * Scheduled run times between two timestamps, from daily cron expressions
+ * ("0 6,12 * * *"). Anything but minute/hour fields is rejected.
+ */
+export function scheduleTimes(schedules: string[], from: number, to: number): number[] {
+  const slots: { hour: number; minute: number }[] = [];
+  for (const expression of schedules) {
+    const [minute, hour, ...rest] = expression.trim().split(/\s+/);
+    if (rest.length !== 3 || rest.some(field => field !== '*')) {
+      throw new Error(`Backtest only supports daily schedules, got "${expression}"`);
+    }
+    for (const h of hour.split(',')) {
+      for (const m of minute.split(',')) slots.push({ hour: parseInt(h), minute: parseInt(m) });
+    }
+  }
+  if (slots.some(s => isNaN(s.hour) || isNaN(s.minute))) {
+    throw new Error(`Backtest only supports fixed hours and minutes, got ${schedules.join('; ')}`);
+  }
+
+  const times: number[] = [];
+  for (let day = Math.floor(from / DAY_MS) * DAY_MS; day <= to; day += DAY_MS) {
+    for (const slot of slots) {
+      const t = day + slot.hour * HOUR_MS + slot.minute * 60 * 1000;
+      if (t >= from && t <= to) times.push(t);
+    }
+  }
+  return [...new Set(times)].sort((a, b) => a - b);
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function gradeHorizon(horizon: string, periods: BacktestPeriod[]): HorizonResult {
+  const graded = periods.filter(p => p.returns[horizon].picks !== null && p.returns[horizon].universe !== null);
+  const picks = graded.reduce((sum, p) => sum + p.returns[horizon].graded, 0);
+  const hits = graded.reduce((sum, p) => sum + p.returns[horizon].hits, 0);
+  const pickReturns = graded.map(p => p.returns[horizon].picks!);
+  const universeReturns = graded.map(p => p.returns[horizon].universe!);
+
+  return {
+    horizon,
+    periods: graded.length,
+    hitRate: picks > 0 ? hits / picks : 0,
+    avgPickReturn: average(pickReturns),
+    avgUniverseReturn: average(universeReturns),
+    avgExcessReturn: average(pickReturns.map((r, i) => r - universeReturns[i]))
+  };
+}
+
+// Average share of the top N replaced from one run to the next
+function turnover(periods: BacktestPeriod[], topN: number): number {
+  const changes: number[] = [];
+  for (let i = 1; i < periods.length; i++) {
+    const previous = new Set(periods[i - 1].picks);
+    changes.push(periods[i].picks.filter(id => !previous.has(id)).length / topN);
+  }
+  return average(changes);
+}
+
+/**
+ * Backtester - replays stored token snapshots through scoreTokens at each
+ * historical schedule time and grades the top N by forward returns against
+ * the equal-weighted universe. Runs entirely against local market history.
+ *
+ * The live safety filter isn't replayed (holder data isn't stored), so every
+ * token with a snapshot at the time is eligible.
+ */
+export class Backtester {
+  constructor(private history: MarketHistory = marketHistory) {}
+
+  run(options: BacktestOptions, label: string = 'default'): BacktestReport {
+    const topN = options.topN ?? config.get('maxTokensPerRun');
+    const horizons = options.horizonsDays ?? [1, 7];
+    const scoring = options.scoring ?? DEFAULT_SCORING;
+    const mode = options.mode ?? 'absolute';
+    const historyDays = options.historyDays ?? 30;
+
+    const periods: BacktestPeriod[] = [];
+    for (const timestamp of scheduleTimes(options.schedules ?? config.get('schedules'), options.from, options.to)) {
+      const universe = this.history.universeAt(timestamp).map(s => this.toToken(s, timestamp));
+      if (universe.length === 0) continue;
+
+      // History up to the scheduled time; the run's own snapshots are recorded after it
+      const history =
+        mode === 'relative'
+          ? this.history.trailingSnapshots(universe.map(t => t.id), historyDays, timestamp - 1)
+          : undefined;
+      const picks = scoreTokens(universe, scoring, { mode, history })
+        .slice(0, topN)
+        .map(t => t.id);
+
+      const returns: BacktestPeriod['returns'] = {};
+      for (const days of horizons) {
+        const end = timestamp + days * DAY_MS;
+        const forward = new Map(universe.map(t => [t.id, this.history.returnOver(t.id, timestamp, end)]));
+        const pickReturns = picks.map(id => forward.get(id)).filter((r): r is number => r != null);
+        const universeReturns = [...forward.values()].filter((r): r is number => r != null);
+        const benchmark = universeReturns.length > 0 ? average(universeReturns) : null;
+        returns[`${days}d`] = {
+          picks: pickReturns.length > 0 ? average(pickReturns) : null,
+          universe: benchmark,
+          graded: pickReturns.length,
+          hits: benchmark === null ? 0 : pickReturns.filter(r => r > benchmark).length
+        };
+      }
+
+      periods.push({ timestamp, universe: universe.length, picks, returns });
+    }
+
+    const report: BacktestReport = {
+      label,
+      mode,
+      from: options.from,
+      to: options.to,
+      topN,
+      runs: periods.length,
+      turnover: turnover(periods, topN),
+      horizons: horizons.map(days => gradeHorizon(`${days}d`, periods)),
+      periods
+    };
+
+    logger.info(`Backtest "${label}": ${periods.length} runs scored`);
+    return report;
+  }
+
+  // Backfilled points have no 24h/7d change; derive them from the history itself
+  private toToken(snapshot: TokenSnapshot, timestamp: number): Token {
+    const change = (days: number) => {
+      const r = this.history.returnOver(snapshot.tokenId, timestamp - days * DAY_MS, snapshot.timestamp);
+      return r === null ? 0 : r * 100;
+    };
+
+    return {
+      id: snapshot.tokenId,
+      symbol: snapshot.symbol,
+      name: snapshot.symbol,
+      coingeckoId: snapshot.coingeckoId,
+      price: snapshot.price,
+      volume24h: snapshot.volume24h ?? 0,
+      marketCap: snapshot.marketCap ?? 0,
+      priceChange24h: snapshot.priceChange24h ?? change(1),
+      priceChange7d: snapshot.priceChange7d ?? change(7),
+      liquidity: snapshot.liquidity,
+      timestamp: snapshot.timestamp
+    };
+  }
+}
+
+export const backtester = new Backtester();
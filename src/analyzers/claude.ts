@@ -1,11 +1,9 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { Token } from '../shared/types.js';
 import { rateLimiter } from '../shared/rate-limiter.js';
 import { logger } from '../shared/logger.js';
-
-const client = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY!
-});
+import { llm } from '../shared/llm.js';
+import { TOKEN_ANALYSIS } from '../shared/llm-schemas.js';
+import { marketStructureNotes } from './enhanced.js';
 
 const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
@@ -19,19 +17,11 @@ Price: ${token.price.toFixed(4)}
 Market Cap: ${(token.marketCap / 1000000).toFixed(1)}M
 24h Change: ${token.priceChange24h.toFixed(1)}%
 7d Change: ${token.priceChange7d.toFixed(1)}%
+${marketStructureNotes(token).join('\n')}
 
 Give a balanced take - mention both the bullish case and the risk. Be specific with numbers.`;
 
-    const response = await client.messages.create({
-      model: 'claude-haiku-4-20250514',
-      max_tokens: 300,
-      messages: [{
-        role: 'user',
-        content: prompt
-      }]
-    });
-
-    const analysis = response.content[0].type === 'text' ? response.content[0].text : '';
+    const { analysis } = await llm.completeJSON('analysis', prompt, TOKEN_ANALYSIS, { maxTokens: 300 });
     logger.info(`Analyzed ${token.symbol}`);
     await sleep(20000); // 20 second wait
     return analysis;
@@ -79,6 +79,49 @@ export function analyzeMetrics(token: Token): EnhancedMetrics {
   };
 }
 
+function formatUsd(value: number): string {
+  if (value >= 1e9) return `$${(value / 1e9).toFixed(1)}B`;
+  if (value >= 1e6) return `$${(value / 1e6).toFixed(1)}M`;
+  return `$${(value / 1e3).toFixed(0)}K`;
+}
+
+function signed(value: number, digits: number = 0): string {
+  return `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+}
+
+/**
+ * Plain-language TVL, fee and perp positioning facts for prompts and briefs,
+ * e.g. "TVL $1.2B (+18% 7d)", "Funding flipped negative (-0.012%)"
+ */
+export function marketStructureNotes(token: Token): string[] {
+  const notes: string[] = [];
+
+  if (token.tvl) {
+    const change = token.tvlChange7d !== undefined ? ` (${signed(token.tvlChange7d)}% 7d)` : '';
+    notes.push(`TVL ${formatUsd(token.tvl)}${change}`);
+  }
+  if (token.fees24h) {
+    notes.push(`Fees ${formatUsd(token.fees24h)} 24h`);
+  }
+
+  if (token.fundingRate !== undefined) {
+    const rate = `${signed(token.fundingRate * 100, 3)}%`; // per funding interval (8h on most perps)
+    const previous = token.previousFundingRate;
+    if (previous !== undefined && Math.sign(previous) !== Math.sign(token.fundingRate) && token.fundingRate !== 0) {
+      notes.push(`Funding flipped ${token.fundingRate < 0 ? 'negative' : 'positive'} (${rate})`);
+    } else {
+      notes.push(`Funding ${rate}`);
+    }
+  }
+  if (token.openInterest) {
+    const change =
+      token.openInterestChange24h !== undefined ? ` (${signed(token.openInterestChange24h)}% 24h)` : '';
+    notes.push(`Open interest ${formatUsd(token.openInterest)}${change}`);
+  }
+
+  return notes;
+}
+
 export function generateContextPrompt(token: Token): string {
   const metrics = analyzeMetrics(token);
 
@@ -98,6 +141,7 @@ Market Conditions:
 - Holder concentration: ${metrics.concentrationStr}
 - Age: ${metrics.ageStr}
 - Risk level: ${metrics.riskLevel}
+${marketStructureNotes(token).map(note => `- ${note}`).join('\n')}
 
 Write 2 sentences analyzing this token. Include:
 1. One specific opportunity or positive signal
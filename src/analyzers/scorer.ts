@@ -1,30 +1,393 @@
-import { Token } from '../shared/types.js';
+import { existsSync, readFileSync } from 'fs';
+import { Token, ScoreComponent } from '../shared/types.js';
+import { logger } from '../shared/logger.js';
+
+export type ScoreMetric =
+  | 'volume24h'
+  | 'priceChange24h'
+  | 'marketCap'
+  | 'priceChange7d'
+  | 'volumeToMcap'
+  | 'liquidity'
+  | 'tvlChange7d'
+  | 'fundingRate'
+  | 'openInterestChange24h';
+
+// Bounds are exclusive: { min: 5 } matches values above 5
+export interface ScoreTier {
+  min?: number;
+  max?: number;
+  points: number;
+  reason: string; // why the token earned these points, e.g. "volume above $1B"
+  when?: { metric: ScoreMetric; min?: number; max?: number }; // extra condition on another metric
+}
+
+export interface ScoreFactor {
+  metric: ScoreMetric;
+  weight: number; // multiplies the tier's points
+  enabled: boolean;
+  tiers: ScoreTier[]; // first matching tier wins
+  direction?: 1 | -1; // relative mode: -1 when a higher value is worse (default 1)
+  relativeTo?: 'universe' | 'history' | 'both'; // relative mode baseline (default both)
+}
+
+export type ScoringConfig = Record<string, ScoreFactor>;
+
+/**
+ * absolute: fixed tiers. relative: each factor normalized against this run's
+ * universe and the token's own trailing history, so a market-wide green day
+ * doesn't max out every large cap.
+ */
+export type ScoringMode = 'absolute' | 'relative';
+
+/**
+ * A scoring mode from config or a command line; unset means `fallback`, and
+ * anything else unknown throws rather than silently scoring in absolute mode
+ */
+export function parseScoringMode(value: string | undefined, fallback: ScoringMode = 'absolute'): ScoringMode {
+  if (value === undefined || value === '') return fallback;
+  if (value === 'absolute' || value === 'relative') return value;
+  throw new Error(`Unknown scoring mode "${value}", expected absolute or relative`);
+}
+
+export interface ScoringOptions {
+  mode?: ScoringMode;
+  history?: Map<string, Partial<Token>[]>; // trailing snapshots by token id, for relative mode
+}
+
+const RELATIVE = {
+  winsorize: 0.05, // clip the universe at the 5th/95th percentiles before taking z-scores
+  zCap: 2, // a z-score this far out earns the factor's full points
+  minUniverse: 5, // fewer tokens with the metric than this and the factor is skipped
+  minHistory: 5 // snapshots needed before a token's own history counts
+};
+
+interface MetricDefinition {
+  value: (token: Token) => number | undefined;
+  format: (value: number) => string;
+}
+
+const METRICS: Record<ScoreMetric, MetricDefinition> = {
+  volume24h: { value: t => t.volume24h, format: usd },
+  priceChange24h: { value: t => t.priceChange24h, format: percent },
+  marketCap: { value: t => t.marketCap, format: usd },
+  priceChange7d: { value: t => t.priceChange7d, format: percent },
+  volumeToMcap: {
+    value: t => (t.marketCap > 0 ? t.volume24h / t.marketCap : undefined),
+    format: v => `${v.toFixed(2)}x`
+  },
+  liquidity: { value: t => t.liquidity, format: usd },
+  tvlChange7d: { value: t => t.tvlChange7d, format: percent },
+  fundingRate: { value: t => t.fundingRate, format: v => percent(v * 100, 3) },
+  openInterestChange24h: { value: t => t.openInterestChange24h, format: percent }
+};
+
+function usd(value: number): string {
+  if (Math.abs(value) >= 1e9) return `$${(value / 1e9).toFixed(1)}B`;
+  if (Math.abs(value) >= 1e6) return `$${(value / 1e6).toFixed(1)}M`;
+  return `$${(value / 1e3).toFixed(0)}K`;
+}
+
+function percent(value: number, digits: number = 1): string {
+  return `${value > 0 ? '+' : ''}${value.toFixed(digits)}%`;
+}
+
+/**
+ * The original fixed ladder (volume, momentum, market cap, 7d trend) plus
+ * turnover, liquidity, TVL growth and perp positioning. Factors only score
+ * tokens that have the metric, so DEX-only tokens aren't penalised for lacking TVL.
+ */
+export const DEFAULT_SCORING: ScoringConfig = {
+  volume: {
+    metric: 'volume24h',
+    weight: 1,
+    enabled: true,
+    relativeTo: 'history', // size against the universe would just rank the biggest coins first
+    tiers: [
+      { min: 1e9, points: 30, reason: 'volume above $1B' },
+      { min: 1e8, points: 20, reason: 'volume above $100M' },
+      { min: 1e7, points: 10, reason: 'volume above $10M' }
+    ]
+  },
+  momentum: {
+    metric: 'priceChange24h',
+    weight: 1,
+    enabled: true,
+    tiers: [
+      { min: 20, points: 30, reason: 'up more than 20% in 24h' },
+      { min: 10, points: 20, reason: 'up more than 10% in 24h' },
+      { min: 5, points: 10, reason: 'up more than 5% in 24h' },
+      { max: -10, points: -10, reason: 'down more than 10% in 24h' }
+    ]
+  },
+  marketCap: {
+    metric: 'marketCap',
+    weight: 1,
+    enabled: true,
+    relativeTo: 'history', // size against the universe would just rank the biggest coins first
+    tiers: [
+      { min: 1e10, points: 20, reason: 'market cap above $10B' },
+      { min: 1e9, points: 15, reason: 'market cap above $1B' },
+      { min: 1e8, points: 10, reason: 'market cap above $100M' }
+    ]
+  },
+  trend7d: {
+    metric: 'priceChange7d',
+    weight: 1,
+    enabled: true,
+    tiers: [
+      { min: 50, points: 20, reason: 'up more than 50% in 7d' },
+      { min: 20, points: 10, reason: 'up more than 20% in 7d' },
+      { max: -20, points: -10, reason: 'down more than 20% in 7d' }
+    ]
+  },
+  turnover: {
+    metric: 'volumeToMcap',
+    weight: 1,
+    enabled: true,
+    tiers: [
+      { min: 0.2, max: 2, points: 5, reason: 'healthy turnover (volume 0.2-2x market cap)' },
+      { max: 0.01, points: -5, reason: 'thin turnover (volume under 1% of market cap)' }
+    ]
+  },
+  liquidity: {
+    metric: 'liquidity',
+    weight: 1,
+    enabled: true,
+    tiers: [
+      { min: 1e7, points: 5, reason: 'DEX liquidity above $10M' },
+      { max: 250000, points: -5, reason: 'DEX liquidity under $250K' }
+    ]
+  },
+  tvlGrowth: {
+    metric: 'tvlChange7d',
+    weight: 1,
+    enabled: true,
+    tiers: [
+      { min: 15, points: 10, reason: 'TVL up more than 15% in 7d' },
+      { min: 5, points: 5, reason: 'TVL up more than 5% in 7d' },
+      { max: -15, points: -5, reason: 'TVL down more than 15% in 7d' }
+    ]
+  },
+  funding: {
+    metric: 'fundingRate',
+    weight: 1,
+    enabled: true,
+    direction: -1,
+    tiers: [
+      { min: 0.0005, points: -10, reason: 'crowded longs (funding above 0.05%)' },
+      { max: 0, points: 5, reason: 'shorts paying into strength', when: { metric: 'priceChange24h', min: 0 } }
+    ]
+  },
+  openInterest: {
+    metric: 'openInterestChange24h',
+    weight: 1,
+    enabled: true,
+    tiers: [
+      {
+        min: 20,
+        points: 5,
+        reason: 'open interest up 20%+ behind the move',
+        when: { metric: 'priceChange24h', min: 5 }
+      }
+    ]
+  }
+};
+
+function inRange(value: number, bounds: { min?: number; max?: number }): boolean {
+  return (bounds.min === undefined || value > bounds.min) && (bounds.max === undefined || value < bounds.max);
+}
+
+// A tier's extra condition on another metric; tiers without one always hold
+function whenHolds(tier: ScoreTier, token: Token): boolean {
+  if (!tier.when) return true;
+  const other = METRICS[tier.when.metric].value(token);
+  return other !== undefined && inRange(other, tier.when);
+}
+
+function validateScoring(scoring: ScoringConfig): ScoringConfig {
+  for (const [name, factor] of Object.entries(scoring)) {
+    if (!METRICS[factor.metric]) {
+      throw new Error(`Scoring factor "${name}" has unknown metric "${factor.metric}"`);
+    }
+    if (typeof factor.weight !== 'number' || !Array.isArray(factor.tiers)) {
+      throw new Error(`Scoring factor "${name}" needs a numeric weight and a tiers array`);
+    }
+    if (factor.direction !== undefined && factor.direction !== 1 && factor.direction !== -1) {
+      throw new Error(`Scoring factor "${name}" has direction ${factor.direction}, expected 1 or -1`);
+    }
+    if (factor.relativeTo !== undefined && !['universe', 'history', 'both'].includes(factor.relativeTo)) {
+      throw new Error(`Scoring factor "${name}" has relativeTo "${factor.relativeTo}"`);
+    }
+    for (const tier of factor.tiers) {
+      if (tier.when && !METRICS[tier.when.metric]) {
+        throw new Error(`Scoring factor "${name}" has a condition on unknown metric "${tier.when.metric}"`);
+      }
+    }
+  }
+  return scoring;
+}
+
+/**
+ * Defaults, overridden per factor by the JSON file at SCORING_CONFIG (default
+ * scoring.json, if present). A factor in the file replaces the default of the
+ * same name; new names add factors.
+ */
+export function loadScoringConfig(path: string = process.env.SCORING_CONFIG || 'scoring.json'): ScoringConfig {
+  if (!existsSync(path)) return DEFAULT_SCORING;
+
+  const overrides: Record<string, Partial<ScoreFactor>> = JSON.parse(readFileSync(path, 'utf8'));
+  const scoring: ScoringConfig = { ...DEFAULT_SCORING };
+  for (const [name, factor] of Object.entries(overrides)) {
+    const base: Partial<ScoreFactor> = DEFAULT_SCORING[name] || { enabled: true, weight: 1 };
+    scoring[name] = { ...base, ...factor } as ScoreFactor;
+  }
+
+  logger.info(`Loaded scoring config from ${path}`);
+  return validateScoring(scoring);
+}
+
+/**
+ * One named sub-score per factor that applies to the token
+ */
+export function scoreBreakdown(token: Token, scoring: ScoringConfig): ScoreComponent[] {
+  const components: ScoreComponent[] = [];
+
+  for (const [name, factor] of Object.entries(scoring)) {
+    if (!factor.enabled) continue;
+
+    const metric = METRICS[factor.metric];
+    const value = metric.value(token);
+    if (value === undefined || !Number.isFinite(value)) continue;
+
+    const tier = factor.tiers.find(t => inRange(value, t) && whenHolds(t, token));
+    if (!tier) continue;
+
+    components.push({
+      factor: name,
+      points: tier.points * factor.weight,
+      value,
+      reason: `${tier.reason} (${metric.format(value)})`
+    });
+  }
+
+  return components;
+}
+
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+interface Distribution {
+  mean: number;
+  std: number;
+  low: number; // winsorization bounds
+  high: number;
+}
+
+function distribution(values: number[], winsorize: number): Distribution | null {
+  const sorted = [...values].sort((a, b) => a - b);
+  const low = quantile(sorted, winsorize);
+  const high = quantile(sorted, 1 - winsorize);
+  const clipped = sorted.map(v => Math.min(high, Math.max(low, v)));
+  const mean = clipped.reduce((sum, v) => sum + v, 0) / clipped.length;
+  const std = Math.sqrt(clipped.reduce((sum, v) => sum + (v - mean) ** 2, 0) / clipped.length);
+  return std > 0 ? { mean, std, low, high } : null;
+}
+
+function zScore(value: number, dist: Distribution): number {
+  const z = (Math.min(dist.high, Math.max(dist.low, value)) - dist.mean) / dist.std;
+  return Math.max(-RELATIVE.zCap, Math.min(RELATIVE.zCap, z));
+}
+
+function sigma(z: number): string {
+  return `${z >= 0 ? '+' : ''}${z.toFixed(1)}σ`;
+}
+
+function finiteValues(items: Partial<Token>[], metric: MetricDefinition): number[] {
+  return items
+    .map(item => metric.value(item as Token))
+    .filter((v): v is number => v !== undefined && Number.isFinite(v));
+}
+
+/**
+ * Relative sub-scores: each factor's metric as a winsorized z-score against
+ * the tokens scored in this run, averaged with a z-score against the token's
+ * own trailing history when there's enough of it (per the factor's relativeTo).
+ * A factor is worth up to its largest tier's points either way, so weights mean
+ * the same in both modes. Tier conditions still gate the side they're on: if
+ * every tier awarding points of the same sign has a `when` that fails, the
+ * factor scores nothing (negative funding only earns points on a green day).
+ */
+export function relativeBreakdowns(
+  tokens: Token[],
+  scoring: ScoringConfig,
+  history: Map<string, Partial<Token>[]> = new Map()
+): Map<string, ScoreComponent[]> {
+  const breakdowns = new Map<string, ScoreComponent[]>(tokens.map(t => [t.id, []]));
+
+  for (const [name, factor] of Object.entries(scoring)) {
+    if (!factor.enabled) continue;
+
+    const metric = METRICS[factor.metric];
+    const relativeTo = factor.relativeTo || 'both';
+    const values = relativeTo === 'history' ? [] : finiteValues(tokens, metric);
+    const universe = values.length >= RELATIVE.minUniverse ? distribution(values, RELATIVE.winsorize) : null;
+    const maxPoints = Math.max(0, ...factor.tiers.map(t => Math.abs(t.points)));
+
+    for (const token of tokens) {
+      const value = metric.value(token);
+      if (value === undefined || !Number.isFinite(value)) continue;
+
+      const zs: number[] = [];
+      const parts: string[] = [];
+      if (universe) {
+        const z = zScore(value, universe);
+        zs.push(z);
+        parts.push(`${sigma(z)} vs universe`);
+      }
+      const own = relativeTo === 'universe' ? [] : finiteValues(history.get(token.id) || [], metric);
+      const trailing = own.length >= RELATIVE.minHistory ? distribution(own, RELATIVE.winsorize) : null;
+      if (trailing) {
+        const z = zScore(value, trailing);
+        zs.push(z);
+        parts.push(`${sigma(z)} vs own history`);
+      }
+      if (zs.length === 0) continue;
+
+      const z = zs.reduce((sum, v) => sum + v, 0) / zs.length;
+      const points = Math.round(((factor.direction ?? 1) * z * maxPoints * factor.weight) / RELATIVE.zCap);
+      if (points === 0) continue;
+
+      const sameSide = factor.tiers.filter(t => Math.sign(t.points) === Math.sign(points));
+      if (sameSide.length > 0 && !sameSide.some(t => whenHolds(t, token))) continue;
+
+      breakdowns.get(token.id)!.push({
+        factor: name,
+        points,
+        value,
+        reason: `${factor.metric} ${metric.format(value)} (${parts.join(', ')})`
+      });
+    }
+  }
+
+  return breakdowns;
+}
+
+export function scoreTokens(
+  tokens: Token[],
+  scoring: ScoringConfig = loadScoringConfig(),
+  options: ScoringOptions = {}
+): Token[] {
+  const mode = options.mode || parseScoringMode(process.env.SCORING_MODE);
+  const relative = mode === 'relative' ? relativeBreakdowns(tokens, scoring, options.history) : null;
 
-export function scoreTokens(tokens: Token[]): Token[] {
   return tokens.map(token => {
-    let score = 0;
-
-    // Volume score (0-30 points)
-    if (token.volume24h > 1000000000) score += 30;
-    else if (token.volume24h > 100000000) score += 20;
-    else if (token.volume24h > 10000000) score += 10;
-
-    // Price momentum (0-30 points)
-    if (token.priceChange24h > 20) score += 30;
-    else if (token.priceChange24h > 10) score += 20;
-    else if (token.priceChange24h > 5) score += 10;
-    else if (token.priceChange24h < -10) score -= 10;
-
-    // Market cap score (0-20 points)
-    if (token.marketCap > 10000000000) score += 20;
-    else if (token.marketCap > 1000000000) score += 15;
-    else if (token.marketCap > 100000000) score += 10;
-
-    // 7d momentum (0-20 points)
-    if (token.priceChange7d > 50) score += 20;
-    else if (token.priceChange7d > 20) score += 10;
-    else if (token.priceChange7d < -20) score -= 10;
-
-    return { ...token, score };
+    const breakdown = relative ? relative.get(token.id)! : scoreBreakdown(token, scoring);
+    const score = breakdown.reduce((sum, c) => sum + c.points, 0);
+    return { ...token, score, scoreBreakdown: breakdown };
   }).sort((a, b) => (b.score || 0) - (a.score || 0));
 }
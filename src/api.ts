@@ -1,8 +1,13 @@
 import http from 'http';
 import { URL } from 'url';
+import { createHash, timingSafeEqual } from 'crypto';
 import { logger } from './shared/logger.js';
 import { monitor } from './shared/monitor.js';
 import { config } from './shared/config.js';
+import { getTopTokens, getValidations } from './shared/db.js';
+import { tokenOverrides, parseExpiry } from './shared/token-overrides.js';
+import { tokenRegistry } from './collectors/token-registry.js';
+import { parseScoringMode, ScoringMode } from './analyzers/scorer.js';
 
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -14,16 +19,22 @@ export interface ApiResponse<T = any> {
 export class ApiServer {
   private server: http.Server | null = null;
   private port: number;
+  private runTrigger: ((mode: ScoringMode) => boolean) | null = null;
 
   constructor(port: number = 3000) {
     this.port = port;
   }
 
+  // How POST /runs starts an analysis run; false means one is already in progress
+  onRun(trigger: (mode: ScoringMode) => boolean) {
+    this.runTrigger = trigger;
+  }
+
   start() {
     this.server = http.createServer((req, res) => {
       // Set CORS headers
       res.setHeader('Access-Control-Allow-Origin', '*');
-      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
       res.setHeader('Content-Type', 'application/json');
 
       if (req.method === 'OPTIONS') {
@@ -45,6 +56,19 @@ export class ApiServer {
           this.handleDashboard(res);
         } else if (pathname === '/config') {
           this.handleConfig(res);
+        } else if (pathname === '/tokens') {
+          this.handleTokens(res, parseInt(url.searchParams.get('limit') || '') || 20);
+        } else if (/^\/tokens\/.+\/validation$/.test(pathname)) {
+          const tokenId = decodeURIComponent(pathname.slice('/tokens/'.length, -'/validation'.length));
+          this.handleValidation(res, tokenId, parseInt(url.searchParams.get('limit') || '') || 10);
+        } else if (pathname === '/overrides' && req.method === 'GET') {
+          this.handleOverrides(res, url.searchParams.get('all') === 'true');
+        } else if (pathname === '/overrides' && req.method === 'POST') {
+          this.handleOverrideWrite(req, res).catch(error => this.sendError(res, error.message, 500));
+        } else if (pathname.startsWith('/overrides/') && req.method === 'DELETE') {
+          this.handleOverrideDelete(req, res, decodeURIComponent(pathname.slice('/overrides/'.length)));
+        } else if (pathname === '/runs' && req.method === 'POST') {
+          this.handleRun(req, res).catch(error => this.sendError(res, error.message, 500));
         } else if (pathname === '/') {
           this.handleRoot(res);
         } else {
@@ -57,6 +81,11 @@ export class ApiServer {
       }
     });
 
+    // A taken port shouldn't take the bot down with it
+    this.server.on('error', error => {
+      logger.error(`API server failed on port ${this.port}`, error.message);
+    });
+
     this.server.listen(this.port, () => {
       logger.info(`API server listening on port ${this.port}`);
     });
@@ -78,9 +107,15 @@ export class ApiServer {
         version: '1.0.0',
         endpoints: [
           '/health - Basic health check',
-          '/metrics - Full metrics and performance data',
+          '/metrics - Full metrics and performance data, LLM output parse failures per task',
           '/dashboard - ASCII dashboard view',
-          '/config - Current configuration'
+          '/config - Current configuration',
+          '/tokens?limit=n - Top scored tokens (24h) with score breakdown',
+          '/tokens/:id/validation?limit=n - Recent validation runs for a token, with the rules that blocked it',
+          'GET /overrides?all=true - Token block/allow list (all includes expired)',
+          'POST /overrides - Block or allow a token: { token, action, reason, author, expires? } (admin)',
+          'DELETE /overrides/:id - Remove a token override (admin)',
+          'POST /runs - Start an analysis run now: { mode?: "absolute" | "relative" } (admin)'
         ]
       },
       timestamp: Date.now()
@@ -116,6 +151,7 @@ export class ApiServer {
       data: {
         health,
         performance: perf,
+        llmOutputs: monitor.getLLMOutputMetrics(),
         timestamp: Date.now()
       },
       timestamp: Date.now()
@@ -124,6 +160,161 @@ export class ApiServer {
     this.sendJson(res, response);
   }
 
+  private handleTokens(res: http.ServerResponse, limit: number) {
+    const tokens = getTopTokens(Math.min(limit, 100));
+
+    const response: ApiResponse = {
+      success: true,
+      data: tokens.map(t => ({
+        id: t.id,
+        symbol: t.symbol,
+        name: t.name,
+        price: t.price,
+        priceChange24h: t.priceChange24h,
+        volume24h: t.volume24h,
+        marketCap: t.marketCap,
+        score: t.score,
+        scoreBreakdown: t.scoreBreakdown || [],
+        analysis: t.analysis,
+        timestamp: t.timestamp
+      })),
+      timestamp: Date.now()
+    };
+
+    this.sendJson(res, response);
+  }
+
+  private handleValidation(res: http.ServerResponse, tokenId: string, limit: number) {
+    const validations = getValidations(tokenId, Math.min(limit, 100));
+    if (validations.length === 0) {
+      this.sendError(res, `No validation recorded for ${tokenId}`, 404);
+      return;
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      data: validations,
+      timestamp: Date.now()
+    };
+
+    this.sendJson(res, response);
+  }
+
+  private handleOverrides(res: http.ServerResponse, includeExpired: boolean) {
+    const response: ApiResponse = {
+      success: true,
+      data: tokenOverrides.list(includeExpired),
+      timestamp: Date.now()
+    };
+    this.sendJson(res, response);
+  }
+
+  // Admin endpoints need API_ADMIN_TOKEN as a bearer token; without it they're disabled
+  private authorized(req: http.IncomingMessage, res: http.ServerResponse): boolean {
+    const adminToken = process.env.API_ADMIN_TOKEN;
+    if (!adminToken) {
+      this.sendError(res, 'Admin endpoints are disabled (API_ADMIN_TOKEN not set)', 403);
+      return false;
+    }
+    // Compared as digests: equal length, constant time
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    if (!timingSafeEqual(digest(req.headers.authorization || ''), digest(`Bearer ${adminToken}`))) {
+      this.sendError(res, 'Unauthorized', 401);
+      return false;
+    }
+    return true;
+  }
+
+  // The request's JSON object body, or null once an error has been sent; an empty body is {} when optional
+  private async jsonBody(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    optional: boolean = false
+  ): Promise<Record<string, any> | null> {
+    let raw: string;
+    try {
+      raw = await readBody(req);
+    } catch (error: any) {
+      this.sendError(res, error.message, error instanceof BodyTooLargeError ? 413 : 400);
+      return null;
+    }
+    if (optional && raw.trim() === '') return {};
+
+    let body: unknown;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      this.sendError(res, 'Body must be JSON');
+      return null;
+    }
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      this.sendError(res, 'Body must be a JSON object');
+      return null;
+    }
+    return body as Record<string, any>;
+  }
+
+  private async handleOverrideWrite(req: http.IncomingMessage, res: http.ServerResponse) {
+    if (!this.authorized(req, res)) return;
+
+    const body = await this.jsonBody(req, res);
+    if (!body) return;
+
+    const ids = typeof body.token === 'string' ? tokenRegistry.identify(body.token) : [];
+    if (ids.length !== 1) {
+      this.sendError(res, ids.length === 0 ? 'Unknown token' : `Ambiguous token, one of: ${ids.join(', ')}`);
+      return;
+    }
+
+    try {
+      const override = tokenOverrides.set({
+        tokenId: ids[0],
+        action: body.action,
+        reason: body.reason,
+        author: body.author,
+        expiresAt: parseExpiry(body.expires)
+      });
+      this.sendJson(res, { success: true, data: override, timestamp: Date.now() } as ApiResponse, 201);
+    } catch (error: any) {
+      this.sendError(res, error.message);
+    }
+  }
+
+  private async handleRun(req: http.IncomingMessage, res: http.ServerResponse) {
+    if (!this.authorized(req, res)) return;
+    if (!this.runTrigger) {
+      this.sendError(res, 'Runs can only be started from the bot process', 503);
+      return;
+    }
+
+    const body = await this.jsonBody(req, res, true);
+    if (!body) return;
+
+    let mode: ScoringMode;
+    try {
+      mode = parseScoringMode(body.mode, parseScoringMode(process.env.SCORING_MODE));
+    } catch (error: any) {
+      this.sendError(res, error.message);
+      return;
+    }
+
+    if (!this.runTrigger(mode)) {
+      this.sendError(res, 'An analysis run is already in progress', 409);
+      return;
+    }
+    this.sendJson(res, { success: true, data: { mode }, timestamp: Date.now() } as ApiResponse, 202);
+  }
+
+  private handleOverrideDelete(req: http.IncomingMessage, res: http.ServerResponse, tokenId: string) {
+    if (!this.authorized(req, res)) return;
+
+    if (!tokenOverrides.remove(tokenId)) {
+      this.sendError(res, `No override for ${tokenId}`, 404);
+      return;
+    }
+    this.sendJson(res, { success: true, data: { tokenId }, timestamp: Date.now() } as ApiResponse);
+  }
+
   private handleDashboard(res: http.ServerResponse) {
     const dashboard = monitor.getDashboard();
     
@@ -177,4 +368,29 @@ export class ApiServer {
   }
 }
 
-export const apiServer = new ApiServer(3000);
+class BodyTooLargeError extends Error {
+  constructor(maxBytes: number) {
+    super(`Request body too large (max ${maxBytes / 1024}KB)`);
+    this.name = 'BodyTooLargeError';
+  }
+}
+
+// The rest of an oversized body is read and dropped so the 413 still reaches the client
+function readBody(req: http.IncomingMessage, maxBytes: number = 64 * 1024): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    let tooLarge = false;
+    req.on('data', chunk => {
+      if (tooLarge) return;
+      body += chunk;
+      if (body.length > maxBytes) {
+        tooLarge = true;
+        reject(new BodyTooLargeError(maxBytes));
+      }
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+export const apiServer = new ApiServer(parseInt(process.env.API_PORT || '3000'));
@@ -0,0 +1,134 @@
+/**
+ * Offline checks for the scorer backtest: schedule expansion, and picks,
+ * hit rate, excess return and turnover on a synthetic in-memory history
+ * where every token's daily return is known.
+ *
+ *   npm run check:backtest
+ */
+
+import assert from 'node:assert/strict';
+import { Backtester, scheduleTimes } from '../analyzers/backtest.js';
+import { ScoringConfig } from '../analyzers/scorer.js';
+import { MarketHistory } from '../collectors/market-history.js';
+import { Token } from '../shared/types.js';
+import { runChecks } from './harness.js';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const DAY0 = Date.UTC(2026, 4, 1);
+const NOON = 12 * HOUR;
+
+// Only volume scores, so the picks are the highest-volume tokens
+const BY_VOLUME: ScoringConfig = {
+  volume: {
+    metric: 'volume24h',
+    weight: 1,
+    enabled: true,
+    tiers: [
+      { min: 4e8, points: 40, reason: 'volume above $400M' },
+      { min: 3e8, points: 30, reason: 'volume above $300M' },
+      { min: 2e8, points: 20, reason: 'volume above $200M' },
+      { min: 1e8, points: 10, reason: 'volume above $100M' }
+    ]
+  }
+};
+
+// Daily return and 24h volume per token; on day 2 CCC's volume jumps into the top 2
+const TOKENS: Record<string, { daily: number; volume: (day: number) => number }> = {
+  aaa: { daily: 0.1, volume: () => 3.5e8 },
+  bbb: { daily: -0.1, volume: () => 2.5e8 },
+  ccc: { daily: 0, volume: day => (day === 2 ? 4.5e8 : 1.5e8) },
+  ddd: { daily: 0.2, volume: () => 5e7 }
+};
+
+function token(id: string, day: number): Token {
+  return {
+    id,
+    symbol: id.toUpperCase(),
+    name: id,
+    price: (1 + TOKENS[id].daily) ** day,
+    volume24h: TOKENS[id].volume(day),
+    marketCap: 1e9,
+    priceChange24h: 0,
+    priceChange7d: 0,
+    timestamp: DAY0 + day * DAY
+  };
+}
+
+// A run's snapshots land a few minutes after its noon slot, for days 0-3
+function syntheticHistory(): MarketHistory {
+  const history = new MarketHistory(':memory:', undefined, 0);
+  for (let day = 0; day <= 3; day++) {
+    history.recordSnapshots(Object.keys(TOKENS).map(id => token(id, day)), DAY0 + day * DAY + NOON + 5 * 60 * 1000);
+  }
+  return history;
+}
+
+function close(actual: number, expected: number, what: string) {
+  assert.ok(Math.abs(actual - expected) < 1e-9, `${what}: expected ${expected}, got ${actual}`);
+}
+
+await runChecks('backtest', {
+  'expands daily cron schedules and rejects others'() {
+    assert.deepEqual(scheduleTimes(['0 6,18 * * *', '30 12 * * *'], DAY0, DAY0 + DAY - 1), [
+      DAY0 + 6 * HOUR,
+      DAY0 + NOON + 30 * 60 * 1000,
+      DAY0 + 18 * HOUR
+    ]);
+    assert.throws(() => scheduleTimes(['0 12 * * 1'], DAY0, DAY0 + DAY), /only supports daily schedules/);
+    assert.throws(() => scheduleTimes(['*/5 * * * *'], DAY0, DAY0 + DAY), /only supports/);
+  },
+
+  'grades the top N against the universe on a synthetic history'() {
+    // Noon slots from the day before the data starts through day 2; day 3 only grades day 2
+    const report = new Backtester(syntheticHistory()).run(
+      {
+        from: DAY0 - DAY,
+        to: DAY0 + 2 * DAY + NOON,
+        topN: 2,
+        horizonsDays: [1],
+        scoring: BY_VOLUME,
+        mode: 'absolute',
+        schedules: ['0 12 * * *']
+      },
+      'by-volume'
+    );
+
+    assert.equal(report.runs, 3, 'the slot without snapshots is skipped');
+    assert.deepEqual(report.periods.map(p => p.picks), [
+      ['aaa', 'bbb'],
+      ['aaa', 'bbb'],
+      ['ccc', 'aaa']
+    ]);
+
+    // Universe averages +5%/day; AAA (+10%) beats it, BBB (-10%) and CCC (0%) don't
+    const [oneDay] = report.horizons;
+    assert.equal(oneDay.horizon, '1d');
+    assert.equal(oneDay.periods, 3);
+    close(oneDay.hitRate, 3 / 6, 'hit rate');
+    close(oneDay.avgUniverseReturn, 0.05, 'universe return');
+    close(oneDay.avgPickReturn, (0 + 0 + 0.05) / 3, 'pick return');
+    close(oneDay.avgExcessReturn, (0 + 0 + 0.05) / 3 - 0.05, 'excess return');
+
+    // One of two picks replaced on day 2, none on day 1
+    close(report.turnover, (0 + 0.5) / 2, 'turnover');
+  },
+
+  'leaves periods without forward prices ungraded'() {
+    const report = new Backtester(syntheticHistory()).run({
+      from: DAY0,
+      to: DAY0 + 3 * DAY + NOON,
+      topN: 2,
+      horizonsDays: [1, 7],
+      scoring: BY_VOLUME,
+      mode: 'absolute',
+      schedules: ['0 12 * * *']
+    });
+
+    assert.equal(report.runs, 4);
+    assert.equal(report.periods[3].returns['1d'].picks, null);
+    assert.equal(report.horizons[0].periods, 3);
+    assert.equal(report.horizons[1].periods, 0);
+    assert.equal(report.horizons[1].hitRate, 0);
+  }
+});
@@ -0,0 +1,160 @@
+/**
+ * Offline checks for contract-risk heuristics: fixtures/contract-risk.json
+ * through the assessor into validateToken, DEX buy/sell share, tax
+ * asymmetry, worst case across chains and analyzer precedence.
+ *
+ *   npm run check:contract-risk
+ */
+
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'url';
+import {
+  ContractChecker,
+  ContractRiskAnalyzer,
+  ContractRiskAssessor,
+  DexPairRiskAnalyzer,
+  FixtureContractChecker,
+  OnchainRiskAnalyzer,
+  worstCase
+} from '../collectors/contract-risk.js';
+import { DEFAULT_PROFILES, validateToken } from '../shared/validator.js';
+import { ContractRisk, Token, TokenContract } from '../shared/types.js';
+import { runChecks } from './harness.js';
+
+const FIXTURE = fileURLToPath(new URL('../../fixtures/contract-risk.json', import.meta.url));
+
+// A DEXScreener-only token with healthy two-way trading
+function dexToken(symbol: string, contract: TokenContract, extra: Partial<Token> = {}): Token {
+  return {
+    id: `${contract.chain}:${contract.address}`,
+    symbol,
+    name: symbol,
+    price: 1,
+    volume24h: 2_000_000,
+    marketCap: 20_000_000,
+    priceChange24h: 0,
+    priceChange7d: 0,
+    liquidity: 500_000,
+    buys24h: 600,
+    sells24h: 400,
+    timestamp: 0,
+    contracts: [contract],
+    sources: ['dexscreener'],
+    ...extra
+  };
+}
+
+// Records which contracts were looked up
+class CountingChecker implements ContractChecker {
+  calls: string[] = [];
+
+  constructor(private risk: ContractRisk | null) {}
+
+  async check(contract: TokenContract): Promise<ContractRisk | null> {
+    this.calls.push(`${contract.chain}:${contract.address}`);
+    return this.risk;
+  }
+}
+
+function assessor(checker: ContractChecker): ContractRiskAssessor {
+  return new ContractRiskAssessor([new DexPairRiskAnalyzer(), new OnchainRiskAnalyzer(checker)]);
+}
+
+function evaluationStatus(result: ReturnType<typeof validateToken>, rule: string) {
+  return result.evaluations.find(e => e.rule === rule)?.status;
+}
+
+await runChecks('contract risk', {
+  async 'fixture blocks the token with live mint and freeze authority'() {
+    const [bonk, rug] = await assessor(FixtureContractChecker.fromFile(FIXTURE)).assess([
+      dexToken('BONK', { chain: 'solana', address: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263' }),
+      dexToken('PEPE', { chain: 'solana', address: '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU' })
+    ]);
+
+    assert.equal(rug.contractRisk?.mintable, true);
+    assert.equal(rug.contractRenounced, false);
+    const blocked = validateToken(rug, DEFAULT_PROFILES);
+    assert.equal(blocked.profile, 'solana-dex');
+    assert.deepEqual(blocked.blockedBy, ['mintable', 'freezable', 'min-score']);
+
+    assert.equal(bonk.contractRenounced, true);
+    assert.equal(validateToken(bonk, DEFAULT_PROFILES).isValid, true);
+  },
+
+  async 'a pool with almost no sells is blocked as a likely honeypot'() {
+    const contract = { chain: 'solana', address: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263' };
+    const [buyOnly, quiet] = await assessor(new CountingChecker(null)).assess([
+      dexToken('BUY', contract, { buys24h: 990, sells24h: 10 }),
+      dexToken('QUIET', contract, { buys24h: 30, sells24h: 0 }) // too few swaps to judge
+    ]);
+
+    assert.equal(buyOnly.contractRisk?.sellShare, 0.01);
+    const result = validateToken(buyOnly, DEFAULT_PROFILES);
+    assert.deepEqual(result.blockedBy, ['buy-only']);
+    assert.match(result.risks[0], /Only 1% of 24h swaps were sells/);
+
+    assert.equal(quiet.contractRisk, undefined);
+  },
+
+  async 'a sell tax well above the buy tax blocks the token'() {
+    const contract = { chain: 'ethereum', address: '0x00000000000000000000000000000000000000aa' };
+    const [taxed] = await assessor(new CountingChecker({ buyTax: 1, sellTax: 8, honeypot: false })).assess([
+      dexToken('TAX', contract)
+    ]);
+
+    const result = validateToken(taxed, DEFAULT_PROFILES);
+    assert.equal(result.profile, 'default');
+    assert.deepEqual(result.blockedBy, ['tax-asymmetry']);
+    assert.equal(evaluationStatus(result, 'sell-tax'), 'passed');
+    assert.equal(evaluationStatus(result, 'buy-tax'), 'passed');
+  },
+
+  'worst case across chains: any flag set counts, the highest tax wins'() {
+    assert.deepEqual(
+      worstCase([
+        { mintable: false, renounced: true, buyTax: 2, sellTax: 3 },
+        { mintable: true, renounced: false, sellTax: 12, honeypot: false }
+      ]),
+      {
+        mintable: true,
+        freezable: undefined,
+        upgradeable: undefined,
+        honeypot: false,
+        renounced: false,
+        buyTax: 2,
+        sellTax: 12
+      }
+    );
+  },
+
+  async 'listed tokens skip on-chain checks and contracts are cached'() {
+    const checker = new CountingChecker({ mintable: true });
+    const analyzer = new OnchainRiskAnalyzer(checker);
+    const contract = { chain: 'ethereum', address: '0x6982508145454ce325ddbe47a25d4ec3d2311933' };
+
+    assert.equal(await analyzer.analyze(dexToken('PEPE', contract, { coingeckoId: 'pepe' })), null);
+    assert.equal(await analyzer.analyze(dexToken('PEPE', contract, { sources: ['coingecko'] })), null);
+    assert.deepEqual(checker.calls, []);
+
+    await analyzer.analyze(dexToken('PEPE', contract));
+    await analyzer.analyze(dexToken('PEPE', contract));
+    assert.deepEqual(checker.calls, ['ethereum:0x6982508145454ce325ddbe47a25d4ec3d2311933']);
+  },
+
+  async 'earlier analyzers win and a failing one is skipped'() {
+    const analyzers: ContractRiskAnalyzer[] = [
+      { name: 'first', analyze: async () => ({ sellTax: 2 }) },
+      {
+        name: 'broken',
+        analyze: async () => {
+          throw new Error('rpc down');
+        }
+      },
+      { name: 'second', analyze: async () => ({ sellTax: 40, mintable: true }) }
+    ];
+    const contract = { chain: 'ethereum', address: '0x00000000000000000000000000000000000000bb' };
+    const [token] = await new ContractRiskAssessor(analyzers).assess([dexToken('MIX', contract)]);
+
+    assert.deepEqual(token.contractRisk, { sellTax: 2, mintable: true });
+  }
+});
@@ -0,0 +1,22 @@
+/**
+ * Runs one file's offline checks in order, prints ✓/✗ per check and exits
+ * non-zero if any failed (`npm test` runs every file)
+ */
+
+export type Checks = Record<string, () => Promise<void> | void>;
+
+export async function runChecks(label: string, checks: Checks): Promise<never> {
+  let failed = 0;
+  for (const [name, check] of Object.entries(checks)) {
+    try {
+      await check();
+      console.log(`✓ ${name}`);
+    } catch (error: any) {
+      failed++;
+      console.error(`✗ ${name}\n  ${error.message}`);
+    }
+  }
+
+  console.log(`\n${Object.keys(checks).length - failed}/${Object.keys(checks).length} ${label} checks passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
@@ -0,0 +1,117 @@
+/**
+ * Offline checks for the recorded-fixture HTTP layer: both collectors
+ * replayed from fixtures/http, malformed rows dropped, record/replay round
+ * trip and the missing-fixture error. Never touches the network.
+ *
+ *   npm run check:http
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import type { AxiosInstance } from 'axios';
+import { parseCoinGeckoMarkets, parseDexScreenerPairs } from '../collectors/schemas.js';
+import { runChecks } from './harness.js';
+
+const FIXTURES = fileURLToPath(new URL('../../fixtures/http', import.meta.url));
+
+// The collectors share the httpClient singleton, which reads these when first imported
+process.env.HTTP_MODE = 'replay';
+process.env.HTTP_FIXTURE_DIR = FIXTURES;
+const { HttpClient, fixturePath } = await import('../shared/http.js');
+const { fetchTopTokens } = await import('../collectors/coingecko.js');
+const { fetchTrendingTokens } = await import('../collectors/dexscreener.js');
+
+// Stands in for axios; replay must never reach it
+function transport(data: any, calls: any[] = []): AxiosInstance {
+  return {
+    request: async (config: any) => {
+      calls.push(config);
+      return { status: 200, data };
+    }
+  } as unknown as AxiosInstance;
+}
+
+function fixture(host: string, file: string): any {
+  return JSON.parse(readFileSync(join(FIXTURES, host, file), 'utf8')).data;
+}
+
+await runChecks('HTTP replay', {
+  async 'replays fetchTopTokens without the malformed listing'() {
+    const tokens = await fetchTopTokens();
+
+    assert.deepEqual(tokens.map(t => t.id), ['bitcoin', 'ethereum', 'pepe']);
+    const pepe = tokens.find(t => t.id === 'pepe')!;
+    assert.equal(pepe.symbol, 'PEPE');
+    assert.equal(pepe.price, 0.00000987);
+    assert.equal(pepe.priceChange7d, 21.7);
+    assert.deepEqual(pepe.sources, ['coingecko']);
+    assert.ok(tokens.every(t => Number.isFinite(t.price) && t.price > 0));
+  },
+
+  async 'replays fetchTrendingTokens without the NaN-priced pair'() {
+    const tokens = await fetchTrendingTokens();
+
+    assert.deepEqual(tokens.map(t => t.symbol), ['PEPE', 'BONK', 'PEPE']);
+    assert.ok(!tokens.some(t => t.symbol === 'BAD'));
+    assert.ok(tokens.every(t => Number.isFinite(t.price) && t.price > 0));
+    assert.deepEqual(tokens[0].contracts, [
+      { chain: 'ethereum', address: '0x6982508145454ce325ddbe47a25d4ec3d2311933' }
+    ]);
+    assert.equal(tokens[0].buys24h, 41250);
+  },
+
+  'schemas report each malformed row'() {
+    const markets = parseCoinGeckoMarkets(
+      fixture('api.coingecko.com', 'api_v3_coins_markets-72dead0d22d2.json')
+    );
+    assert.equal(markets.issues.length, 1);
+    assert.equal(markets.issues[0].id, 'broken-listing');
+    assert.match(markets.issues[0].problems.join(), /current_price: missing/);
+
+    const pairs = parseDexScreenerPairs(
+      fixture('api.dexscreener.com', 'latest_dex_tokens_trending-b7c946e217ee.json')
+    );
+    assert.equal(pairs.issues.length, 1);
+    assert.match(pairs.issues[0].problems.join(), /priceUsd: expected positive number/);
+  },
+
+  async 'replay fails on a missing fixture instead of going live'() {
+    const calls: any[] = [];
+    const client = new HttpClient('replay', FIXTURES, transport({}, calls));
+
+    await assert.rejects(
+      client.get('https://api.coingecko.com/api/v3/coins/markets', { params: { page: 99 } }),
+      /No recorded fixture for GET/
+    );
+    assert.equal(calls.length, 0);
+  },
+
+  async 'record then replay returns the same data without secrets'() {
+    const dir = mkdtempSync(join(tmpdir(), 'http-fixtures-'));
+    try {
+      const request = {
+        params: { query: 'pepe', api_key: 'secret' },
+        headers: { 'x-cg-demo-api-key': 'secret' }
+      };
+      const recorded = await new HttpClient('record', dir, transport({ coins: [{ id: 'pepe' }] })).get(
+        'https://api.coingecko.com/api/v3/search',
+        request
+      );
+
+      const path = fixturePath(dir, { method: 'GET', url: 'https://api.coingecko.com/api/v3/search', ...request });
+      assert.doesNotMatch(readFileSync(path, 'utf8'), /secret/);
+
+      // Another key hits the same fixture
+      const replayed = await new HttpClient('replay', dir, transport(null)).get(
+        'https://api.coingecko.com/api/v3/search',
+        { params: { query: 'pepe', api_key: 'other' } }
+      );
+      assert.deepEqual(replayed, recorded);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  }
+});
@@ -0,0 +1,119 @@
+/**
+ * Offline checks for the LLM client: routing, provider fallback, the scripted
+ * mock and completeJSON's repair retry. No API keys or network needed.
+ *
+ *   npm run check:llm
+ */
+
+import assert from 'node:assert/strict';
+import {
+  LLMAdapter,
+  LLMClient,
+  LLMError,
+  LLMOutputError,
+  LLMRoutes,
+  LLM_TASKS,
+  ScriptedLLMAdapter,
+  createLLMClient
+} from '../shared/llm.js';
+import { SENTIMENT_TOPICS } from '../shared/llm-schemas.js';
+import { monitor } from '../shared/monitor.js';
+import { runChecks } from './harness.js';
+
+// A provider with no API key configured
+const unconfigured: LLMAdapter = {
+  available: () => false,
+  complete: async () => {
+    throw new Error('unconfigured provider was called');
+  }
+};
+
+function routes(candidates: string[]): LLMRoutes {
+  return Object.fromEntries(LLM_TASKS.map(task => [task, candidates])) as LLMRoutes;
+}
+
+await runChecks('LLM', {
+  async 'skips providers without a key'() {
+    const second = new ScriptedLLMAdapter([], 'from second');
+    const client = new LLMClient({ first: unconfigured, second }, routes(['first:a', 'second:b']));
+
+    assert.equal(await client.complete('summary', 'hi', { maxTokens: 10 }), 'from second');
+    assert.equal(second.calls[0].model, 'b');
+    assert.equal(new LLMClient({ first: unconfigured }, routes(['first:a'])).available('summary'), false);
+  },
+
+  async 'falls back on 429 and 5xx'() {
+    for (const status of [429, 503]) {
+      const first = new ScriptedLLMAdapter([{ status }]);
+      const second = new ScriptedLLMAdapter([], 'fallback reply');
+      const client = new LLMClient({ first, second }, routes(['first:a', 'second:b']));
+
+      assert.equal(await client.complete('summary', 'hi', { maxTokens: 10 }), 'fallback reply');
+      assert.equal(first.calls.length, 1);
+      assert.equal(second.calls.length, 1);
+    }
+  },
+
+  async 'throws other errors without falling back'() {
+    const first = new ScriptedLLMAdapter([{ status: 400 }]);
+    const second = new ScriptedLLMAdapter([], 'unused');
+    const client = new LLMClient({ first, second }, routes(['first:a', 'second:b']));
+
+    await assert.rejects(client.complete('summary', 'hi', { maxTokens: 10 }), (error: LLMError) => error.status === 400);
+    assert.equal(second.calls.length, 0);
+  },
+
+  async 'throws the last error when every provider fails'() {
+    const client = new LLMClient(
+      { first: new ScriptedLLMAdapter([{ status: 429 }]), second: new ScriptedLLMAdapter([{ status: 502 }]) },
+      routes(['first:a', 'second:b'])
+    );
+
+    await assert.rejects(client.complete('summary', 'hi', { maxTokens: 10 }), (error: LLMError) => error.status === 502);
+  },
+
+  async 'mock answers every task from the script'() {
+    const client = createLLMClient('mock');
+    for (const task of LLM_TASKS) assert.ok(client.available(task), `mock should serve ${task}`);
+
+    const parsed = await client.completeJSON('sentiment', 'Tweet: ETH looks heavy', SENTIMENT_TOPICS, { maxTokens: 100 });
+    assert.equal(parsed.sentiment, 'neutral');
+  },
+
+  async 'completeJSON accepts fenced JSON'() {
+    const client = new LLMClient(
+      { mock: new ScriptedLLMAdapter([], '```json\n{"sentiment": "bullish", "topics": ["eth"]}\n```') },
+      routes(['mock:scripted'])
+    );
+
+    assert.deepEqual(await client.completeJSON('sentiment', 'hi', SENTIMENT_TOPICS, { maxTokens: 100 }), {
+      sentiment: 'bullish',
+      topics: ['eth']
+    });
+  },
+
+  async 'completeJSON repairs an invalid reply once'() {
+    const before = monitor.getLLMOutputMetrics().sentiment?.repaired ?? 0;
+    const adapter = new ScriptedLLMAdapter([
+      { reply: '{"sentiment": "moon", "topics": []}', times: 1 },
+      { match: 'It was invalid', reply: '{"sentiment": "bullish", "topics": ["sol"]}' }
+    ]);
+    const client = new LLMClient({ mock: adapter }, routes(['mock:scripted']));
+
+    const parsed = await client.completeJSON('sentiment', 'hi', SENTIMENT_TOPICS, { maxTokens: 100 });
+    assert.equal(parsed.sentiment, 'bullish');
+    assert.equal(adapter.calls.length, 2);
+    assert.match(adapter.calls[1].prompt, /expected one of bullish, bearish, neutral, got "moon"/);
+    assert.equal(monitor.getLLMOutputMetrics().sentiment.repaired, before + 1);
+  },
+
+  async 'completeJSON gives up after one repair'() {
+    const before = monitor.getLLMOutputMetrics().sentiment?.failed ?? 0;
+    const adapter = new ScriptedLLMAdapter([], 'not json at all');
+    const client = new LLMClient({ mock: adapter }, routes(['mock:scripted']));
+
+    await assert.rejects(client.completeJSON('sentiment', 'hi', SENTIMENT_TOPICS, { maxTokens: 100 }), LLMOutputError);
+    assert.equal(adapter.calls.length, 2);
+    assert.equal(monitor.getLLMOutputMetrics().sentiment.failed, before + 1);
+  }
+});
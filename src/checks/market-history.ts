@@ -0,0 +1,128 @@
+/**
+ * Offline checks for market history: append-only snapshots, price at T,
+ * backfill from a stubbed source and retention downsampling. Uses an
+ * in-memory database.
+ *
+ *   npm run check:market-history
+ */
+
+import assert from 'node:assert/strict';
+import { MarketDataSource, MarketHistory } from '../collectors/market-history.js';
+import { Token } from '../shared/types.js';
+import { runChecks } from './harness.js';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const NOW = Date.UTC(2026, 5, 1); // midnight, so hour and day buckets line up with the offsets below
+
+function token(id: string, price: number): Token {
+  return {
+    id,
+    symbol: id.toUpperCase(),
+    name: id,
+    price,
+    volume24h: 1_000_000,
+    marketCap: 10_000_000,
+    priceChange24h: 0,
+    priceChange7d: 0,
+    timestamp: NOW
+  };
+}
+
+function history(source?: MarketDataSource): MarketHistory {
+  return new MarketHistory(':memory:', source, 0);
+}
+
+await runChecks('market history', {
+  'appends a snapshot per run and skips unpriced tokens'() {
+    const store = history();
+
+    assert.equal(store.recordSnapshots([token('pepe', 1), token('dust', 0)], NOW - HOUR), 1);
+    assert.equal(store.recordSnapshots([token('pepe', 2)], NOW), 1);
+    assert.deepEqual(
+      store.getSnapshots('pepe', 0, NOW).map(s => s.price),
+      [1, 2]
+    );
+    assert.deepEqual(store.getSnapshots('dust', 0, NOW), []);
+  },
+
+  'priceAt takes the nearest point within the tolerance'() {
+    const store = history();
+    store.recordSnapshots([token('pepe', 1)], NOW - 30 * 60 * 1000);
+    store.recordSnapshots([token('pepe', 2)], NOW + 90 * 60 * 1000);
+
+    assert.equal(store.priceAt('pepe', NOW), 1);
+    assert.equal(store.priceAt('pepe', NOW + 80 * 60 * 1000), 2);
+    assert.equal(store.priceAt('pepe', NOW + 5 * HOUR), null);
+    assert.equal(store.priceAt('pepe', NOW + 5 * HOUR, 4 * HOUR), 2);
+  },
+
+  'priceAt reads candle closes as well as snapshots'() {
+    const store = history();
+    store.recordSnapshots([token('pepe', 1)], NOW - HOUR);
+    store.recordCandles('pepe', '30m', [[NOW + 10 * 60 * 1000, 1.2, 1.6, 1.1, 1.5]]);
+
+    assert.equal(store.priceAt('pepe', NOW), 1.5);
+    assert.equal(store.returnOver('pepe', NOW - HOUR, NOW), 0.5);
+    assert.equal(store.returnOver('pepe', NOW - 3 * DAY, NOW), null);
+  },
+
+  async 'backfill stores candles and market_chart points once'() {
+    const source: MarketDataSource = {
+      ohlc: async () => [
+        [NOW - HOUR, 1, 2, 0.5, 1.5],
+        [NOW, 1.5, 2.5, 1, 2]
+      ],
+      marketChart: async () => ({
+        prices: [[NOW - HOUR, 1.4], [NOW, 2.1]],
+        marketCaps: [[NOW, 21_000_000]],
+        volumes: [[NOW, 3_000_000]]
+      })
+    };
+    const store = history(source);
+    store.recordSnapshots([{ ...token('pepe', 1), coingeckoId: 'pepe' }], NOW - 2 * HOUR);
+
+    assert.deepEqual(await store.backfill('pepe'), { snapshots: 2, candles: 2 });
+    assert.deepEqual(await store.backfill('pepe'), { snapshots: 0, candles: 0 });
+
+    const latest = store.getSnapshots('pepe', NOW, NOW)[0];
+    assert.equal(latest.source, 'market_chart');
+    assert.equal(latest.symbol, 'PEPE');
+    assert.equal(latest.marketCap, 21_000_000);
+    assert.equal(latest.volume24h, 3_000_000);
+  },
+
+  'retention keeps raw, then hourly, then daily snapshots and drops the oldest'() {
+    const store = history();
+    const minutes = (n: number) => n * 60 * 1000;
+    for (const offset of [
+      minutes(60), minutes(55), // raw window: both kept
+      2 * DAY + minutes(40), 2 * DAY + minutes(10), // same hour: latest kept
+      5 * DAY + 5 * HOUR, 5 * DAY + HOUR, // same UTC day: latest kept
+      11 * DAY // past maxDays
+    ]) {
+      store.recordSnapshots([token('pepe', 1)], NOW - offset);
+    }
+
+    assert.equal(store.applyRetention({ rawDays: 1, hourlyDays: 3, maxDays: 10 }, NOW), 3);
+    assert.deepEqual(
+      store.getSnapshots('pepe', 0, NOW).map(s => NOW - s.timestamp),
+      [5 * DAY + HOUR, 2 * DAY + minutes(10), minutes(60), minutes(55)]
+    );
+  },
+
+  'retention rolls old intraday candles into one daily candle'() {
+    const store = history();
+    store.recordCandles('pepe', '30m', [
+      [NOW - 5 * DAY - 2 * HOUR, 1, 3, 0.5, 2],
+      [NOW - 5 * DAY - HOUR, 2, 4, 1, 3],
+      [NOW - HOUR, 5, 6, 4, 5.5]
+    ]);
+
+    assert.equal(store.applyRetention({ rawDays: 1, hourlyDays: 3, maxDays: 0 }, NOW), 2);
+    assert.deepEqual(store.getCandles('pepe', 0, NOW), [
+      { tokenId: 'pepe', interval: '1d', timestamp: NOW - 5 * DAY, open: 1, high: 4, low: 0.5, close: 3 },
+      { tokenId: 'pepe', interval: '30m', timestamp: NOW - HOUR, open: 5, high: 6, low: 4, close: 5.5 }
+    ]);
+  }
+});
@@ -0,0 +1,117 @@
+/**
+ * Offline checks for token overrides: matching on any identity, block over
+ * allow, expiry, withoutBlocked/pick and parseExpiry. Uses an in-memory
+ * database.
+ *
+ *   npm run check:overrides
+ */
+
+import assert from 'node:assert/strict';
+import { TokenOverrides, parseExpiry } from '../shared/token-overrides.js';
+import { Token } from '../shared/types.js';
+import { runChecks } from './harness.js';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+function token(id: string, extra: Partial<Token> = {}): Token {
+  return {
+    id,
+    symbol: id.toUpperCase(),
+    name: id,
+    price: 1,
+    volume24h: 1_000_000,
+    marketCap: 10_000_000,
+    priceChange24h: 0,
+    priceChange7d: 0,
+    timestamp: 0,
+    ...extra
+  };
+}
+
+const PEPE = token('pepe', {
+  coingeckoId: 'pepe',
+  contracts: [{ chain: 'ethereum', address: '0x6982508145454ce325ddbe47a25d4ec3d2311933' }]
+});
+
+function override(tokenId: string, action: 'block' | 'allow', expiresAt?: number) {
+  return { tokenId, action, reason: `${action} for the check`, author: 'checks', expiresAt };
+}
+
+await runChecks('token override', {
+  'matches a token by its id or any contract'() {
+    for (const id of ['pepe', 'ethereum:0x6982508145454ce325ddbe47a25d4ec3d2311933']) {
+      const overrides = new TokenOverrides(':memory:');
+      overrides.set(override(id, 'block'));
+      assert.equal(overrides.isBlocked(PEPE), true, `blocked by ${id}`);
+      assert.equal(overrides.isBlocked(token('bonk')), false);
+    }
+  },
+
+  'block wins over allow'() {
+    const overrides = new TokenOverrides(':memory:');
+    overrides.set(override('pepe', 'allow'));
+    overrides.set(override('ethereum:0x6982508145454ce325ddbe47a25d4ec3d2311933', 'block'));
+
+    assert.equal(overrides.get(PEPE)?.action, 'block');
+    assert.equal(overrides.isAllowed(PEPE), false);
+    assert.deepEqual(overrides.withoutBlocked([PEPE]), []);
+  },
+
+  'one override per token, the latest wins'() {
+    const overrides = new TokenOverrides(':memory:');
+    overrides.set(override('pepe', 'block'));
+    overrides.set(override('pepe', 'allow'));
+
+    assert.deepEqual(overrides.list().map(o => [o.tokenId, o.action]), [['pepe', 'allow']]);
+    assert.equal(overrides.remove('pepe'), true);
+    assert.equal(overrides.remove('pepe'), false);
+    assert.equal(overrides.get(PEPE), null);
+  },
+
+  'expired overrides are ignored but kept for the record'() {
+    const overrides = new TokenOverrides(':memory:');
+    const now = Date.now();
+    overrides.set({ ...override('pepe', 'block', now - HOUR), createdAt: now - DAY });
+    overrides.set(override('bonk', 'block', now + HOUR));
+
+    assert.equal(overrides.isBlocked(PEPE), false);
+    assert.equal(overrides.isBlocked(token('bonk')), true);
+    assert.equal(overrides.get(token('bonk'), now + 2 * HOUR), null);
+    assert.deepEqual(overrides.list().map(o => o.tokenId), ['bonk']);
+    assert.deepEqual(overrides.list(true).map(o => o.tokenId).sort(), ['bonk', 'pepe']);
+  },
+
+  'rejects overrides without a reason, author or known action'() {
+    const overrides = new TokenOverrides(':memory:');
+
+    assert.throws(() => overrides.set({ ...override('pepe', 'block'), reason: ' ' }), /needs a reason/);
+    assert.throws(() => overrides.set({ ...override('pepe', 'block'), author: '' }), /needs an author/);
+    assert.throws(() => overrides.set({ ...override('pepe', 'block'), action: 'mute' as any }), /Unknown override action/);
+    assert.deepEqual(overrides.list(true), []);
+  },
+
+  'withoutBlocked drops blocked tokens and pick keeps a slot for allowed ones'() {
+    const overrides = new TokenOverrides(':memory:');
+    overrides.set(override('bbb', 'block'));
+    overrides.set(override('ddd', 'allow'));
+    const scored = ['aaa', 'bbb', 'ccc', 'ddd'].map(id => token(id));
+
+    const eligible = overrides.withoutBlocked(scored);
+    assert.deepEqual(eligible.map(t => t.id), ['aaa', 'ccc', 'ddd']);
+    assert.deepEqual(overrides.pick(eligible, 2).map(t => t.id), ['aaa', 'ddd']);
+    assert.deepEqual(overrides.pick(eligible, 3).map(t => t.id), ['aaa', 'ccc', 'ddd']);
+  },
+
+  'parseExpiry takes durations and future dates'() {
+    const now = Date.UTC(2026, 0, 1);
+
+    assert.equal(parseExpiry(undefined, now), undefined);
+    assert.equal(parseExpiry('12h', now), now + 12 * HOUR);
+    assert.equal(parseExpiry('30d', now), now + 30 * DAY);
+    assert.equal(parseExpiry('2W', now), now + 14 * DAY);
+    assert.equal(parseExpiry('2026-12-31', now), Date.UTC(2026, 11, 31));
+    assert.throws(() => parseExpiry('2025-12-31', now), /in the past/);
+    assert.throws(() => parseExpiry('soon', now), /Invalid expiry "soon"/);
+  }
+});
@@ -0,0 +1,179 @@
+/**
+ * Offline checks for the validation rule engine: rules wired to BotConfig
+ * thresholds, profile selection, skipped metrics, the min-score floor and
+ * VALIDATION_RULES overrides.
+ *
+ *   npm run check:validation
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { config } from '../shared/config.js';
+import { DEFAULT_PROFILES, loadValidationProfiles, profileFor, validateToken } from '../shared/validator.js';
+import { Token } from '../shared/types.js';
+import { runChecks } from './harness.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Unlisted, no contracts: the default profile, with nothing firing
+function token(overrides: Partial<Token> = {}): Token {
+  return {
+    id: 'tok',
+    symbol: 'TOK',
+    name: 'Tok',
+    price: 1,
+    volume24h: 1_000_000,
+    marketCap: 10_000_000,
+    priceChange24h: 0,
+    priceChange7d: 0,
+    timestamp: 0,
+    ...overrides
+  };
+}
+
+function evaluation(result: ReturnType<typeof validateToken>, rule: string) {
+  return result.evaluations.find(e => e.rule === rule);
+}
+
+// Runs `check` with a config value changed, then puts it back
+function withConfig(key: 'maxVolatilityPercent' | 'maxHolderConcentration', value: number, check: () => void) {
+  const previous = config.get(key);
+  config.set(key, value);
+  try {
+    check();
+  } finally {
+    config.set(key, previous);
+  }
+}
+
+await runChecks('validation', {
+  'volatility rule fires above maxVolatilityPercent'() {
+    const limit = config.get('maxVolatilityPercent');
+
+    const atLimit = validateToken(token({ volatility24h: limit }), DEFAULT_PROFILES);
+    assert.equal(evaluation(atLimit, 'volatility')?.status, 'passed');
+    assert.equal(atLimit.isValid, true);
+
+    const over = validateToken(token({ volatility24h: limit + 1 }), DEFAULT_PROFILES);
+    assert.deepEqual(evaluation(over, 'volatility'), {
+      rule: 'volatility',
+      severity: 'risk',
+      status: 'fired',
+      value: limit + 1,
+      threshold: limit,
+      penalty: 25,
+      message: `Extreme volatility: ${limit + 1}%`
+    });
+    assert.deepEqual(over.blockedBy, ['volatility']);
+
+    withConfig('maxVolatilityPercent', limit + 50, () => {
+      const raised = validateToken(token({ volatility24h: limit + 1 }), DEFAULT_PROFILES);
+      assert.equal(evaluation(raised, 'volatility')?.status, 'passed');
+      assert.equal(evaluation(raised, 'volatility')?.threshold, limit + 50);
+    });
+  },
+
+  'holder rule follows maxHolderConcentration'() {
+    const limit = config.get('maxHolderConcentration');
+    const concentrated = token({ topHolderPercent: limit + 1 });
+
+    assert.deepEqual(validateToken(concentrated, DEFAULT_PROFILES).blockedBy, ['holder-concentration']);
+    withConfig('maxHolderConcentration', limit + 10, () => {
+      assert.equal(validateToken(concentrated, DEFAULT_PROFILES).isValid, true);
+    });
+  },
+
+  'picks the profile by listing, market cap and chain'() {
+    const solana = [{ chain: 'solana', address: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263' }];
+
+    assert.equal(profileFor(token({ coingeckoId: 'tok', marketCap: 2e9 }), DEFAULT_PROFILES).id, 'large-cap');
+    assert.equal(profileFor(token({ contracts: solana }), DEFAULT_PROFILES).id, 'solana-dex');
+    assert.equal(profileFor(token({ coingeckoId: 'tok', contracts: solana }), DEFAULT_PROFILES).id, 'default');
+    assert.equal(profileFor(token(), DEFAULT_PROFILES).id, 'default');
+  },
+
+  'applies only the rules in the token profile'() {
+    const young = { age: DAY, volume24h: 5e8 };
+
+    const largeCap = validateToken(token({ ...young, coingeckoId: 'tok', marketCap: 2e9 }), DEFAULT_PROFILES);
+    assert.equal(largeCap.profile, 'large-cap');
+    assert.equal(evaluation(largeCap, 'young'), undefined);
+    assert.equal(largeCap.isValid, true);
+
+    const unlisted = validateToken(token({ ...young, marketCap: 2e9 }), DEFAULT_PROFILES);
+    assert.equal(evaluation(unlisted, 'young')?.status, 'fired');
+    assert.deepEqual(unlisted.blockedBy, ['young']);
+  },
+
+  'skips rules whose metric the token lacks'() {
+    const result = validateToken(token(), DEFAULT_PROFILES);
+
+    assert.equal(evaluation(result, 'volatility')?.status, 'skipped');
+    assert.equal(evaluation(result, 'honeypot')?.status, 'skipped');
+    assert.equal(result.score, 100);
+    assert.deepEqual(result.blockedBy, []);
+  },
+
+  'warnings alone block below the profile minimum score'() {
+    const result = validateToken(
+      token({
+        priceChange24h: 250, // extreme-gain -20
+        liquidity: 10_000, // thin-liquidity -10
+        contractRenounced: true, // renounced -5
+        contractRisk: { upgradeable: true, buyTax: 6, sellTax: 6, liquidityLockedPercent: 20 } // -15, -10, -15
+      }),
+      DEFAULT_PROFILES
+    );
+
+    assert.deepEqual(result.risks, []);
+    assert.equal(result.warnings.length, 6);
+    assert.equal(result.score, 25);
+    assert.deepEqual(result.blockedBy, ['min-score']);
+    assert.equal(result.isValid, false);
+  },
+
+  'loads profile overrides from a rules file'() {
+    const dir = mkdtempSync(join(tmpdir(), 'validation-rules-'));
+    try {
+      const path = join(dir, 'validation-rules.json');
+      writeFileSync(
+        path,
+        JSON.stringify([
+          {
+            id: 'eth-dex',
+            description: 'Unlisted Ethereum tokens',
+            match: { listed: false, chains: ['ethereum'] },
+            minScore: 60,
+            rules: [
+              {
+                id: 'volatility',
+                metric: 'volatility24h',
+                above: 'maxVolatilityPercent',
+                severity: 'warning',
+                penalty: 50,
+                message: 'Volatile: {value}'
+              }
+            ]
+          },
+          { id: 'default', description: 'Stricter default', minScore: 90, rules: [] }
+        ])
+      );
+
+      const profiles = loadValidationProfiles(path);
+      assert.deepEqual(profiles.map(p => p.id), ['large-cap', 'solana-dex', 'eth-dex', 'default']);
+
+      const eth = token({ volatility24h: 1000, contracts: [{ chain: 'ethereum', address: '0xabc' }] });
+      const result = validateToken(eth, profiles);
+      assert.equal(result.profile, 'eth-dex');
+      assert.deepEqual(result.warnings, ['Volatile: 1000%']);
+      assert.deepEqual(result.blockedBy, ['min-score']);
+
+      writeFileSync(path, JSON.stringify([{ ...profiles[3], rules: [{ id: 'x', metric: 'nope', above: 1 }] }]));
+      assert.throws(() => loadValidationProfiles(path), /unknown metric "nope"/);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  }
+});
@@ -5,6 +5,7 @@ import { logger } from './shared/logger.js';
 import { monitor } from './shared/monitor.js';
 import { config } from './shared/config.js';
 import Database from 'better-sqlite3';
+import { ScoreComponent } from './shared/types.js';
 
 const command = process.argv[2];
 const args = process.argv.slice(3);
@@ -31,6 +32,30 @@ async function main() {
     case 'db:clear':
       clearDatabase();
       break;
+    case 'topics:list':
+      await showTopics();
+      break;
+    case 'topics:migrate':
+      await migrateTopics();
+      break;
+    case 'backtest':
+      await runBacktest();
+      break;
+    case 'run':
+      await triggerRun();
+      break;
+    case 'tokens:block':
+      await setOverride('block');
+      break;
+    case 'tokens:allow':
+      await setOverride('allow');
+      break;
+    case 'tokens:remove-override':
+      await removeOverride();
+      break;
+    case 'tokens:list-overrides':
+      await listOverrides();
+      break;
     case 'help':
       showHelp();
       break;
@@ -99,6 +124,14 @@ function showTokens(limit: number) {
         score: t.score?.toFixed(0)
       }))
     );
+
+    console.log('\n=== WHY THEY RANKED ===');
+    for (const t of tokens) {
+      const breakdown: ScoreComponent[] = t.scoreBreakdown ? JSON.parse(t.scoreBreakdown) : [];
+      const reasons = breakdown.map(c => `${c.points > 0 ? '+' : ''}${c.points} ${c.factor}: ${c.reason}`);
+      console.log(`${t.symbol} (${t.score?.toFixed(0) ?? '-'})`);
+      console.log(reasons.length > 0 ? reasons.map(r => `  ${r}`).join('\n') : '  no breakdown recorded');
+    }
     db.close();
   } catch (error) {
     console.error('Error reading tokens:', (error as Error).message);
@@ -141,6 +174,168 @@ function clearDatabase() {
   }
 }
 
+async function showTopics() {
+  // Loaded lazily so other commands don't connect to the intelligence store
+  const { topicRegistry } = await import('./intelligence/topic-taxonomy.js');
+  await topicRegistry.init();
+
+  console.log('\n=== TOPICS ===');
+  console.table(
+    topicRegistry
+      .getAll()
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .map(t => ({
+        id: t.id,
+        parent: t.parentId || '',
+        aliases: t.aliases.slice(0, 4).join(', ') + (t.aliases.length > 4 ? ', ...' : '')
+      }))
+  );
+}
+
+async function migrateTopics() {
+  const { topicRegistry } = await import('./intelligence/topic-taxonomy.js');
+  const renames = await topicRegistry.migrateStoredTopics();
+
+  console.log(`\n=== TOPIC MIGRATION (${renames.length} rewritten) ===`);
+  for (const r of renames) {
+    console.log(`  "${r.from}" -> ${r.to} (${r.tweets} tweets)`);
+  }
+}
+
+// Value after a --flag; repeatable flags return every value
+function options(name: string): string[] {
+  const values: string[] = [];
+  args.forEach((arg, i) => {
+    if (arg === `--${name}` && args[i + 1] !== undefined) values.push(args[i + 1]);
+  });
+  return values;
+}
+
+async function runBacktest() {
+  // Loaded lazily so other commands don't open market history
+  const { backtester } = await import('./analyzers/backtest.js');
+  const { loadScoringConfig, parseScoringMode } = await import('./analyzers/scorer.js');
+  const { writeFileSync, existsSync } = await import('fs');
+
+  const days = parseInt(options('days')[0]) || 30;
+  const to = Date.now();
+  const configs = options('config');
+  const missing = configs.filter(path => !existsSync(path));
+  if (missing.length > 0) {
+    console.error(`Scoring config not found: ${missing.join(', ')}`);
+    return;
+  }
+  const base = {
+    from: to - days * 24 * 60 * 60 * 1000,
+    to,
+    topN: parseInt(options('top')[0]) || undefined,
+    horizonsDays: options('horizons')[0]?.split(',').map(Number),
+    mode: parseScoringMode(options('mode')[0] ?? process.env.SCORING_MODE)
+  };
+
+  const reports = (configs.length > 0 ? configs : [undefined]).map(path =>
+    backtester.run({ ...base, scoring: loadScoringConfig(path) }, path || 'current')
+  );
+
+  console.log(`\n=== BACKTEST (last ${days} days, top ${reports[0].topN}) ===`);
+  console.table(
+    reports.flatMap(r =>
+      r.horizons.map(h => ({
+        config: r.label,
+        mode: r.mode,
+        horizon: h.horizon,
+        runs: h.periods,
+        'hit rate': `${(h.hitRate * 100).toFixed(0)}%`,
+        'picks avg': `${(h.avgPickReturn * 100).toFixed(2)}%`,
+        'universe avg': `${(h.avgUniverseReturn * 100).toFixed(2)}%`,
+        excess: `${(h.avgExcessReturn * 100).toFixed(2)}%`,
+        turnover: `${(r.turnover * 100).toFixed(0)}%`
+      }))
+    )
+  );
+
+  const out = options('out')[0] || 'backtest-report.json';
+  writeFileSync(out, JSON.stringify(reports, null, 2));
+  console.log(`Full report written to ${out}`);
+}
+
+// The one canonical id an identifier (id, chain:address or symbol) names, or null after explaining why not
+async function identifyToken(input: string | undefined): Promise<string | null> {
+  if (!input || input.startsWith('--')) {
+    console.error('Give a token: canonical id, chain:address or symbol');
+    return null;
+  }
+
+  if (args.includes('--exact')) return input;
+
+  const { tokenRegistry } = await import('./collectors/token-registry.js');
+  const ids = tokenRegistry.identify(input);
+  if (ids.length === 1) return ids[0];
+
+  console.error(
+    ids.length === 0
+      ? `No known token matches "${input}"; use chain:address, or --exact to store the id as given`
+      : `"${input}" is ambiguous, pick one of: ${ids.join(', ')}`
+  );
+  return null;
+}
+
+// Runs happen inside the bot process, so this asks its API to start one
+async function triggerRun() {
+  const { parseScoringMode } = await import('./analyzers/scorer.js');
+  const mode = parseScoringMode(options('mode')[0] ?? process.env.SCORING_MODE);
+  const url = options('url')[0] || `http://localhost:${process.env.API_PORT || '3000'}`;
+
+  const response = await fetch(`${url}/runs`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${process.env.API_ADMIN_TOKEN || ''}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ mode })
+  });
+  const result = (await response.json()) as { success: boolean; error?: string };
+  console.log(result.success ? `Started an analysis run (${mode} scoring)` : `Run not started: ${result.error}`);
+}
+
+async function setOverride(action: 'block' | 'allow') {
+  const { tokenOverrides, parseExpiry } = await import('./shared/token-overrides.js');
+  const tokenId = await identifyToken(args[0]);
+  if (!tokenId) return;
+
+  const override = tokenOverrides.set({
+    tokenId,
+    action,
+    reason: options('reason')[0] || '',
+    author: options('author')[0] || process.env.USER || 'cli',
+    expiresAt: parseExpiry(options('expires')[0])
+  });
+  const expiry = override.expiresAt ? `until ${new Date(override.expiresAt).toISOString()}` : 'permanently';
+  console.log(`${action === 'block' ? 'Blocked' : 'Allowed'} ${tokenId} ${expiry}`);
+}
+
+async function removeOverride() {
+  const { tokenOverrides } = await import('./shared/token-overrides.js');
+  const tokenId = await identifyToken(args[0]);
+  if (!tokenId) return;
+
+  console.log(tokenOverrides.remove(tokenId) ? `Removed override for ${tokenId}` : `No override for ${tokenId}`);
+}
+
+async function listOverrides() {
+  const { tokenOverrides } = await import('./shared/token-overrides.js');
+  const overrides = tokenOverrides.list(args.includes('--all'));
+
+  console.log(`\n=== TOKEN OVERRIDES (${overrides.length}) ===`);
+  console.table(
+    overrides.map(o => ({
+      token: o.tokenId,
+      action: o.action,
+      reason: o.reason,
+      author: o.author,
+      created: new Date(o.createdAt).toISOString().slice(0, 16),
+      expires: o.expiresAt ? new Date(o.expiresAt).toISOString().slice(0, 16) : 'never'
+    }))
+  );
+}
+
 function showHelp() {
   console.log(`
 DeciResearch v5 CLI
@@ -149,9 +344,23 @@ Commands:
   status               Show live dashboard
   metrics              Show detailed metrics
   config               Show current configuration
-  db:tokens [n]        Show last n tokens (default: 10)
+  db:tokens [n]        Show last n tokens with their score breakdown (default: 10)
   db:tweets [n]        Show last n tweets (default: 10)
   db:clear             Clear database (use --confirm to proceed)
+  topics:list          Show the topic taxonomy
+  topics:migrate       Rewrite stored tweet topics to canonical topic ids
+  tokens:block <token> Never analyze or tweet a token (--reason required, --expires 30d, --author,
+                         --exact to skip resolving the id/chain:address/symbol against the registry)
+  tokens:allow <token> Always include a token, skipping impostor/safety filters (same flags)
+  tokens:remove-override <token>
+                       Drop a token's block/allow entry
+  tokens:list-overrides
+                       Show active overrides (--all includes expired)
+  backtest             Replay stored snapshots through the scorer and grade the picks
+                         --days n (30) --top n --horizons 1,7 --mode absolute|relative
+                         --config scoring.json (repeat to compare) --out backtest-report.json
+  run                  Start an analysis run in the running bot now (via its API, needs API_ADMIN_TOKEN)
+                         --mode absolute|relative (default SCORING_MODE) --url http://localhost:3000
   help                 Show this help
 
 Examples:
@@ -159,6 +368,9 @@ Examples:
   npm run cli metrics
   npm run cli db:tokens 20
   npm run cli db:clear --confirm
+  npm run cli tokens:block solana:7xKX... --reason "rug, liquidity pulled" --expires 90d
+  npm run cli backtest --days 60 --config scoring.json --config scoring-alt.json
+  npm run cli run --mode relative
   `);
 }
 
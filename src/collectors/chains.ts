@@ -0,0 +1,61 @@
+// Collector chain names -> canonical chain ids (the ids in intelligence/entity-dictionary.ts)
+const CHAIN_IDS: Record<'coingecko' | 'dexscreener', Record<string, string>> = {
+  coingecko: {
+    ethereum: 'ethereum',
+    solana: 'solana',
+    base: 'base',
+    'arbitrum-one': 'arbitrum',
+    'optimistic-ethereum': 'optimism',
+    'polygon-pos': 'polygon',
+    'binance-smart-chain': 'bnb',
+    avalanche: 'avalanche',
+    sui: 'sui',
+    aptos: 'aptos',
+    'the-open-network': 'ton',
+    tron: 'tron',
+    'near-protocol': 'near',
+    blast: 'blast',
+    zksync: 'zksync',
+    starknet: 'starknet',
+    linea: 'linea',
+    scroll: 'scroll',
+    mantle: 'mantle',
+    sei: 'sei',
+    hyperliquid: 'hyperliquid',
+    berachain: 'berachain'
+  },
+  dexscreener: {
+    ethereum: 'ethereum',
+    solana: 'solana',
+    base: 'base',
+    arbitrum: 'arbitrum',
+    optimism: 'optimism',
+    polygon: 'polygon',
+    bsc: 'bnb',
+    avalanche: 'avalanche',
+    sui: 'sui',
+    aptos: 'aptos',
+    ton: 'ton',
+    tron: 'tron',
+    near: 'near',
+    blast: 'blast',
+    zksync: 'zksync',
+    starknet: 'starknet',
+    linea: 'linea',
+    scroll: 'scroll',
+    mantle: 'mantle',
+    seiv2: 'sei',
+    hyperliquid: 'hyperliquid',
+    berachain: 'berachain'
+  }
+};
+
+// Unknown chains pass through unchanged so they still key contracts consistently
+export function canonicalChain(source: 'coingecko' | 'dexscreener', chain: string): string {
+  return CHAIN_IDS[source][chain] || chain;
+}
+
+// EVM addresses are case-insensitive; base58 (Solana etc.) is not
+export function normalizeAddress(address: string): string {
+  return /^0x[a-fA-F0-9]{40}$/.test(address) ? address.toLowerCase() : address;
+}
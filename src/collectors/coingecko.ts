@@ -1,12 +1,13 @@
-import axios from 'axios';
 import { Token } from '../shared/types.js';
 import { logger } from '../shared/logger.js';
+import { httpClient } from '../shared/http.js';
+import { parseCoinGeckoMarkets } from './schemas.js';
 
 const COINGECKO_API = 'https://api.coingecko.com/api/v3';
 
 export async function fetchTopTokens(): Promise<Token[]> {
   try {
-    const response = await axios.get(`${COINGECKO_API}/coins/markets`, {
+    const data = await httpClient.get(`${COINGECKO_API}/coins/markets`, {
       params: {
         vs_currency: 'usd',
         order: 'volume_desc',
@@ -15,21 +16,22 @@ export async function fetchTopTokens(): Promise<Token[]> {
         sparkline: false,
         price_change_percentage: '24h,7d'
       },
-      headers: {
-        'x-cg-demo-api-key': process.env.COINGECKO_API_KEY || ''
-      }
+      headers: apiHeaders()
     });
 
-    const tokens: Token[] = response.data.map((coin: any) => ({
+    const tokens: Token[] = parseCoinGeckoMarkets(data).rows.map(coin => ({
       id: coin.id,
-      symbol: coin.symbol.toUpperCase(),
+      symbol: coin.symbol,
       name: coin.name,
-      price: coin.current_price,
-      volume24h: coin.total_volume,
-      marketCap: coin.market_cap,
-      priceChange24h: coin.price_change_percentage_24h || 0,
-      priceChange7d: coin.price_change_percentage_7d_in_currency || 0,
-      timestamp: Date.now()
+      price: coin.currentPrice,
+      volume24h: coin.totalVolume,
+      marketCap: coin.marketCap,
+      priceChange24h: coin.priceChange24h || 0,
+      priceChange7d: coin.priceChange7d || 0,
+      volatility24h: intradayVolatility(coin.high24h, coin.low24h),
+      timestamp: Date.now(),
+      coingeckoId: coin.id,
+      sources: ['coingecko']
     }));
 
     logger.info(`Fetched ${tokens.length} tokens from CoinGecko`);
@@ -39,3 +41,178 @@ export async function fetchTopTokens(): Promise<Token[]> {
     return [];
   }
 }
+
+/**
+ * High-to-low swing as a percentage of the low; undefined without a usable range
+ */
+export function intradayVolatility(high?: number | null, low?: number | null): number | undefined {
+  if (!high || !low || low <= 0 || high < low) return undefined;
+  return ((high - low) / low) * 100;
+}
+
+// [timestamp ms, open, high, low, close]
+export type OhlcCandle = [number, number, number, number, number];
+
+/**
+ * OHLC candles over the last `days` (CoinGecko picks the candle size: 30m for 1-2 days)
+ */
+export async function fetchOhlc(coinId: string, days: number = 1): Promise<OhlcCandle[]> {
+  try {
+    const data = await httpClient.get(`${COINGECKO_API}/coins/${coinId}/ohlc`, {
+      params: { vs_currency: 'usd', days },
+      headers: apiHeaders()
+    });
+    return data || [];
+  } catch (error: any) {
+    logger.error(`CoinGecko OHLC fetch failed for ${coinId}`, error.message);
+    return [];
+  }
+}
+
+// CoinGecko sets the OHLC candle size from the requested range
+export function ohlcInterval(days: number): string {
+  if (days <= 2) return '30m';
+  if (days <= 30) return '4h';
+  return '4d';
+}
+
+export interface MarketChart {
+  prices: [number, number][]; // [timestamp ms, usd]
+  marketCaps: [number, number][];
+  volumes: [number, number][];
+}
+
+/**
+ * Price, market cap and volume series over the last `days`
+ * (5-minute points for 1 day, hourly up to 90 days, daily beyond)
+ */
+export async function fetchMarketChart(coinId: string, days: number = 1): Promise<MarketChart> {
+  try {
+    const data = await httpClient.get(`${COINGECKO_API}/coins/${coinId}/market_chart`, {
+      params: { vs_currency: 'usd', days },
+      headers: apiHeaders()
+    });
+    return {
+      prices: data.prices || [],
+      marketCaps: data.market_caps || [],
+      volumes: data.total_volumes || []
+    };
+  } catch (error: any) {
+    logger.error(`CoinGecko market chart fetch failed for ${coinId}`, error.message);
+    return { prices: [], marketCaps: [], volumes: [] };
+  }
+}
+
+export interface CoinListing {
+  id: string;
+  symbol: string;
+  name: string;
+  platforms: Record<string, string>; // CoinGecko platform id -> contract address
+}
+
+/**
+ * Every coin CoinGecko lists, with contract addresses per platform (one large call)
+ */
+export async function fetchCoinList(): Promise<CoinListing[]> {
+  try {
+    const data = await httpClient.get(`${COINGECKO_API}/coins/list`, {
+      params: { include_platform: true },
+      headers: apiHeaders()
+    });
+
+    const listings: CoinListing[] = data.map((coin: any) => ({
+      id: coin.id,
+      symbol: (coin.symbol || '').toUpperCase(),
+      name: coin.name,
+      platforms: coin.platforms || {}
+    }));
+
+    logger.info(`Fetched ${listings.length} coin listings from CoinGecko`);
+    return listings;
+  } catch (error: any) {
+    logger.error('CoinGecko coin list fetch failed', error.message);
+    return [];
+  }
+}
+
+/**
+ * CoinGecko's category labels for a coin ("Meme", "Artificial Intelligence (AI)", ...),
+ * or null if the lookup failed
+ */
+export async function fetchCoinCategories(coinId: string): Promise<string[] | null> {
+  try {
+    const data = await httpClient.get(`${COINGECKO_API}/coins/${coinId}`, {
+      params: {
+        localization: false,
+        tickers: false,
+        market_data: false,
+        community_data: false,
+        developer_data: false
+      },
+      headers: apiHeaders()
+    });
+    return (data.categories || []).filter((c: unknown): c is string => typeof c === 'string');
+  } catch (error: any) {
+    logger.error(`CoinGecko categories fetch failed for ${coinId}`, error.message);
+    return null;
+  }
+}
+
+function apiHeaders() {
+  return { 'x-cg-demo-api-key': process.env.COINGECKO_API_KEY || '' };
+}
+
+/**
+ * Resolve a ticker ("PEPE") to a CoinGecko coin id.
+ * Tickers are not unique; the exact-symbol match with the best market cap rank wins.
+ */
+export async function resolveCoinId(symbol: string): Promise<string | null> {
+  try {
+    const data = await httpClient.get(`${COINGECKO_API}/search`, {
+      params: { query: symbol },
+      headers: apiHeaders()
+    });
+
+    const matches = (data.coins || [])
+      .filter((coin: any) => coin.symbol?.toUpperCase() === symbol.toUpperCase())
+      .sort(
+        (a: any, b: any) =>
+          (a.market_cap_rank ?? Number.MAX_SAFE_INTEGER) - (b.market_cap_rank ?? Number.MAX_SAFE_INTEGER)
+      );
+
+    return matches.length > 0 ? matches[0].id : null;
+  } catch (error: any) {
+    logger.error(`CoinGecko search failed for ${symbol}`, error.message);
+    return null;
+  }
+}
+
+/**
+ * USD price closest to `timestamp` (ms), from a ±2h market_chart/range window
+ */
+export async function fetchPriceAt(coinId: string, timestamp: number): Promise<number | null> {
+  const window = 2 * 60 * 60 * 1000;
+
+  try {
+    const data = await httpClient.get(`${COINGECKO_API}/coins/${coinId}/market_chart/range`, {
+      params: {
+        vs_currency: 'usd',
+        from: Math.floor((timestamp - window) / 1000),
+        to: Math.floor((timestamp + window) / 1000)
+      },
+      headers: apiHeaders()
+    });
+
+    const prices: [number, number][] = data.prices || [];
+    if (prices.length === 0) return null;
+
+    let closest = prices[0];
+    for (const point of prices) {
+      if (Math.abs(point[0] - timestamp) < Math.abs(closest[0] - timestamp)) closest = point;
+    }
+    return closest[1];
+  } catch (error: any) {
+    logger.error(`CoinGecko price lookup failed for ${coinId}`, error.message);
+    return null;
+  }
+}
@@ -0,0 +1,234 @@
+import { readFileSync } from 'fs';
+import { ContractRisk, Token, TokenContract } from '../shared/types.js';
+import { logger } from '../shared/logger.js';
+import { httpClient } from '../shared/http.js';
+
+/**
+ * Red flags for one contract: mint/freeze authority, proxy upgradability,
+ * ownership, taxes and sell simulation. null when the chain isn't supported
+ * or the lookup failed.
+ */
+export interface ContractChecker {
+  check(contract: TokenContract): Promise<ContractRisk | null>;
+}
+
+/**
+ * One source of contract-risk signals for a token. Analyzers run in order and
+ * each fills only what the ones before it left unmeasured.
+ */
+export interface ContractRiskAnalyzer {
+  name: string;
+  analyze(token: Token): Promise<ContractRisk | null>;
+}
+
+const GOPLUS_API = 'https://api.gopluslabs.io/api/v1/token_security';
+
+// Canonical chain id -> EVM chain id, for GoPlus
+const EVM_CHAIN_IDS: Record<string, number> = {
+  ethereum: 1,
+  optimism: 10,
+  bnb: 56,
+  polygon: 137,
+  base: 8453,
+  arbitrum: 42161,
+  avalanche: 43114,
+  linea: 59144,
+  blast: 81457
+};
+
+const BURN_ADDRESS = /^0x(0{40}|0{36}dead)$/i;
+
+// Below this many swaps in 24h the buy/sell split says nothing
+const MIN_SWAPS = 50;
+
+// Contracts rarely change; don't re-query every analysis run
+const CHECK_TTL_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * On-chain contract checks: GoPlus token security for EVM chains (taxes,
+ * sell simulation, proxy, mint, owner) and the mint account via RPC for
+ * Solana (mint and freeze authority)
+ */
+export class OnchainContractChecker implements ContractChecker {
+  constructor(private solanaRpcUrl: string = process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com') {}
+
+  async check(contract: TokenContract): Promise<ContractRisk | null> {
+    try {
+      if (contract.chain === 'solana') return await this.solana(contract.address);
+      if (EVM_CHAIN_IDS[contract.chain]) return await this.evm(EVM_CHAIN_IDS[contract.chain], contract.address);
+      return null;
+    } catch (error: any) {
+      logger.warn(`Contract check failed for ${contract.chain}:${contract.address}`, error.message);
+      return null;
+    }
+  }
+
+  private async evm(chainId: number, address: string): Promise<ContractRisk | null> {
+    const data = await httpClient.get(`${GOPLUS_API}/${chainId}`, { params: { contract_addresses: address } });
+    const info = data.result?.[address.toLowerCase()];
+    if (!info) return null;
+
+    // GoPlus flags are "0"/"1" strings, taxes fractions as strings; missing means unknown
+    const flag = (value: any) => (value === '1' ? true : value === '0' ? false : undefined);
+    const tax = (value: any) => (value === undefined || value === '' ? undefined : Number(value) * 100);
+    const owner: string | undefined = info.owner_address;
+
+    return {
+      mintable: flag(info.is_mintable),
+      freezable: flag(info.transfer_pausable),
+      upgradeable: flag(info.is_proxy),
+      renounced: owner === undefined ? undefined : owner === '' || BURN_ADDRESS.test(owner),
+      honeypot: flag(info.is_honeypot),
+      buyTax: tax(info.buy_tax),
+      sellTax: tax(info.sell_tax)
+    };
+  }
+
+  private async solana(mint: string): Promise<ContractRisk | null> {
+    const data = await httpClient.post(this.solanaRpcUrl, {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'getAccountInfo',
+      params: [mint, { encoding: 'jsonParsed' }]
+    });
+    if (data.error) throw new Error(data.error.message);
+
+    const info = data.result?.value?.data?.parsed?.info;
+    if (!info) return null;
+    return {
+      mintable: info.mintAuthority != null,
+      freezable: info.freezeAuthority != null,
+      renounced: info.mintAuthority == null && info.freezeAuthority == null
+    };
+  }
+}
+
+/**
+ * Canned contract checks keyed by `${chain}:${address}`, for tests and offline runs
+ */
+export class FixtureContractChecker implements ContractChecker {
+  constructor(private fixture: Record<string, ContractRisk>) {}
+
+  static fromFile(path: string): FixtureContractChecker {
+    return new FixtureContractChecker(JSON.parse(readFileSync(path, 'utf8')));
+  }
+
+  async check(contract: TokenContract): Promise<ContractRisk | null> {
+    return this.fixture[`${contract.chain}:${contract.address}`] ?? null;
+  }
+}
+
+function createContractChecker(): ContractChecker {
+  if (process.env.CONTRACT_RISK_SOURCE === 'fixture') {
+    const path = process.env.CONTRACT_RISK_FIXTURE || 'fixtures/contract-risk.json';
+    logger.info(`Using contract risk fixture ${path}`);
+    return FixtureContractChecker.fromFile(path);
+  }
+  return new OnchainContractChecker();
+}
+
+export const contractChecker: ContractChecker = createContractChecker();
+
+/**
+ * Signals from the DEXScreener pair itself: a pool where nearly every swap is
+ * a buy is what a honeypot looks like from outside, and lock info when shown
+ */
+export class DexPairRiskAnalyzer implements ContractRiskAnalyzer {
+  name = 'dex-pair';
+
+  async analyze(token: Token): Promise<ContractRisk | null> {
+    const swaps = (token.buys24h ?? 0) + (token.sells24h ?? 0);
+    const risk: ContractRisk = {
+      sellShare: token.sells24h !== undefined && swaps >= MIN_SWAPS ? token.sells24h / swaps : undefined,
+      liquidityLockedPercent: token.liquidityLockedPercent
+    };
+    return risk.sellShare === undefined && risk.liquidityLockedPercent === undefined ? null : risk;
+  }
+}
+
+/**
+ * Worst case across a token's contracts: a flag set on any chain counts
+ */
+export function worstCase(risks: ContractRisk[]): ContractRisk {
+  const any = (key: 'mintable' | 'freezable' | 'upgradeable' | 'honeypot') =>
+    risks.some(r => r[key]) ? true : risks.some(r => r[key] === false) ? false : undefined;
+  const highest = (key: 'buyTax' | 'sellTax') => {
+    const values = risks.map(r => r[key]).filter((v): v is number => v !== undefined);
+    return values.length > 0 ? Math.max(...values) : undefined;
+  };
+  const renounced = risks.map(r => r.renounced).filter((v): v is boolean => v !== undefined);
+
+  return {
+    mintable: any('mintable'),
+    freezable: any('freezable'),
+    upgradeable: any('upgradeable'),
+    honeypot: any('honeypot'),
+    renounced: renounced.length > 0 ? renounced.every(Boolean) : undefined,
+    buyTax: highest('buyTax'),
+    sellTax: highest('sellTax')
+  };
+}
+
+/**
+ * Contract checks for each of a DEX-traded token's contracts, cached per
+ * contract. Tokens listed on CoinGecko are skipped: USDC is mintable by design.
+ */
+export class OnchainRiskAnalyzer implements ContractRiskAnalyzer {
+  name = 'onchain';
+  private cache = new Map<string, { risk: ContractRisk | null; fetchedAt: number }>();
+
+  constructor(private checker: ContractChecker = contractChecker) {}
+
+  async analyze(token: Token): Promise<ContractRisk | null> {
+    if (!token.sources?.includes('dexscreener') || token.coingeckoId) return null;
+
+    const risks: ContractRisk[] = [];
+    for (const contract of token.contracts || []) {
+      const key = `${contract.chain}:${contract.address}`;
+      let cached = this.cache.get(key);
+      if (!cached || Date.now() - cached.fetchedAt > CHECK_TTL_MS) {
+        cached = { risk: await this.checker.check(contract), fetchedAt: Date.now() };
+        this.cache.set(key, cached);
+      }
+      if (cached.risk) risks.push(cached.risk);
+    }
+
+    return risks.length > 0 ? worstCase(risks) : null;
+  }
+}
+
+/**
+ * ContractRiskAssessor - sets `contractRisk` (and `contractRenounced`) on each
+ * token from its analyzers, for validateToken's contract rules
+ */
+export class ContractRiskAssessor {
+  constructor(private analyzers: ContractRiskAnalyzer[] = [new DexPairRiskAnalyzer(), new OnchainRiskAnalyzer()]) {}
+
+  async assess(tokens: Token[]): Promise<Token[]> {
+    let assessed = 0;
+
+    for (const token of tokens) {
+      const risk: ContractRisk = { ...token.contractRisk };
+      for (const analyzer of this.analyzers) {
+        try {
+          const found = await analyzer.analyze(token);
+          for (const [key, value] of Object.entries(found || {}) as [keyof ContractRisk, any][]) {
+            if (value !== undefined && risk[key] === undefined) (risk as any)[key] = value;
+          }
+        } catch (error: any) {
+          logger.warn(`Contract risk analyzer ${analyzer.name} failed for ${token.symbol}`, error.message);
+        }
+      }
+
+      if (Object.keys(risk).length === 0) continue;
+      token.contractRisk = risk;
+      if (risk.renounced !== undefined) token.contractRenounced = risk.renounced;
+      assessed++;
+    }
+
+    logger.info(`Assessed contract risk for ${assessed}/${tokens.length} tokens`);
+    return tokens;
+  }
+}
+
+export const contractRiskAssessor = new ContractRiskAssessor();
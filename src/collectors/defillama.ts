@@ -0,0 +1,136 @@
+import { Token } from '../shared/types.js';
+import { logger } from '../shared/logger.js';
+import { httpClient } from '../shared/http.js';
+import { parseDefiLlamaProtocols, parseDefiLlamaChains, parseDefiLlamaFees } from './schemas.js';
+
+const DEFILLAMA_API = 'https://api.llama.fi';
+
+export interface Fundamentals {
+  tvl: number;
+  tvlChange7d?: number; // percent
+  fees24h?: number;
+  fees7d?: number;
+}
+
+/**
+ * Protocol TVL (+7d change) and fee revenue keyed by CoinGecko id.
+ * Versioned protocols sharing a token (Aave V2/V3) are summed.
+ */
+export async function fetchProtocolFundamentals(): Promise<Map<string, Fundamentals>> {
+  const byCoin = new Map<string, Fundamentals & { tvlWeekAgo: number }>();
+  const coinByLlamaId = new Map<string, string>();
+
+  try {
+    const protocols = parseDefiLlamaProtocols(await httpClient.get(`${DEFILLAMA_API}/protocols`)).rows;
+
+    for (const protocol of protocols) {
+      if (!protocol.geckoId) continue;
+      coinByLlamaId.set(protocol.id, protocol.geckoId);
+      if (protocol.parentProtocol) coinByLlamaId.set(protocol.parentProtocol, protocol.geckoId);
+
+      const entry = byCoin.get(protocol.geckoId) || { tvl: 0, tvlWeekAgo: 0 };
+      entry.tvl += protocol.tvl;
+      entry.tvlWeekAgo +=
+        protocol.change7d !== undefined ? protocol.tvl / (1 + protocol.change7d / 100) : protocol.tvl;
+      byCoin.set(protocol.geckoId, entry);
+    }
+  } catch (error: any) {
+    logger.error('DefiLlama protocols fetch failed', error.message);
+    return new Map();
+  }
+
+  try {
+    const data = await httpClient.get(`${DEFILLAMA_API}/overview/fees`, {
+      params: { excludeTotalDataChart: true, excludeTotalDataChartBreakdown: true }
+    });
+    for (const fees of parseDefiLlamaFees(data).rows) {
+      const coinId = fees.defillamaId && coinByLlamaId.get(fees.defillamaId);
+      const entry = coinId && byCoin.get(coinId);
+      if (!entry) continue;
+      if (fees.total24h !== undefined) entry.fees24h = (entry.fees24h || 0) + fees.total24h;
+      if (fees.total7d !== undefined) entry.fees7d = (entry.fees7d || 0) + fees.total7d;
+    }
+  } catch (error: any) {
+    logger.warn('DefiLlama fees fetch failed, continuing with TVL only', error.message);
+  }
+
+  const fundamentals = new Map<string, Fundamentals>();
+  for (const [coinId, { tvlWeekAgo, ...entry }] of byCoin) {
+    if (entry.tvl <= 0) continue;
+    fundamentals.set(coinId, {
+      ...entry,
+      tvlChange7d: tvlWeekAgo > 0 ? ((entry.tvl - tvlWeekAgo) / tvlWeekAgo) * 100 : undefined
+    });
+  }
+
+  logger.info(`Fetched DefiLlama fundamentals for ${fundamentals.size} tokens`);
+  return fundamentals;
+}
+
+/**
+ * Chains with a native token, keyed by CoinGecko id (ethereum, solana, ...)
+ */
+export async function fetchChains(): Promise<Map<string, { name: string; tvl: number }>> {
+  try {
+    const chains = parseDefiLlamaChains(await httpClient.get(`${DEFILLAMA_API}/v2/chains`)).rows;
+    return new Map(chains.filter(c => c.geckoId).map(c => [c.geckoId!, { name: c.name, tvl: c.tvl }]));
+  } catch (error: any) {
+    logger.error('DefiLlama chains fetch failed', error.message);
+    return new Map();
+  }
+}
+
+/**
+ * Percent change in a chain's TVL over the last 7 days of its daily series
+ */
+export async function fetchChainTvlChange7d(chain: string): Promise<number | undefined> {
+  try {
+    const data = await httpClient.get(`${DEFILLAMA_API}/v2/historicalChainTvl/${encodeURIComponent(chain)}`);
+    const series: { date: number; tvl: number }[] = Array.isArray(data) ? data : [];
+    if (series.length < 2) return undefined;
+
+    const latest = series[series.length - 1];
+    const target = latest.date - 7 * 86400; // dates are unix seconds
+    const weekAgo = series.reduce((best, point) =>
+      Math.abs(point.date - target) < Math.abs(best.date - target) ? point : best
+    );
+    if (!weekAgo.tvl || weekAgo === latest) return undefined;
+    return ((latest.tvl - weekAgo.tvl) / weekAgo.tvl) * 100;
+  } catch (error: any) {
+    logger.error(`DefiLlama chain TVL history failed for ${chain}`, error.message);
+    return undefined;
+  }
+}
+
+/**
+ * Attach TVL and fees to tokens with a CoinGecko id. A chain's native token
+ * gets the chain's TVL; a protocol token gets its protocol's.
+ */
+export async function enrichWithDefiLlama(tokens: Token[]): Promise<Token[]> {
+  const listed = tokens.filter(t => t.coingeckoId);
+  if (listed.length === 0) return tokens;
+
+  const protocols = await fetchProtocolFundamentals();
+  const chains = await fetchChains();
+  let enriched = 0;
+
+  for (const token of listed) {
+    const chain = chains.get(token.coingeckoId!);
+    const protocol = protocols.get(token.coingeckoId!);
+
+    if (chain && chain.tvl > 0) {
+      token.tvl = chain.tvl;
+      token.tvlChange7d = await fetchChainTvlChange7d(chain.name);
+      enriched++;
+    } else if (protocol) {
+      token.tvl = protocol.tvl;
+      token.tvlChange7d = protocol.tvlChange7d;
+      token.fees24h = protocol.fees24h;
+      token.fees7d = protocol.fees7d;
+      enriched++;
+    }
+  }
+
+  logger.info(`Added DefiLlama TVL to ${enriched}/${listed.length} listed tokens`);
+  return tokens;
+}
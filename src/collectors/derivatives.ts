@@ -0,0 +1,97 @@
+import { Token } from '../shared/types.js';
+import { logger } from '../shared/logger.js';
+import { httpClient } from '../shared/http.js';
+import {
+  parseBybitTickers,
+  parseBybitFundingHistory,
+  parseBybitOpenInterest,
+  PerpTicker
+} from './schemas.js';
+
+// Public market data, no key needed
+const BYBIT_API = 'https://api.bybit.com/v5/market';
+
+// Low-priced tokens trade as 1000PEPEUSDT etc.
+const CONTRACT_MULTIPLIERS = ['', '1000', '10000', '1000000'];
+
+/**
+ * Every USDT linear perpetual on Bybit with its current funding rate and open interest
+ */
+export async function fetchPerpTickers(): Promise<PerpTicker[]> {
+  try {
+    const data = await httpClient.get(`${BYBIT_API}/tickers`, { params: { category: 'linear' } });
+    const tickers = parseBybitTickers(data).rows.filter(t => t.symbol.endsWith('USDT'));
+    logger.info(`Fetched ${tickers.length} perpetual tickers from Bybit`);
+    return tickers;
+  } catch (error: any) {
+    logger.error('Bybit tickers fetch failed', error.message);
+    return [];
+  }
+}
+
+/**
+ * The last settled funding rate, to compare against the current one
+ */
+export async function fetchPreviousFundingRate(contract: string): Promise<number | undefined> {
+  try {
+    const data = await httpClient.get(`${BYBIT_API}/funding/history`, {
+      params: { category: 'linear', symbol: contract, limit: 1 }
+    });
+    return parseBybitFundingHistory(data).rows[0]?.value;
+  } catch (error: any) {
+    logger.warn(`Bybit funding history failed for ${contract}`, error.message);
+    return undefined;
+  }
+}
+
+/**
+ * Percent change in open interest (contracts) over the last 24 hourly buckets
+ */
+export async function fetchOpenInterestChange24h(contract: string): Promise<number | undefined> {
+  try {
+    const data = await httpClient.get(`${BYBIT_API}/open-interest`, {
+      params: { category: 'linear', symbol: contract, intervalTime: '1h', limit: 25 }
+    });
+    const points = parseBybitOpenInterest(data).rows;
+    if (points.length < 25 || points[24].value <= 0) return undefined;
+    return ((points[0].value - points[24].value) / points[24].value) * 100;
+  } catch (error: any) {
+    logger.warn(`Bybit open interest history failed for ${contract}`, error.message);
+    return undefined;
+  }
+}
+
+/**
+ * The perp for a symbol, across contract multipliers; the deepest market wins
+ */
+export function perpFor(symbol: string, tickers: Map<string, PerpTicker>): PerpTicker | undefined {
+  return CONTRACT_MULTIPLIERS.map(m => tickers.get(`${m}${symbol}USDT`))
+    .filter((t): t is PerpTicker => !!t)
+    .sort((a, b) => b.openInterestValue - a.openInterestValue)[0];
+}
+
+/**
+ * Attach funding and open interest to listed tokens that have a perp.
+ * Unlisted tokens are skipped: a ticker match alone could be a different asset.
+ */
+export async function enrichWithDerivatives(tokens: Token[]): Promise<Token[]> {
+  const listed = tokens.filter(t => t.coingeckoId);
+  if (listed.length === 0) return tokens;
+
+  const tickers = new Map((await fetchPerpTickers()).map(t => [t.symbol, t]));
+  let enriched = 0;
+
+  for (const token of listed) {
+    const perp = perpFor(token.symbol, tickers);
+    if (!perp) continue;
+
+    token.fundingRate = perp.fundingRate;
+    token.openInterest = perp.openInterestValue;
+    token.previousFundingRate = await fetchPreviousFundingRate(perp.symbol);
+    token.openInterestChange24h = await fetchOpenInterestChange24h(perp.symbol);
+    enriched++;
+  }
+
+  logger.info(`Added perp funding/open interest to ${enriched}/${listed.length} listed tokens`);
+  return tokens;
+}
@@ -1,24 +1,33 @@
-import axios from 'axios';
 import { Token } from '../shared/types.js';
 import { logger } from '../shared/logger.js';
+import { httpClient } from '../shared/http.js';
+import { canonicalChain, normalizeAddress } from './chains.js';
+import { parseDexScreenerPairs } from './schemas.js';
 
 const DEXSCREENER_API = 'https://api.dexscreener.com/latest/dex';
 
 export async function fetchTrendingTokens(): Promise<Token[]> {
   try {
-    const response = await axios.get(`${DEXSCREENER_API}/tokens/trending`);
+    const data = await httpClient.get(`${DEXSCREENER_API}/tokens/trending`);
 
-    const tokens: Token[] = response.data.map((pair: any) => ({
-      id: pair.baseToken.address,
-      symbol: pair.baseToken.symbol,
-      name: pair.baseToken.name,
-      price: parseFloat(pair.priceUsd || '0'),
-      volume24h: parseFloat(pair.volume?.h24 || '0'),
-      marketCap: parseFloat(pair.marketCap || '0'),
-      priceChange24h: parseFloat(pair.priceChange?.h24 || '0'),
+    const tokens: Token[] = parseDexScreenerPairs(data).rows.map((pair): Token => ({
+      id: pair.address,
+      symbol: pair.symbol.toUpperCase(),
+      name: pair.name,
+      price: pair.priceUsd,
+      volume24h: pair.volume24h,
+      marketCap: pair.marketCap,
+      priceChange24h: pair.priceChange24h || 0,
       priceChange7d: 0,
-      timestamp: Date.now()
-    })).filter((t: Token) => t.volume24h > 100000); // Filter low volume
+      liquidity: pair.liquidityUsd,
+      liquidityLockedPercent: pair.liquidityLockedPercent,
+      buys24h: pair.buys24h,
+      sells24h: pair.sells24h,
+      age: pair.pairCreatedAt ? Date.now() - pair.pairCreatedAt : undefined, // age of the pair, not the token
+      timestamp: Date.now(),
+      contracts: [{ chain: canonicalChain('dexscreener', pair.chainId), address: normalizeAddress(pair.address) }],
+      sources: ['dexscreener']
+    })).filter(t => t.volume24h > 100000); // Filter low volume
 
     logger.info(`Fetched ${tokens.length} trending tokens from DEXScreener`);
     return tokens;
@@ -0,0 +1,81 @@
+import { Token } from '../shared/types.js';
+import { logger } from '../shared/logger.js';
+import { fetchOhlc, intradayVolatility, OhlcCandle } from './coingecko.js';
+import { holderSource, HolderSource } from './holders.js';
+
+// Holder distributions move slowly; don't re-query every analysis run
+const HOLDER_TTL_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Volatility over the last 24h of candles (max high vs min low)
+ */
+export function candleVolatility(candles: OhlcCandle[], now: number = Date.now()): number | undefined {
+  const recent = candles.filter(([timestamp]) => timestamp >= now - 24 * 60 * 60 * 1000);
+  if (recent.length === 0) return undefined;
+  return intradayVolatility(Math.max(...recent.map(c => c[2])), Math.min(...recent.map(c => c[3])));
+}
+
+/**
+ * TokenEnricher - fills the safety fields validateToken relies on that the
+ * collectors can't: volatility for tokens whose listing lacked a 24h range,
+ * and top-holder concentration per contract
+ */
+export class TokenEnricher {
+  private holderCache = new Map<string, { percent: number | null; fetchedAt: number }>();
+
+  constructor(
+    private holders: HolderSource = holderSource,
+    private ohlc: (coinId: string, days: number) => Promise<OhlcCandle[]> = fetchOhlc,
+    private requestDelayMs: number = 2500 // keeps OHLC lookups under the demo API's 30 calls/minute
+  ) {}
+
+  async enrich(tokens: Token[]): Promise<Token[]> {
+    let volatility = 0;
+    let holders = 0;
+
+    for (const token of tokens) {
+      try {
+        if (token.volatility24h === undefined && token.coingeckoId) {
+          const candles = await this.ohlc(token.coingeckoId, 1).finally(
+            () => new Promise(resolve => setTimeout(resolve, this.requestDelayMs))
+          );
+          token.volatility24h = candleVolatility(candles);
+          if (token.volatility24h !== undefined) {
+            token.provenance = { ...token.provenance, volatility24h: 'coingecko' };
+            volatility++;
+          }
+        }
+
+        // Only DEX-traded tokens: for large caps the top wallet is a bridge or exchange
+        if (token.topHolderPercent === undefined && token.sources?.includes('dexscreener')) {
+          token.topHolderPercent = await this.topHolderPercent(token);
+          if (token.topHolderPercent !== undefined) holders++;
+        }
+      } catch (error: any) {
+        logger.warn(`Failed to enrich ${token.symbol}`, error.message);
+      }
+    }
+
+    logger.info(`Enriched ${tokens.length} tokens (volatility: ${volatility}, holders: ${holders})`);
+    return tokens;
+  }
+
+  // Highest concentration across the token's contracts; undefined if none could be measured
+  private async topHolderPercent(token: Token): Promise<number | undefined> {
+    let highest: number | undefined;
+
+    for (const contract of token.contracts || []) {
+      const key = `${contract.chain}:${contract.address}`;
+      let cached = this.holderCache.get(key);
+      if (!cached || Date.now() - cached.fetchedAt > HOLDER_TTL_MS) {
+        cached = { percent: await this.holders.topHolderPercent(contract), fetchedAt: Date.now() };
+        this.holderCache.set(key, cached);
+      }
+      if (cached.percent !== null) highest = Math.max(highest ?? 0, cached.percent);
+    }
+
+    return highest;
+  }
+}
+
+export const tokenEnricher = new TokenEnricher();
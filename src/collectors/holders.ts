@@ -0,0 +1,84 @@
+import { readFileSync } from 'fs';
+import { TokenContract } from '../shared/types.js';
+import { logger } from '../shared/logger.js';
+import { httpClient } from '../shared/http.js';
+
+/**
+ * Share of a token's supply held by its largest wallet, in percent.
+ * null when the chain isn't supported or the lookup failed.
+ * Note the largest wallet is often an LP pool or exchange, not an insider.
+ */
+export interface HolderSource {
+  topHolderPercent(contract: TokenContract): Promise<number | null>;
+}
+
+const ETHPLORER_API = 'https://api.ethplorer.io';
+
+/**
+ * On-chain holder data: Ethplorer for Ethereum, token accounts via RPC for Solana
+ */
+export class OnchainHolderSource implements HolderSource {
+  constructor(
+    private ethplorerKey: string = process.env.ETHPLORER_API_KEY || 'freekey',
+    private solanaRpcUrl: string = process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com'
+  ) {}
+
+  async topHolderPercent(contract: TokenContract): Promise<number | null> {
+    try {
+      if (contract.chain === 'ethereum') return await this.ethereum(contract.address);
+      if (contract.chain === 'solana') return await this.solana(contract.address);
+      return null;
+    } catch (error: any) {
+      logger.warn(`Holder lookup failed for ${contract.chain}:${contract.address}`, error.message);
+      return null;
+    }
+  }
+
+  private async ethereum(address: string): Promise<number | null> {
+    const data = await httpClient.get(`${ETHPLORER_API}/getTopTokenHolders/${address}`, {
+      params: { apiKey: this.ethplorerKey, limit: 1 }
+    });
+    const share = data.holders?.[0]?.share;
+    return typeof share === 'number' ? share : null;
+  }
+
+  private async solana(mint: string): Promise<number | null> {
+    const rpc = async (method: string) => {
+      const data = await httpClient.post(this.solanaRpcUrl, { jsonrpc: '2.0', id: 1, method, params: [mint] });
+      if (data.error) throw new Error(data.error.message);
+      return data.result.value;
+    };
+
+    const largest = await rpc('getTokenLargestAccounts');
+    const supply = await rpc('getTokenSupply');
+    const top = largest?.[0]?.uiAmount;
+    if (typeof top !== 'number' || !supply?.uiAmount) return null;
+    return (100 * top) / supply.uiAmount;
+  }
+}
+
+/**
+ * Canned holder data keyed by `${chain}:${address}`, for tests and offline runs
+ */
+export class FixtureHolderSource implements HolderSource {
+  constructor(private fixture: Record<string, number>) {}
+
+  static fromFile(path: string): FixtureHolderSource {
+    return new FixtureHolderSource(JSON.parse(readFileSync(path, 'utf8')));
+  }
+
+  async topHolderPercent(contract: TokenContract): Promise<number | null> {
+    return this.fixture[`${contract.chain}:${contract.address}`] ?? null;
+  }
+}
+
+function createHolderSource(): HolderSource {
+  if (process.env.HOLDER_SOURCE === 'fixture') {
+    const path = process.env.HOLDER_FIXTURE || 'fixtures/holders.json';
+    logger.info(`Using holder fixture ${path}`);
+    return FixtureHolderSource.fromFile(path);
+  }
+  return new OnchainHolderSource();
+}
+
+export const holderSource: HolderSource = createHolderSource();
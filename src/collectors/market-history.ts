@@ -0,0 +1,445 @@
+import Database from 'better-sqlite3';
+import { Token } from '../shared/types.js';
+import { logger } from '../shared/logger.js';
+import { fetchOhlc, fetchMarketChart, ohlcInterval, OhlcCandle, MarketChart } from './coingecko.js';
+
+export interface TokenSnapshot {
+  tokenId: string; // canonical asset id (collectors/token-registry.ts)
+  symbol: string;
+  coingeckoId?: string;
+  source: 'run' | 'market_chart'; // an analysis run, or a backfilled CoinGecko series point
+  price: number;
+  volume24h?: number;
+  marketCap?: number;
+  priceChange24h?: number;
+  priceChange7d?: number;
+  liquidity?: number;
+  score?: number;
+  timestamp: number;
+}
+
+export interface Candle {
+  tokenId: string;
+  interval: string; // '30m' | '4h' | '4d' from CoinGecko, '1d' once downsampled
+  timestamp: number; // candle close
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export interface RetentionPolicy {
+  rawDays: number; // keep every point this recent
+  hourlyDays: number; // then one snapshot per hour; older still, one per day and daily candles
+  maxDays: number; // delete anything older (0 = keep forever)
+}
+
+export const DEFAULT_RETENTION: RetentionPolicy = {
+  rawDays: parseInt(process.env.MARKET_HISTORY_RAW_DAYS || '7'),
+  hourlyDays: parseInt(process.env.MARKET_HISTORY_HOURLY_DAYS || '90'),
+  maxDays: parseInt(process.env.MARKET_HISTORY_MAX_DAYS || '730')
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Snapshots further than this from the requested time don't count as "the price at T"
+const PRICE_TOLERANCE_MS = 2 * HOUR_MS;
+
+export interface MarketDataSource {
+  ohlc(coinId: string, days: number): Promise<OhlcCandle[]>;
+  marketChart(coinId: string, days: number): Promise<MarketChart>;
+}
+
+const coingeckoMarketData: MarketDataSource = {
+  ohlc: fetchOhlc,
+  marketChart: fetchMarketChart
+};
+
+/**
+ * MarketHistory - append-only price history per canonical asset.
+ * Every analysis run adds a snapshot; tracked CoinGecko assets are backfilled
+ * with OHLC candles and market_chart series. Retention thins old data rather
+ * than overwriting it, so backtests and call grading can ask "price at T".
+ */
+export class MarketHistory {
+  private db: Database.Database;
+
+  constructor(
+    dbPath: string = 'deciresearch.db',
+    private source: MarketDataSource = coingeckoMarketData,
+    private requestDelayMs: number = 2500 // keeps a backfill under the demo API's 30 calls/minute
+  ) {
+    this.db = new Database(dbPath);
+    this.createTables();
+  }
+
+  private createTables() {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS token_snapshots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        token_id TEXT NOT NULL,
+        symbol TEXT,
+        coingecko_id TEXT,
+        source TEXT NOT NULL,
+        price REAL NOT NULL,
+        volume24h REAL,
+        market_cap REAL,
+        price_change24h REAL,
+        price_change7d REAL,
+        liquidity REAL,
+        score REAL,
+        timestamp INTEGER NOT NULL
+      );
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_token_snapshots_point
+        ON token_snapshots(token_id, source, timestamp);
+      CREATE INDEX IF NOT EXISTS idx_token_snapshots_time ON token_snapshots(timestamp);
+      CREATE TABLE IF NOT EXISTS token_ohlc (
+        token_id TEXT NOT NULL,
+        interval TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        open REAL NOT NULL,
+        high REAL NOT NULL,
+        low REAL NOT NULL,
+        close REAL NOT NULL,
+        PRIMARY KEY (token_id, interval, timestamp)
+      );
+      CREATE INDEX IF NOT EXISTS idx_token_ohlc_time ON token_ohlc(token_id, timestamp);
+    `);
+  }
+
+  /**
+   * Append one snapshot per token. Returns rows written.
+   */
+  recordSnapshots(tokens: Token[], timestamp: number = Date.now()): number {
+    return this.insertSnapshots(
+      tokens
+        .filter(t => t.price > 0)
+        .map(t => ({
+          tokenId: t.id,
+          symbol: t.symbol,
+          coingeckoId: t.coingeckoId,
+          source: 'run' as const,
+          price: t.price,
+          volume24h: t.volume24h,
+          marketCap: t.marketCap,
+          priceChange24h: t.priceChange24h,
+          priceChange7d: t.priceChange7d,
+          liquidity: t.liquidity,
+          score: t.score,
+          timestamp
+        }))
+    );
+  }
+
+  recordCandles(tokenId: string, interval: string, candles: OhlcCandle[]): number {
+    const stmt = this.db.prepare(`
+      INSERT OR IGNORE INTO token_ohlc (token_id, interval, timestamp, open, high, low, close)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    let written = 0;
+    this.db.transaction(() => {
+      for (const [timestamp, open, high, low, close] of candles) {
+        written += stmt.run(tokenId, interval, timestamp, open, high, low, close).changes;
+      }
+    })();
+    return written;
+  }
+
+  /**
+   * Fetch OHLC candles and the market_chart series for one CoinGecko asset
+   */
+  async backfill(coinId: string, days: number = 1): Promise<{ snapshots: number; candles: number }> {
+    const candles = this.recordCandles(coinId, ohlcInterval(days), await this.source.ohlc(coinId, days));
+
+    const chart = await this.source.marketChart(coinId, days);
+    const symbol = this.symbolFor(coinId);
+    const marketCaps = new Map(chart.marketCaps);
+    const volumes = new Map(chart.volumes);
+    const snapshots = this.insertSnapshots(
+      chart.prices.map(([timestamp, price]) => ({
+        tokenId: coinId,
+        symbol,
+        coingeckoId: coinId,
+        source: 'market_chart' as const,
+        price,
+        marketCap: marketCaps.get(timestamp),
+        volume24h: volumes.get(timestamp),
+        timestamp
+      }))
+    );
+
+    return { snapshots, candles };
+  }
+
+  /**
+   * Backfill every CoinGecko asset an analysis run saw in the last `days`.
+   * Returns assets backfilled.
+   */
+  async backfillTracked(days: number = 1, limit: number = 50): Promise<number> {
+    const rows = this.db
+      .prepare(`
+        SELECT coingecko_id FROM token_snapshots
+        WHERE source = 'run' AND coingecko_id IS NOT NULL AND timestamp >= ?
+        GROUP BY coingecko_id ORDER BY MAX(score) DESC LIMIT ?
+      `)
+      .all(Date.now() - days * DAY_MS, limit) as { coingecko_id: string }[];
+
+    let backfilled = 0;
+    for (const { coingecko_id } of rows) {
+      try {
+        const { snapshots, candles } = await this.backfill(coingecko_id, days);
+        if (snapshots + candles > 0) backfilled++;
+      } catch (error: any) {
+        logger.error(`Market history backfill failed for ${coingecko_id}`, error.message);
+      }
+      await new Promise(resolve => setTimeout(resolve, this.requestDelayMs));
+    }
+
+    logger.info(`Backfilled market history for ${backfilled}/${rows.length} tracked assets`);
+    return backfilled;
+  }
+
+  getSnapshots(tokenId: string, from: number, to: number = Date.now()): TokenSnapshot[] {
+    const rows = this.db
+      .prepare(`
+        SELECT * FROM token_snapshots WHERE token_id = ? AND timestamp BETWEEN ? AND ?
+        ORDER BY timestamp ASC
+      `)
+      .all(tokenId, from, to) as any[];
+    return rows.map(rowToSnapshot);
+  }
+
+  /**
+   * One snapshot per token for a run scheduled at `timestamp`: the universe it
+   * would have seen. A run records its snapshots only after collecting and
+   * scoring, minutes after the cron fires, so run snapshots are matched in the
+   * `windowMs` after the slot; backfilled points in the `windowMs` before it.
+   * Run snapshots win since they carry DEX tokens and the 24h/7d changes
+   * scoring needs; otherwise the point nearest the slot.
+   */
+  universeAt(timestamp: number, windowMs: number = PRICE_TOLERANCE_MS): TokenSnapshot[] {
+    const rows = this.db
+      .prepare(`
+        SELECT * FROM (
+          SELECT *, ROW_NUMBER() OVER (
+            PARTITION BY token_id ORDER BY source = 'run' DESC, ABS(timestamp - ?) ASC
+          ) AS rn
+          FROM token_snapshots
+          WHERE (source = 'run' AND timestamp BETWEEN ? AND ?)
+             OR (source != 'run' AND timestamp BETWEEN ? AND ?)
+        ) WHERE rn = 1
+      `)
+      .all(timestamp, timestamp, timestamp + windowMs, timestamp - windowMs, timestamp) as any[];
+    return rows.map(rowToSnapshot);
+  }
+
+  /**
+   * Each token's snapshots over the last `days`, for scoring against its own history
+   */
+  trailingSnapshots(tokenIds: string[], days: number, now: number = Date.now()): Map<string, TokenSnapshot[]> {
+    const history = new Map<string, TokenSnapshot[]>();
+    for (const tokenId of tokenIds) {
+      const snapshots = this.getSnapshots(tokenId, now - days * DAY_MS, now);
+      if (snapshots.length > 0) history.set(tokenId, snapshots);
+    }
+    return history;
+  }
+
+  getCandles(tokenId: string, from: number, to: number = Date.now()): Candle[] {
+    const rows = this.db
+      .prepare(`
+        SELECT * FROM token_ohlc WHERE token_id = ? AND timestamp BETWEEN ? AND ?
+        ORDER BY timestamp ASC
+      `)
+      .all(tokenId, from, to) as any[];
+    return rows.map(row => ({
+      tokenId: row.token_id,
+      interval: row.interval,
+      timestamp: row.timestamp,
+      open: row.open,
+      high: row.high,
+      low: row.low,
+      close: row.close
+    }));
+  }
+
+  /**
+   * Price closest to `timestamp` from snapshots and candle closes,
+   * or null if nothing was recorded within the tolerance
+   */
+  priceAt(tokenId: string, timestamp: number, toleranceMs: number = PRICE_TOLERANCE_MS): number | null {
+    const points = [
+      ...this.getSnapshots(tokenId, timestamp - toleranceMs, timestamp + toleranceMs).map(s => ({
+        timestamp: s.timestamp,
+        price: s.price
+      })),
+      ...this.getCandles(tokenId, timestamp - toleranceMs, timestamp + toleranceMs).map(c => ({
+        timestamp: c.timestamp,
+        price: c.close
+      }))
+    ];
+    if (points.length === 0) return null;
+
+    let closest = points[0];
+    for (const point of points) {
+      if (Math.abs(point.timestamp - timestamp) < Math.abs(closest.timestamp - timestamp)) closest = point;
+    }
+    return closest.price;
+  }
+
+  /**
+   * Simple return between two times (0.1 = +10%), or null without prices at both ends
+   */
+  returnOver(tokenId: string, from: number, to: number, toleranceMs: number = PRICE_TOLERANCE_MS): number | null {
+    const start = this.priceAt(tokenId, from, toleranceMs);
+    const end = this.priceAt(tokenId, to, toleranceMs);
+    if (!start || end === null) return null;
+    return (end - start) / start;
+  }
+
+  /**
+   * Thin out old history: hourly snapshots past `rawDays`, daily snapshots and
+   * daily candles past `hourlyDays`, nothing past `maxDays`.
+   * Returns rows removed (intraday candles count, the daily candles replacing them don't).
+   */
+  applyRetention(policy: RetentionPolicy = DEFAULT_RETENTION, now: number = Date.now()): number {
+    const rawCutoff = now - policy.rawDays * DAY_MS;
+    const hourlyCutoff = now - policy.hourlyDays * DAY_MS;
+    let removed = 0;
+
+    this.db.transaction(() => {
+      if (policy.maxDays > 0) {
+        const cutoff = now - policy.maxDays * DAY_MS;
+        removed += this.db.prepare('DELETE FROM token_snapshots WHERE timestamp < ?').run(cutoff).changes;
+        removed += this.db.prepare('DELETE FROM token_ohlc WHERE timestamp < ?').run(cutoff).changes;
+      }
+
+      removed += this.downsampleSnapshots(hourlyCutoff, rawCutoff, HOUR_MS);
+      removed += this.downsampleSnapshots(0, hourlyCutoff, DAY_MS);
+      removed += this.rollUpDailyCandles(hourlyCutoff);
+    })();
+
+    if (removed > 0) logger.info(`Market history retention removed ${removed} rows`);
+    return removed;
+  }
+
+  // Keep the latest snapshot per asset, source and bucket within [from, to)
+  private downsampleSnapshots(from: number, to: number, bucketMs: number): number {
+    if (to <= from) return 0;
+    return this.db
+      .prepare(`
+        DELETE FROM token_snapshots WHERE timestamp >= ? AND timestamp < ? AND id NOT IN (
+          SELECT id FROM (
+            SELECT id, ROW_NUMBER() OVER (
+              PARTITION BY token_id, source, CAST(timestamp / ? AS INTEGER) ORDER BY timestamp DESC, id DESC
+            ) AS rank
+            FROM token_snapshots WHERE timestamp >= ? AND timestamp < ?
+          ) WHERE rank = 1
+        )
+      `)
+      .run(from, to, bucketMs, from, to).changes;
+  }
+
+  // Merge intraday candles before `cutoff` into one '1d' candle per asset and UTC day
+  private rollUpDailyCandles(cutoff: number): number {
+    const rows = this.db
+      .prepare(`
+        SELECT * FROM token_ohlc WHERE interval != '1d' AND timestamp < ?
+        ORDER BY token_id, timestamp ASC
+      `)
+      .all(cutoff) as any[];
+    if (rows.length === 0) return 0;
+
+    const days = new Map<string, Candle>();
+    for (const row of rows) {
+      const dayEnd = (Math.floor(row.timestamp / DAY_MS) + 1) * DAY_MS;
+      const key = `${row.token_id}:${dayEnd}`;
+      const day = days.get(key);
+      if (!day) {
+        days.set(key, {
+          tokenId: row.token_id,
+          interval: '1d',
+          timestamp: dayEnd,
+          open: row.open,
+          high: row.high,
+          low: row.low,
+          close: row.close
+        });
+      } else {
+        day.high = Math.max(day.high, row.high);
+        day.low = Math.min(day.low, row.low);
+        day.close = row.close;
+      }
+    }
+
+    const upsert = this.db.prepare(`
+      INSERT INTO token_ohlc (token_id, interval, timestamp, open, high, low, close)
+      VALUES (?, '1d', ?, ?, ?, ?, ?)
+      ON CONFLICT(token_id, interval, timestamp) DO UPDATE SET
+        high = MAX(high, excluded.high), low = MIN(low, excluded.low), close = excluded.close
+    `);
+    for (const day of days.values()) {
+      upsert.run(day.tokenId, day.timestamp, day.open, day.high, day.low, day.close);
+    }
+
+    return this.db
+      .prepare("DELETE FROM token_ohlc WHERE interval != '1d' AND timestamp < ?")
+      .run(cutoff).changes;
+  }
+
+  private insertSnapshots(snapshots: TokenSnapshot[]): number {
+    const stmt = this.db.prepare(`
+      INSERT OR IGNORE INTO token_snapshots (
+        token_id, symbol, coingecko_id, source, price, volume24h, market_cap,
+        price_change24h, price_change7d, liquidity, score, timestamp
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    let written = 0;
+    this.db.transaction(() => {
+      for (const s of snapshots) {
+        written += stmt.run(
+          s.tokenId,
+          s.symbol,
+          s.coingeckoId ?? null,
+          s.source,
+          s.price,
+          s.volume24h ?? null,
+          s.marketCap ?? null,
+          s.priceChange24h ?? null,
+          s.priceChange7d ?? null,
+          s.liquidity ?? null,
+          s.score ?? null,
+          s.timestamp
+        ).changes;
+      }
+    })();
+    return written;
+  }
+
+  private symbolFor(tokenId: string): string {
+    const row = this.db
+      .prepare('SELECT symbol FROM token_snapshots WHERE token_id = ? AND symbol IS NOT NULL LIMIT 1')
+      .get(tokenId) as { symbol: string } | undefined;
+    return row?.symbol || tokenId.toUpperCase();
+  }
+}
+
+function rowToSnapshot(row: any): TokenSnapshot {
+  return {
+    tokenId: row.token_id,
+    symbol: row.symbol,
+    coingeckoId: row.coingecko_id || undefined,
+    source: row.source,
+    price: row.price,
+    volume24h: row.volume24h ?? undefined,
+    marketCap: row.market_cap ?? undefined,
+    priceChange24h: row.price_change24h ?? undefined,
+    priceChange7d: row.price_change7d ?? undefined,
+    liquidity: row.liquidity ?? undefined,
+    score: row.score ?? undefined,
+    timestamp: row.timestamp
+  };
+}
+
+export const marketHistory = new MarketHistory();
@@ -0,0 +1,238 @@
+import { logger } from '../shared/logger.js';
+
+/**
+ * Hand-rolled payload validation for collector APIs. A malformed row is
+ * reported and dropped rather than turned into a token with a NaN price.
+ */
+
+export interface RowIssue {
+  index: number;
+  id?: string;
+  problems: string[];
+}
+
+export interface ParseResult<T> {
+  rows: T[];
+  issues: RowIssue[];
+}
+
+export class MalformedPayloadError extends Error {
+  constructor(source: string, expected: string) {
+    super(`${source}: expected ${expected}`);
+    this.name = 'MalformedPayloadError';
+  }
+}
+
+function at(row: any, path: string): any {
+  return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), row);
+}
+
+// Reads fields off one row, collecting a problem per bad field
+class RowReader {
+  problems: string[] = [];
+
+  constructor(private row: any) {}
+
+  string(path: string): string {
+    const value = at(this.row, path);
+    if (typeof value !== 'string' || value.trim() === '') {
+      this.problems.push(`${path}: expected non-empty string, got ${JSON.stringify(value)}`);
+      return '';
+    }
+    return value;
+  }
+
+  optionalString(path: string): string | undefined {
+    const value = at(this.row, path);
+    if (value === null || value === undefined || value === '') return undefined;
+    if (typeof value !== 'string') {
+      this.problems.push(`${path}: expected string, got ${JSON.stringify(value)}`);
+      return undefined;
+    }
+    return value;
+  }
+
+  // APIs send numbers and numeric strings; null/absent is fine unless required
+  number(path: string, { required = false, positive = false } = {}): number | undefined {
+    const value = at(this.row, path);
+    if (value === null || value === undefined || value === '') {
+      if (required) this.problems.push(`${path}: missing`);
+      return undefined;
+    }
+
+    const parsed = typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : NaN;
+    if (!Number.isFinite(parsed) || (positive && parsed <= 0)) {
+      this.problems.push(`${path}: expected ${positive ? 'positive ' : ''}number, got ${JSON.stringify(value)}`);
+      return undefined;
+    }
+    return parsed;
+  }
+}
+
+function parseRows<T>(
+  source: string,
+  payload: unknown,
+  idPath: string,
+  read: (reader: RowReader) => T
+): ParseResult<T> {
+  if (!Array.isArray(payload)) throw new MalformedPayloadError(source, 'an array of rows');
+
+  const rows: T[] = [];
+  const issues: RowIssue[] = [];
+
+  payload.forEach((row, index) => {
+    const reader = new RowReader(row);
+    const value = read(reader);
+    if (reader.problems.length === 0) rows.push(value);
+    else issues.push({ index, id: at(row, idPath), problems: reader.problems });
+  });
+
+  if (issues.length > 0) {
+    logger.warn(`${source}: skipped ${issues.length}/${payload.length} malformed row(s)`, issues.slice(0, 5));
+  }
+  return { rows, issues };
+}
+
+export interface CoinGeckoMarket {
+  id: string;
+  symbol: string;
+  name: string;
+  currentPrice: number;
+  totalVolume: number;
+  marketCap: number; // 0 when CoinGecko has no circulating supply
+  priceChange24h?: number;
+  priceChange7d?: number;
+  high24h?: number;
+  low24h?: number;
+}
+
+export function parseCoinGeckoMarkets(payload: unknown): ParseResult<CoinGeckoMarket> {
+  return parseRows('CoinGecko /coins/markets', payload, 'id', r => ({
+    id: r.string('id'),
+    symbol: r.string('symbol').toUpperCase(),
+    name: r.string('name'),
+    currentPrice: r.number('current_price', { required: true, positive: true })!,
+    totalVolume: r.number('total_volume', { required: true })!,
+    marketCap: r.number('market_cap') ?? 0,
+    priceChange24h: r.number('price_change_percentage_24h'),
+    priceChange7d: r.number('price_change_percentage_7d_in_currency'),
+    high24h: r.number('high_24h'),
+    low24h: r.number('low_24h')
+  }));
+}
+
+export interface DexPair {
+  chainId: string;
+  address: string; // base token contract
+  symbol: string;
+  name: string;
+  priceUsd: number;
+  volume24h: number;
+  marketCap: number; // 0 when DEXScreener doesn't know it
+  priceChange24h?: number;
+  liquidityUsd?: number;
+  liquidityLockedPercent?: number; // only some pairs carry lock info
+  buys24h?: number;
+  sells24h?: number;
+  pairCreatedAt?: number;
+}
+
+export function parseDexScreenerPairs(payload: unknown): ParseResult<DexPair> {
+  return parseRows('DEXScreener pairs', payload, 'baseToken.address', r => ({
+    chainId: r.string('chainId'),
+    address: r.string('baseToken.address'),
+    symbol: r.string('baseToken.symbol'),
+    name: r.string('baseToken.name'),
+    priceUsd: r.number('priceUsd', { required: true, positive: true })!,
+    volume24h: r.number('volume.h24', { required: true })!,
+    marketCap: r.number('marketCap') ?? 0,
+    priceChange24h: r.number('priceChange.h24'),
+    liquidityUsd: r.number('liquidity.usd'),
+    liquidityLockedPercent: r.number('liquidity.lockedPercent'),
+    buys24h: r.number('txns.h24.buys'),
+    sells24h: r.number('txns.h24.sells'),
+    pairCreatedAt: r.number('pairCreatedAt')
+  }));
+}
+
+export interface LlamaProtocol {
+  id: string;
+  name: string;
+  geckoId?: string;
+  parentProtocol?: string; // 'parent#aave' for versioned protocols
+  tvl: number;
+  change7d?: number; // percent
+}
+
+export function parseDefiLlamaProtocols(payload: unknown): ParseResult<LlamaProtocol> {
+  return parseRows('DefiLlama /protocols', payload, 'name', r => ({
+    id: r.string('id'),
+    name: r.string('name'),
+    geckoId: r.optionalString('gecko_id'),
+    parentProtocol: r.optionalString('parentProtocol'),
+    tvl: r.number('tvl') ?? 0,
+    change7d: r.number('change_7d')
+  }));
+}
+
+export interface LlamaChain {
+  name: string;
+  geckoId?: string;
+  tvl: number;
+}
+
+export function parseDefiLlamaChains(payload: unknown): ParseResult<LlamaChain> {
+  return parseRows('DefiLlama /v2/chains', payload, 'name', r => ({
+    name: r.string('name'),
+    geckoId: r.optionalString('gecko_id'),
+    tvl: r.number('tvl') ?? 0
+  }));
+}
+
+export interface LlamaFees {
+  defillamaId?: string; // protocol (or parent protocol) id from /protocols
+  total24h?: number;
+  total7d?: number;
+}
+
+export function parseDefiLlamaFees(payload: unknown): ParseResult<LlamaFees> {
+  return parseRows('DefiLlama /overview/fees', (payload as any)?.protocols, 'name', r => ({
+    defillamaId: r.optionalString('defillamaId'),
+    total24h: r.number('total24h'),
+    total7d: r.number('total7d')
+  }));
+}
+
+export interface PerpTicker {
+  symbol: string; // exchange contract symbol, e.g. BTCUSDT, 1000PEPEUSDT
+  fundingRate: number;
+  openInterestValue: number; // USD
+}
+
+export function parseBybitTickers(payload: unknown): ParseResult<PerpTicker> {
+  return parseRows('Bybit /v5/market/tickers', (payload as any)?.result?.list, 'symbol', r => ({
+    symbol: r.string('symbol'),
+    fundingRate: r.number('fundingRate', { required: true })!,
+    openInterestValue: r.number('openInterestValue', { required: true })!
+  }));
+}
+
+export interface PerpHistoryPoint {
+  value: number; // funding rate, or open interest in contracts
+  timestamp: number;
+}
+
+// Bybit history endpoints list newest first
+export function parseBybitFundingHistory(payload: unknown): ParseResult<PerpHistoryPoint> {
+  return parseRows('Bybit /v5/market/funding/history', (payload as any)?.result?.list, 'symbol', r => ({
+    value: r.number('fundingRate', { required: true })!,
+    timestamp: r.number('fundingRateTimestamp', { required: true })!
+  }));
+}
+
+export function parseBybitOpenInterest(payload: unknown): ParseResult<PerpHistoryPoint> {
+  return parseRows('Bybit /v5/market/open-interest', (payload as any)?.result?.list, 'timestamp', r => ({
+    value: r.number('openInterest', { required: true })!,
+    timestamp: r.number('timestamp', { required: true })!
+  }));
+}
@@ -0,0 +1,267 @@
+import Database from 'better-sqlite3';
+import { existsSync, readFileSync } from 'fs';
+import { Token } from '../shared/types.js';
+import { logger } from '../shared/logger.js';
+import { llm } from '../shared/llm.js';
+import { defineSchema } from '../shared/llm-schemas.js';
+import { fetchCoinCategories } from './coingecko.js';
+
+export interface Sector {
+  id: string; // matches the topic taxonomy id where one exists (intelligence/topic-taxonomy.ts)
+  label: string;
+}
+
+export const SECTORS: Sector[] = [
+  { id: 'layer-1', label: 'Layer 1s' },
+  { id: 'layer-2', label: 'Layer 2s' },
+  { id: 'defi', label: 'DeFi' },
+  { id: 'dex', label: 'DEXs' },
+  { id: 'lending', label: 'Lending' },
+  { id: 'perps', label: 'Perpetuals' },
+  { id: 'liquid-staking', label: 'Liquid staking' },
+  { id: 'restaking', label: 'Restaking' },
+  { id: 'stablecoins', label: 'Stablecoins' },
+  { id: 'rwa', label: 'Real-world assets' },
+  { id: 'ai', label: 'AI' },
+  { id: 'ai-agents', label: 'AI agents' },
+  { id: 'depin', label: 'DePIN' },
+  { id: 'memecoins', label: 'Memecoins' },
+  { id: 'gaming', label: 'Gaming' },
+  { id: 'nft', label: 'NFTs' },
+  { id: 'exchange', label: 'Exchange tokens' },
+  { id: 'privacy', label: 'Privacy' },
+  { id: 'oracles', label: 'Oracles' },
+  { id: 'infrastructure', label: 'Infrastructure' },
+  { id: 'other', label: 'Other' }
+];
+
+// CoinGecko category label -> sector, most specific first (an AI-agent memecoin is 'ai-agents', not 'memecoins')
+const CATEGORY_RULES: [RegExp, string][] = [
+  [/ai agent/i, 'ai-agents'],
+  [/artificial intelligence|\(ai\)/i, 'ai'],
+  [/meme/i, 'memecoins'],
+  [/stablecoin/i, 'stablecoins'],
+  [/real world assets|\brwa\b/i, 'rwa'],
+  [/depin/i, 'depin'],
+  [/restaking/i, 'restaking'],
+  [/liquid staking/i, 'liquid-staking'],
+  [/perpetual|derivatives/i, 'perps'],
+  [/lending|borrowing/i, 'lending'],
+  [/decentralized exchange|\bdex\b|automated market maker/i, 'dex'],
+  [/gaming|gamefi|play to earn|metaverse/i, 'gaming'],
+  [/\bnft/i, 'nft'],
+  [/exchange-based|centralized exchange/i, 'exchange'],
+  [/privacy/i, 'privacy'],
+  [/oracle/i, 'oracles'],
+  [/layer 2|\(l2\)|rollup/i, 'layer-2'],
+  [/layer 1|\(l1\)|smart contract platform/i, 'layer-1'],
+  [/decentralized finance|defi/i, 'defi'],
+  [/infrastructure|interoperability|storage/i, 'infrastructure']
+];
+
+// Curated calls that CoinGecko's category order gets wrong; SECTOR_OVERRIDES (JSON) adds to these
+const DEFAULT_OVERRIDES: Record<string, string> = {
+  bitcoin: 'layer-1',
+  ethereum: 'layer-1',
+  'wrapped-bitcoin': 'layer-1',
+  hyperliquid: 'perps',
+  chainlink: 'oracles'
+};
+
+// Categories change rarely; re-check CoinGecko/LLM calls after this
+const RECLASSIFY_MS = 30 * 24 * 60 * 60 * 1000;
+
+export type SectorSource = 'coingecko' | 'llm'; // how a cached sector was decided
+
+/**
+ * Asks a model to pick one sector id for a token CoinGecko can't place.
+ * Resolves to null when the model is unavailable or answers off-list.
+ */
+export type SectorLabeler = (token: Token, sectors: Sector[]) => Promise<string | null>;
+
+const askModel: SectorLabeler = async (token, sectors) => {
+  if (!llm.available('classification')) return null;
+
+  const prompt = `Which sector does the crypto token ${token.symbol} (${token.name}) belong to?
+Choose exactly one sector id. Use "other" if you don't know the token.`;
+
+  const schema = defineSchema<{ sector: string }>('token_sector', 'The sector id a token belongs to', {
+    type: 'object',
+    properties: { sector: { type: 'string', enum: sectors.map(s => s.id) } },
+    required: ['sector']
+  });
+  const { sector } = await llm.completeJSON('classification', prompt, schema, { maxTokens: 30 });
+  return sector;
+};
+
+export function sectorLabel(id?: string): string {
+  return SECTORS.find(s => s.id === id)?.label || 'Other';
+}
+
+/**
+ * The first rule matching any of the coin's categories, or null
+ */
+export function sectorFromCategories(categories: string[]): string | null {
+  for (const [pattern, sector] of CATEGORY_RULES) {
+    if (categories.some(category => pattern.test(category))) return sector;
+  }
+  return null;
+}
+
+function loadOverrides(path: string): Record<string, string> {
+  if (!existsSync(path)) return DEFAULT_OVERRIDES;
+  const overrides = { ...DEFAULT_OVERRIDES, ...JSON.parse(readFileSync(path, 'utf8')) };
+  for (const [tokenId, sector] of Object.entries(overrides)) {
+    if (!SECTORS.some(s => s.id === sector)) {
+      throw new Error(`Sector override for "${tokenId}" names unknown sector "${sector}"`);
+    }
+  }
+  logger.info(`Loaded sector overrides from ${path}`);
+  return overrides;
+}
+
+/**
+ * SectorClassifier - token -> sector. Curated overrides win; otherwise the
+ * coin's CoinGecko categories; tokens CoinGecko can't place (DEX-only or
+ * uncategorised) are asked of an LLM. CoinGecko and LLM answers are cached
+ * per token, so each token costs one lookup a month.
+ */
+export class SectorClassifier {
+  private db: Database.Database;
+  private overrides: Record<string, string>;
+
+  constructor(
+    dbPath: string = 'deciresearch.db',
+    private categories: (coinId: string) => Promise<string[] | null> = fetchCoinCategories,
+    private labeler: SectorLabeler = askModel,
+    overridesPath: string = process.env.SECTOR_OVERRIDES || 'sector-overrides.json',
+    private maxLookups: number = 20, // per run, so a cold cache doesn't stall a run on CoinGecko's rate limit
+    private requestDelayMs: number = 2500
+  ) {
+    this.db = new Database(dbPath);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS token_sectors (
+        token_id TEXT PRIMARY KEY,
+        sector TEXT NOT NULL,
+        source TEXT NOT NULL,
+        categories TEXT,
+        updated_at INTEGER NOT NULL
+      );
+    `);
+    this.overrides = loadOverrides(overridesPath);
+  }
+
+  /**
+   * Set `sector` on each token. Tokens left unclassified this run
+   * (lookup budget spent, lookups failed) are retried next run.
+   */
+  async classify(tokens: Token[]): Promise<Token[]> {
+    let lookups = 0;
+    const counts: Record<string, number> = {};
+
+    for (const token of tokens) {
+      const cached = this.cached(token);
+      if (cached) {
+        token.sector = cached;
+        continue;
+      }
+      if (lookups >= this.maxLookups) continue;
+
+      lookups++;
+      try {
+        const result = await this.lookup(token);
+        if (!result) continue;
+        token.sector = result.sector;
+        counts[result.source] = (counts[result.source] || 0) + 1;
+        this.db
+          .prepare(`
+            INSERT OR REPLACE INTO token_sectors (token_id, sector, source, categories, updated_at)
+            VALUES (?, ?, ?, ?, ?)
+          `)
+          .run(token.id, result.sector, result.source, JSON.stringify(result.categories), Date.now());
+      } catch (error: any) {
+        logger.warn(`Sector lookup failed for ${token.symbol}`, error.message);
+      }
+    }
+
+    const classified = tokens.filter(t => t.sector).length;
+    logger.info(`Classified ${classified}/${tokens.length} tokens into sectors (new: ${JSON.stringify(counts)})`);
+    return tokens;
+  }
+
+  private cached(token: Token): string | null {
+    const override = this.overrides[token.id] || (token.coingeckoId && this.overrides[token.coingeckoId]);
+    if (override) return override;
+
+    const row = this.db
+      .prepare('SELECT sector, updated_at FROM token_sectors WHERE token_id = ?')
+      .get(token.id) as { sector: string; updated_at: number } | undefined;
+    return row && Date.now() - row.updated_at < RECLASSIFY_MS ? row.sector : null;
+  }
+
+  private async lookup(
+    token: Token
+  ): Promise<{ sector: string; source: SectorSource; categories: string[] } | null> {
+    let categories: string[] = [];
+    if (token.coingeckoId) {
+      const fetched = await this.categories(token.coingeckoId);
+      await new Promise(resolve => setTimeout(resolve, this.requestDelayMs));
+      if (fetched === null) return null; // CoinGecko failed; try again next run rather than ask the LLM
+      categories = fetched;
+      const sector = sectorFromCategories(categories);
+      if (sector) return { sector, source: 'coingecko', categories };
+    }
+
+    const answer = await this.labeler(token, SECTORS);
+    if (!answer || !SECTORS.some(s => s.id === answer)) return null;
+    return { sector: answer, source: 'llm', categories };
+  }
+}
+
+export interface SectorStats {
+  sector: string;
+  label: string;
+  tokens: number;
+  return24h: number; // market-cap weighted (equal weighted if no caps are known), percent
+  volume24h: number;
+  volumeShare: number; // of this run's total volume, 0-1
+  leaders: string[]; // best 24h performers, up to 3 symbols
+}
+
+/**
+ * Per-sector return and volume share across the tokens of one run, best return first
+ */
+export function sectorAggregates(tokens: Token[]): SectorStats[] {
+  const totalVolume = tokens.reduce((sum, t) => sum + (t.volume24h || 0), 0);
+  const bySector = new Map<string, Token[]>();
+  for (const token of tokens) {
+    const sector = token.sector || 'other';
+    bySector.set(sector, [...(bySector.get(sector) || []), token]);
+  }
+
+  return Array.from(bySector.entries())
+    .map(([sector, members]) => {
+      const caps = members.reduce((sum, t) => sum + (t.marketCap || 0), 0);
+      const return24h =
+        caps > 0
+          ? members.reduce((sum, t) => sum + t.priceChange24h * (t.marketCap || 0), 0) / caps
+          : members.reduce((sum, t) => sum + t.priceChange24h, 0) / members.length;
+      const volume24h = members.reduce((sum, t) => sum + (t.volume24h || 0), 0);
+
+      return {
+        sector,
+        label: sectorLabel(sector),
+        tokens: members.length,
+        return24h,
+        volume24h,
+        volumeShare: totalVolume > 0 ? volume24h / totalVolume : 0,
+        leaders: [...members]
+          .sort((a, b) => b.priceChange24h - a.priceChange24h)
+          .slice(0, 3)
+          .map(t => t.symbol)
+      };
+    })
+    .sort((a, b) => b.return24h - a.return24h);
+}
+
+export const sectorClassifier = new SectorClassifier();
@@ -0,0 +1,311 @@
+import Database from 'better-sqlite3';
+import { Token, TokenContract, TokenSource } from '../shared/types.js';
+import { logger } from '../shared/logger.js';
+import { fetchCoinList, CoinListing } from './coingecko.js';
+import { canonicalChain, normalizeAddress } from './chains.js';
+
+export interface TokenAsset {
+  id: string; // CoinGecko id, or `${chain}:${address}` for tokens only DEXScreener knows
+  symbol: string;
+  name: string;
+  coingeckoId?: string;
+  contracts: TokenContract[];
+}
+
+// Metrics a merged token can take from either source, preferred source first
+const METRIC_SOURCES: Partial<Record<keyof Token, TokenSource[]>> = {
+  price: ['coingecko', 'dexscreener'],
+  volume24h: ['coingecko', 'dexscreener'],
+  marketCap: ['coingecko', 'dexscreener'],
+  priceChange24h: ['coingecko', 'dexscreener'],
+  priceChange7d: ['coingecko', 'dexscreener'],
+  volatility24h: ['coingecko', 'dexscreener'],
+  liquidity: ['dexscreener', 'coingecko'],
+  age: ['dexscreener', 'coingecko'],
+  buys24h: ['dexscreener'],
+  sells24h: ['dexscreener'],
+  liquidityLockedPercent: ['dexscreener']
+};
+
+// Other assets listed per flagged token; enough to review, not the whole clone army
+const MAX_COLLISIONS = 5;
+
+const REFRESH_MS = 24 * 60 * 60 * 1000;
+
+function contractKey(contract: TokenContract): string {
+  return `${contract.chain}:${contract.address}`;
+}
+
+function sourceOf(token: Token): TokenSource {
+  return token.sources?.[0] || (token.coingeckoId ? 'coingecko' : 'dexscreener');
+}
+
+/**
+ * Merge the same asset seen by several sources. Each metric comes from its
+ * preferred source when that source has a real value; collectors fill unknowns
+ * with 0, so a 0 only wins when no source has anything better.
+ */
+export function mergeTokens(id: string, tokens: Token[]): Token {
+  const bySource = new Map<TokenSource, Token>();
+  for (const token of tokens) {
+    if (!bySource.has(sourceOf(token))) bySource.set(sourceOf(token), token);
+  }
+
+  const primary = bySource.get('coingecko') || tokens[0];
+  const merged: Token = {
+    ...primary,
+    id,
+    timestamp: Math.max(...tokens.map(t => t.timestamp)),
+    coingeckoId: tokens.find(t => t.coingeckoId)?.coingeckoId,
+    sources: Array.from(bySource.keys()),
+    provenance: {}
+  };
+
+  const contracts = new Map<string, TokenContract>();
+  for (const token of tokens) {
+    for (const contract of token.contracts || []) contracts.set(contractKey(contract), contract);
+  }
+  if (contracts.size > 0) merged.contracts = Array.from(contracts.values());
+
+  for (const [metric, order] of Object.entries(METRIC_SOURCES) as [keyof Token, TokenSource[]][]) {
+    const candidates = order
+      .map(source => ({ source, value: bySource.get(source)?.[metric] }))
+      .filter(c => typeof c.value === 'number' && Number.isFinite(c.value));
+    const pick = candidates.find(c => c.value !== 0) || candidates[0];
+    if (!pick) continue;
+
+    (merged as any)[metric] = pick.value;
+    merged.provenance![metric] = pick.source;
+  }
+
+  return merged;
+}
+
+/**
+ * Tokens that trade under someone else's ticker: flagged with a symbol collision
+ * and either unknown to CoinGecko, or a smaller listed asset than another token
+ * in the same batch with that symbol. These never get posted about.
+ */
+export function findImpostors(tokens: Token[]): Set<string> {
+  const leaders = new Map<string, Token>();
+  for (const token of tokens) {
+    if (!token.coingeckoId) continue;
+    const leader = leaders.get(token.symbol);
+    if (!leader || token.marketCap > leader.marketCap) leaders.set(token.symbol, token);
+  }
+
+  const impostors = new Set<string>();
+  for (const token of tokens) {
+    if (!token.symbolCollision?.length) continue;
+    if (!token.coingeckoId || leaders.get(token.symbol)?.id !== token.id) impostors.add(token.id);
+  }
+  return impostors;
+}
+
+/**
+ * TokenRegistry - one canonical asset per token across collectors.
+ * CoinGecko ids and per-chain contract addresses resolve to the same asset;
+ * symbols never do on their own, since anyone can deploy another $PEPE.
+ */
+export class TokenRegistry {
+  private db: Database.Database;
+
+  constructor(
+    dbPath: string = 'deciresearch.db',
+    private listings: () => Promise<CoinListing[]> = fetchCoinList,
+    private refreshMs: number = REFRESH_MS
+  ) {
+    this.db = new Database(dbPath);
+    this.createTables();
+  }
+
+  private createTables() {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS token_assets (
+        id TEXT PRIMARY KEY,
+        symbol TEXT NOT NULL,
+        name TEXT,
+        coingecko_id TEXT,
+        updated_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS token_contracts (
+        chain TEXT NOT NULL,
+        address TEXT NOT NULL,
+        asset_id TEXT NOT NULL,
+        PRIMARY KEY (chain, address)
+      );
+      CREATE INDEX IF NOT EXISTS idx_token_assets_symbol ON token_assets(symbol);
+      CREATE INDEX IF NOT EXISTS idx_token_contracts_asset ON token_contracts(asset_id);
+    `);
+  }
+
+  /**
+   * Reload CoinGecko's coin list (ids, symbols, contracts per platform) when the
+   * stored copy is older than the refresh interval. Returns listings loaded.
+   */
+  async refresh(force: boolean = false): Promise<number> {
+    const row = this.db
+      .prepare('SELECT MAX(updated_at) AS updated FROM token_assets WHERE coingecko_id IS NOT NULL')
+      .get() as { updated: number | null };
+    if (!force && row.updated && Date.now() - row.updated < this.refreshMs) return 0;
+
+    const listings = await this.listings();
+    if (listings.length === 0) return 0;
+
+    const upsertAsset = this.db.prepare(`
+      INSERT INTO token_assets (id, symbol, name, coingecko_id, updated_at) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET symbol = excluded.symbol, name = excluded.name,
+        coingecko_id = excluded.coingecko_id, updated_at = excluded.updated_at
+    `);
+    const upsertContract = this.db.prepare(`
+      INSERT INTO token_contracts (chain, address, asset_id) VALUES (?, ?, ?)
+      ON CONFLICT(chain, address) DO UPDATE SET asset_id = excluded.asset_id
+    `);
+
+    const now = Date.now();
+    this.db.transaction(() => {
+      for (const listing of listings) {
+        upsertAsset.run(listing.id, listing.symbol, listing.name, listing.id, now);
+        for (const [platform, address] of Object.entries(listing.platforms)) {
+          if (!platform || !address) continue;
+          upsertContract.run(canonicalChain('coingecko', platform), normalizeAddress(address), listing.id);
+        }
+      }
+    })();
+
+    logger.info(`Token registry refreshed with ${listings.length} CoinGecko listings`);
+    return listings.length;
+  }
+
+  getAsset(id: string): TokenAsset | null {
+    const row = this.db.prepare('SELECT * FROM token_assets WHERE id = ?').get(id) as any;
+    if (!row) return null;
+
+    const contracts = this.db
+      .prepare('SELECT chain, address FROM token_contracts WHERE asset_id = ? ORDER BY chain')
+      .all(id) as TokenContract[];
+
+    return {
+      id: row.id,
+      symbol: row.symbol,
+      name: row.name,
+      coingeckoId: row.coingecko_id || undefined,
+      contracts
+    };
+  }
+
+  resolveContract(chain: string, address: string): string | null {
+    const row = this.db
+      .prepare('SELECT asset_id FROM token_contracts WHERE chain = ? AND address = ?')
+      .get(chain, normalizeAddress(address)) as { asset_id: string } | undefined;
+    return row?.asset_id || null;
+  }
+
+  // Ids of every known asset trading under this symbol
+  assetsWithSymbol(symbol: string): string[] {
+    const rows = this.db
+      .prepare('SELECT id FROM token_assets WHERE symbol = ? ORDER BY coingecko_id IS NULL, id')
+      .all(symbol.toUpperCase()) as { id: string }[];
+    return rows.map(r => r.id);
+  }
+
+  /**
+   * Canonical ids a user-typed identifier could mean: an asset id as-is, a
+   * `chain:address` contract, or every asset trading under a symbol
+   */
+  identify(input: string): string[] {
+    const trimmed = input.trim();
+    if (this.getAsset(trimmed)) return [trimmed];
+
+    const separator = trimmed.indexOf(':');
+    if (separator > 0) {
+      const chain = trimmed.slice(0, separator).toLowerCase();
+      const address = trimmed.slice(separator + 1);
+      return [this.resolveContract(chain, address) || `${chain}:${normalizeAddress(address)}`];
+    }
+
+    return this.assetsWithSymbol(trimmed);
+  }
+
+  /**
+   * Collapse a collector batch to one token per canonical asset, merging metrics
+   * with provenance and flagging symbols shared with other assets.
+   * A failed coin list refresh still resolves against the stored registry.
+   */
+  async resolve(tokens: Token[]): Promise<Token[]> {
+    try {
+      await this.refresh();
+    } catch (error: any) {
+      logger.warn('Token registry refresh failed, resolving with stored listings', error.message);
+    }
+
+    const groups = new Map<string, Token[]>();
+    for (const token of tokens) {
+      const id = this.canonicalId(token);
+      groups.set(id, [...(groups.get(id) || []), token]);
+    }
+
+    const merged = Array.from(groups, ([id, group]) => {
+      const token = mergeTokens(id, group);
+      const asset = this.getAsset(id);
+      if (asset) {
+        token.coingeckoId = token.coingeckoId || asset.coingeckoId;
+        const contracts = new Map((token.contracts || []).map(c => [contractKey(c), c]));
+        for (const contract of asset.contracts) contracts.set(contractKey(contract), contract);
+        if (contracts.size > 0) token.contracts = Array.from(contracts.values());
+      } else {
+        this.remember(token);
+      }
+      return token;
+    });
+
+    const bySymbol = new Map<string, Set<string>>();
+    for (const token of merged) {
+      const ids = bySymbol.get(token.symbol) || new Set(this.assetsWithSymbol(token.symbol));
+      ids.add(token.id);
+      bySymbol.set(token.symbol, ids);
+    }
+
+    for (const token of merged) {
+      const others = Array.from(bySymbol.get(token.symbol)!).filter(id => id !== token.id);
+      if (others.length > 0) token.symbolCollision = others.slice(0, MAX_COLLISIONS);
+    }
+
+    const duplicates = tokens.length - merged.length;
+    if (duplicates > 0) {
+      logger.info(`Token registry merged ${duplicates} duplicate listing(s) into ${merged.length} assets`);
+    }
+    return merged;
+  }
+
+  private canonicalId(token: Token): string {
+    if (token.coingeckoId) return token.coingeckoId;
+
+    for (const contract of token.contracts || []) {
+      const assetId = this.resolveContract(contract.chain, contract.address);
+      if (assetId) return assetId;
+    }
+
+    const contract = token.contracts?.[0];
+    return contract ? contractKey(contract) : token.id;
+  }
+
+  // DEX-only assets are kept so later sightings (and other chains) resolve to them
+  private remember(token: Token) {
+    if (token.coingeckoId || !token.contracts?.length) return;
+
+    this.db
+      .prepare(`
+        INSERT INTO token_assets (id, symbol, name, coingecko_id, updated_at) VALUES (?, ?, ?, NULL, ?)
+        ON CONFLICT(id) DO UPDATE SET symbol = excluded.symbol, name = excluded.name, updated_at = excluded.updated_at
+      `)
+      .run(token.id, token.symbol, token.name, Date.now());
+
+    const insertContract = this.db.prepare(
+      'INSERT OR IGNORE INTO token_contracts (chain, address, asset_id) VALUES (?, ?, ?)'
+    );
+    for (const contract of token.contracts) insertContract.run(contract.chain, contract.address, token.id);
+  }
+}
+
+export const tokenRegistry = new TokenRegistry();
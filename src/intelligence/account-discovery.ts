@@ -2,16 +2,13 @@ import { TwitterApi } from 'twitter-api-v2';
 import { vectorDB } from './vectordb.js';
 import { logger } from '../shared/logger.js';
 import { TrackedAccount } from './types.js';
-import Anthropic from '@anthropic-ai/sdk';
+import { llm } from '../shared/llm.js';
+import { ACCOUNT_CATEGORY } from '../shared/llm-schemas.js';
 
 const client = new TwitterApi({
   bearerToken: process.env.TWITTER_BEARER_TOKEN
 });
 
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY
-});
-
 export interface DiscoveryCandidate {
   handle: string;
   score: number;
@@ -247,29 +244,16 @@ export class AccountDiscovery {
 
       const content = tweets.data.map(t => t.text).join('\n');
 
-      const message = await anthropic.messages.create({
-        model: 'claude-haiku-4-20250514',
-        max_tokens: 50,
-        messages: [
-          {
-            role: 'user',
-            content: `Classify this account's focus into ONE category: TECHNICAL, NARRATIVE, SMART_MONEY, or MARKET_STRUCTURE.
+      const { category } = await llm.completeJSON(
+        'classification',
+        `Classify this account's focus into ONE category: TECHNICAL, NARRATIVE, SMART_MONEY, or MARKET_STRUCTURE.
 
 Recent tweets:
-${content}
-
-Response with ONLY the category name.`
-          }
-        ]
-      });
-
-      const response = message.content[0].type === 'text' ? message.content[0].text.trim().toUpperCase() : null;
-      
-      if (['TECHNICAL', 'NARRATIVE', 'SMART_MONEY', 'MARKET_STRUCTURE'].includes(response || '')) {
-        return response;
-      }
-
-      return null;
+${content}`,
+        ACCOUNT_CATEGORY,
+        { maxTokens: 60 }
+      );
+      return category;
     } catch (error: any) {
       logger.warn(`LLM categorization failed for @${handle}`, error.message);
       return null;
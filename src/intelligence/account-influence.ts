@@ -1,15 +1,27 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { createClient } from '@supabase/supabase-js';
 import { vectorDB } from './vectordb.js';
+import { intelligenceStore } from './store.js';
+import { callTracker, MIN_SCORED_CALLS } from './call-tracker.js';
+import {
+  buildCitationGraph,
+  pageRank,
+  conversationStats,
+  narrativeLeadTimes,
+  percentileScores,
+  CitationGraph,
+  CitationKind,
+  ConversationStats,
+  NarrativeLead
+} from './influence-graph.js';
+import {
+  computeMomentum,
+  DEFAULT_MOMENTUM_CONFIG,
+  InfluenceHistoryPoint,
+  MomentumConfig,
+  MomentumResult
+} from './influence-momentum.js';
 import { logger } from '../shared/logger.js';
-
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY);
-const geminiModel = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
-
-const supabase = createClient(
-  process.env.SUPABASE_URL || '',
-  process.env.SUPABASE_KEY || ''
-);
+import { llm } from '../shared/llm.js';
+import { INFLUENCE_ORDER } from '../shared/llm-schemas.js';
 
 export interface IAccountInfluence {
   handle: string;
@@ -22,121 +34,180 @@ export interface IAccountInfluence {
   momentum: 'rising' | 'stable' | 'declining'; // trend direction
   tier: 'trendsetter' | 'leader' | 'contributor' | 'follower'; // influence tier
   lastUpdated: number;
+  evidence?: InfluenceEvidence; // what the scores were computed from
 }
 
 export type AccountInfluence = IAccountInfluence;
 
+// Raw measurements behind an influence score (see influence-graph.ts)
+export interface InfluenceEvidence {
+  window: { from: number; to: number; tweets: number; accounts: number };
+  citations: {
+    pageRank: number;
+    byKind: Record<CitationKind, number>;
+    topCiters: { handle: string; weight: number }[];
+  };
+  conversations: ConversationStats;
+  narratives: NarrativeLead;
+  accuracy: { source: 'calls' | 'default'; scoredCalls: number; hitRate?: number; avgReturn?: number };
+  tieBreak?: { rank: number; of: number }; // the LLM's order among accounts with the same rounded score
+  momentum?: MomentumResult & { windowDays: number };
+}
+
+// Days of stored tweets the citation graph is built from
+const INFLUENCE_WINDOW_DAYS = parseInt(process.env.INFLUENCE_WINDOW_DAYS || '30');
+const MAX_GRAPH_TWEETS = 20000;
+
+// Ask an LLM ('ranking' route, Gemini first) to order accounts whose rounded scores tie (off by default)
+const LLM_TIEBREAK = process.env.INFLUENCE_LLM_TIEBREAK === 'true';
+
+// Score for a dimension we have no data on
+const NEUTRAL_SCORE = 50;
+
+// Credibility assumed for accounts we don't track
+const UNTRACKED_CREDIBILITY = 50;
+
+// Contested topics needed before a lead time counts at full weight
+const LEAD_TOPICS_PRIOR = 3;
+
+// How long ranking reads trust a cached account_influence row
+const INFLUENCE_CACHE_TTL_MS = 15 * 60 * 1000;
+
+// One build of the citation graph and the percentiles derived from it
+interface InfluenceGraph {
+  from: number;
+  to: number;
+  tweets: number;
+  graph: CitationGraph;
+  conversations: Map<string, ConversationStats>;
+  narratives: Map<string, NarrativeLead>;
+  ranks: Map<string, number>;
+  citedScores: Map<string, number>;
+  starterScores: Map<string, number>;
+  earlyScores: Map<string, number>;
+}
+
+function tierFor(influenceScore: number): IAccountInfluence['tier'] {
+  if (influenceScore >= 85) return 'trendsetter';
+  if (influenceScore >= 70) return 'leader';
+  if (influenceScore >= 55) return 'contributor';
+  return 'follower';
+}
+
 /**
- * AccountInfluenceEngine - Uses Gemini 2.0 Flash for batch analysis
- * Avoids Anthropic rate limits by offloading heavy analysis to Gemini
+ * AccountInfluenceEngine - influence from our own data: PageRank over the
+ * mention/quote/reply graph, reply-chain depth, narrative lead time and
+ * measured call accuracy. An LLM is only consulted to break ties.
  */
 export class AccountInfluenceEngine {
-  /**
-   * Batch score multiple accounts efficiently with Gemini
-   * Single API call for N accounts = 1/Nth the cost
-   */
-  async batchScoreInfluence(handles: string[]): Promise<Map<string, IAccountInfluence>> {
-    try {
-      logger.info(`Batch scoring ${handles.length} accounts with Gemini 2.0 Flash...`);
-
-      // Fetch recent tweets for context
-      const accountContext = await Promise.all(
-        handles.map(async h => {
-          const tweets = await vectorDB.getTweetsByAccount(h);
-          return {
-            handle: h,
-            recentTweets: tweets.slice(0, 3).map(t => `"${t.text.substring(0, 80)}..."`).join(' | '),
-            tweetCount: tweets.length
-          };
-        })
-      );
+  private momentumConfig: MomentumConfig;
+  private graphCache: InfluenceGraph | null = null;
 
-      const contextStr = accountContext
-        .map(
-          ac =>
-            `@${ac.handle} (${ac.tweetCount} tweets): ${ac.recentTweets}`
-        )
-        .join('\n');
-
-      const prompt = `You are analyzing the influence of crypto researchers on Twitter.
-
-For each handle, score influence dimensions (0-100):
-1. Cited frequency: How often others quote/reference them
-2. Conversation starter: Do their tweets generate substantive reply chains?
-3. Early narratives: Do they identify trends before mainstream adoption?
-4. Prediction accuracy: Historical accuracy of their market/tech calls
-
-Return ONLY valid JSON (no markdown, no explanation):
-{
-  "@handle1": {
-    "cited": 80,
-    "starter": 75,
-    "early": 90,
-    "accuracy": 85
-  },
-  "@handle2": {
-    "cited": 60,
-    "starter": 55,
-    "early": 70,
-    "accuracy": 65
+  constructor(momentumConfig: Partial<MomentumConfig> = {}) {
+    this.momentumConfig = { ...DEFAULT_MOMENTUM_CONFIG, ...momentumConfig };
   }
-}
-
-Account context:
-${contextStr}`;
 
-      const response = await geminiModel.generateContent(prompt);
-      const text = response.response.text();
+  /**
+   * Score accounts against one citation graph built from the last
+   * INFLUENCE_WINDOW_DAYS of stored tweets. Dimensions are percentiles across
+   * every account in the graph, so scores are comparable between runs.
+   * Only tracked accounts are persisted; others are scored for the caller alone.
+   * With maxGraphAgeMs, a graph built that recently is reused instead of rebuilt.
+   */
+  async batchScoreInfluence(
+    handles: string[],
+    options: { maxGraphAgeMs?: number } = {}
+  ): Promise<Map<string, IAccountInfluence>> {
+    try {
+      const tracked = await this.trackedCredibility();
+      const {
+        from,
+        to,
+        tweets,
+        graph,
+        conversations,
+        narratives,
+        ranks,
+        citedScores,
+        starterScores,
+        earlyScores
+      } = await this.influenceGraph(options.maxGraphAgeMs ?? 0);
+
+      logger.info(`Scoring ${handles.length} accounts from ${tweets} tweets (${INFLUENCE_WINDOW_DAYS}d graph)`);
 
       const resultMap = new Map<string, IAccountInfluence>();
 
-      try {
-        const parsed = JSON.parse(text);
-
-        for (const [key, scores] of Object.entries(parsed) as any[]) {
-          const handle = key.replace('@', '');
-          const credibility = await this.getAccountCredibility(handle);
-
-          if (credibility !== null) {
-            // Calculate composite influence score
-            const influenceScore =
-              (scores.cited || 50) * 0.3 +
-              (scores.starter || 50) * 0.3 +
-              (scores.early || 50) * 0.25 +
-              (scores.accuracy || 50) * 0.15;
-
-            // Determine tier
-            let tier: 'trendsetter' | 'leader' | 'contributor' | 'follower' = 'contributor';
-            if (influenceScore >= 85) tier = 'trendsetter';
-            else if (influenceScore >= 70) tier = 'leader';
-            else if (influenceScore >= 55) tier = 'contributor';
-            else tier = 'follower';
-
-            const influence: IAccountInfluence = {
-              handle,
-              credibility,
-              influenceScore: Math.round(influenceScore),
-              citedByOthers: scores.cited || 50,
-              conversationStarter: scores.starter || 50,
-              earlyNarratives: scores.early || 50,
-              accuracy: scores.accuracy || 50,
-              momentum: 'stable',
-              tier,
-              lastUpdated: Date.now()
-            };
-
-            resultMap.set(handle, influence);
-
-            // Persist to DB
-            await this.persistInfluenceScore(influence);
+      for (const handle of handles) {
+        const key = handle.toLowerCase();
+        const credibility = tracked.get(key) ?? UNTRACKED_CREDIBILITY;
+
+        const accuracy = await this.measuredAccuracy(handle);
+        const inbound = graph.inbound.get(key);
+
+        const citedByOthers = citedScores.get(key) ?? 0;
+        const conversationStarter = starterScores.get(key) ?? NEUTRAL_SCORE;
+        const earlyNarratives = earlyScores.get(key) ?? NEUTRAL_SCORE;
+
+        // Composite influence score
+        const influenceScore =
+          citedByOthers * 0.3 +
+          conversationStarter * 0.3 +
+          earlyNarratives * 0.25 +
+          accuracy.score * 0.15;
+
+        const narrative = narratives.get(key);
+
+        resultMap.set(handle, {
+          handle,
+          credibility,
+          influenceScore: Math.round(influenceScore),
+          citedByOthers,
+          conversationStarter,
+          earlyNarratives,
+          accuracy: accuracy.score,
+          momentum: 'stable',
+          tier: tierFor(influenceScore),
+          lastUpdated: to,
+          evidence: {
+            window: { from, to, tweets, accounts: graph.nodes.length },
+            citations: {
+              pageRank: ranks.get(key) ?? 0,
+              byKind: inbound?.byKind ?? { mention: 0, reply: 0, retweet: 0, quote: 0 },
+              topCiters: Array.from(inbound?.citers ?? [])
+                .map(([citer, weight]) => ({ handle: citer, weight }))
+                .sort((a, b) => b.weight - a.weight || a.handle.localeCompare(b.handle))
+                .slice(0, 5)
+            },
+            conversations: conversations.get(key) ?? {
+              tweets: 0,
+              started: 0,
+              avgDepth: 0,
+              maxDepth: 0,
+              repliers: 0,
+              avgReplies: 0
+            },
+            narratives: narrative
+              ? { ...narrative, leads: narrative.leads.slice(0, 5) }
+              : { topics: 0, firstMentions: 0, avgLeadHours: 0, leads: [] },
+            accuracy: accuracy.evidence
           }
-        }
+        });
+      }
+
+      if (LLM_TIEBREAK) {
+        await this.breakTies(Array.from(resultMap.values()));
+      }
 
-        logger.info(`Scored ${resultMap.size}/${handles.length} accounts successfully`);
-      } catch (e) {
-        logger.error('Failed to parse Gemini batch response', text);
+      for (const influence of resultMap.values()) {
+        const momentum = await this.momentumWith(influence);
+        influence.momentum = momentum.momentum;
+        if (influence.evidence) {
+          influence.evidence.momentum = { ...momentum, windowDays: this.momentumConfig.windowDays };
+        }
+        if (tracked.has(influence.handle.toLowerCase())) await this.persistInfluenceScore(influence);
       }
 
+      logger.info(`Scored ${resultMap.size}/${handles.length} accounts successfully`);
       return resultMap;
     } catch (error: any) {
       logger.error('Batch scoring failed', error.message);
@@ -145,114 +216,207 @@ ${contextStr}`;
   }
 
   /**
-   * Score a single account with Gemini + local metrics
+   * The citation graph and per-account percentiles over the influence window,
+   * rebuilt when the cached one is older than maxAgeMs
+   */
+  private async influenceGraph(maxAgeMs: number): Promise<InfluenceGraph> {
+    if (this.graphCache && Date.now() - this.graphCache.to <= maxAgeMs) return this.graphCache;
+
+    const to = Date.now();
+    const from = to - INFLUENCE_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+    const tweets = await intelligenceStore.getTweetsSince(from, MAX_GRAPH_TWEETS);
+    if (tweets.length >= MAX_GRAPH_TWEETS) {
+      logger.warn(
+        `Citation graph capped at the newest ${MAX_GRAPH_TWEETS} tweets; the oldest part of the ${INFLUENCE_WINDOW_DAYS}d window is left out`
+      );
+    }
+
+    const graph = buildCitationGraph(tweets);
+    const ranks = pageRank(graph);
+    const conversations = conversationStats(tweets);
+    const narratives = narrativeLeadTimes(tweets);
+
+    this.graphCache = {
+      from,
+      to,
+      tweets: tweets.length,
+      graph,
+      conversations,
+      narratives,
+      ranks,
+      citedScores: percentileScores(ranks),
+      starterScores: percentileScores(
+        new Map(
+          Array.from(conversations, ([handle, c]) => [
+            handle,
+            Math.log1p(c.started) * (1 + c.avgDepth) + 0.5 * Math.log1p(c.avgReplies)
+          ])
+        )
+      ),
+      earlyScores: percentileScores(
+        new Map(
+          Array.from(narratives, ([handle, n]) => [
+            handle,
+            (n.avgLeadHours * n.topics) / (n.topics + LEAD_TOPICS_PRIOR)
+          ])
+        )
+      )
+    };
+    return this.graphCache;
+  }
+
+  /**
+   * Score a single account (same graph and percentiles as a batch run)
    */
   async scoreAccountInfluence(handle: string): Promise<IAccountInfluence | null> {
-    try {
-      logger.info(`Scoring influence for @${handle} with Gemini...`);
+    const scored = await this.batchScoreInfluence([handle]);
+    return scored.get(handle) ?? null;
+  }
 
-      const credibility = await this.getAccountCredibility(handle);
-      if (credibility === null) return null;
+  /**
+   * Re-score every tracked account
+   */
+  async scoreTrackedAccounts(): Promise<number> {
+    const categories = ['NARRATIVE', 'TECHNICAL', 'SMART_MONEY', 'MARKET_STRUCTURE'];
+    const handles: string[] = [];
+    for (const category of categories) {
+      const accounts = await vectorDB.getAccountsByCategory(category);
+      handles.push(...accounts.map(a => a.handle));
+    }
 
-      // Get recent tweets for context
-      const tweets = await vectorDB.getTweetsByAccount(handle);
-      const recentTweets = tweets.slice(0, 5);
+    const scored = await this.batchScoreInfluence(handles);
+    return scored.size;
+  }
 
-      const prompt = `Analyze the influence of crypto researcher @${handle}.
+  /**
+   * Ask the LLM to order accounts that share a rounded score, then nudge their
+   * scores apart by less than half a point so the rounded score never changes.
+   */
+  private async breakTies(influences: IAccountInfluence[]) {
+    const groups = new Map<number, IAccountInfluence[]>();
+    for (const influence of influences) {
+      const group = groups.get(influence.influenceScore) || [];
+      group.push(influence);
+      groups.set(influence.influenceScore, group);
+    }
 
-Recent tweets (${recentTweets.length} samples):
-${recentTweets.map(t => `- "${t.text.substring(0, 100)}..." (${t.likes || 0}L, ${t.retweets || 0}RT)`).join('\n')}
+    const tied = Array.from(groups.values()).filter(g => g.length > 1);
+    if (tied.length === 0) return;
 
-Score these dimensions (0-100):
-1. Citation frequency: How often do others quote/reference them?
-2. Conversation starter: Do their tweets generate substantive replies?
-3. Early narrative adoption: Do they identify trends ahead of crowd?
-4. Prediction accuracy: Historical accuracy of their calls?
+    const prompt = `You are ranking crypto researchers on Twitter by influence: how often others cite them, whether their tweets start real discussions, and whether they spot narratives early.
 
-Return ONLY JSON (no explanation):
-{
-  "cited": <number>,
-  "starter": <number>,
-  "early": <number>,
-  "accuracy": <number>,
-  "reasoning": "<brief one-liner>"
-}`;
+Each group below scored the same on our metrics. Order every group from most to least influential.
 
-      const response = await geminiModel.generateContent(prompt);
-      const text = response.response.text();
+Return one array of handles per group, in the same group order:
+{ "groups": [["handle1", "handle2"], ["handle3", "handle4"]] }
 
-      let scores = { cited: 50, starter: 50, early: 50, accuracy: 50 };
-      try {
-        const parsed = JSON.parse(text);
-        scores = {
-          cited: parsed.cited || 50,
-          starter: parsed.starter || 50,
-          early: parsed.early || 50,
-          accuracy: parsed.accuracy || 50
+Groups:
+${tied.map((g, i) => `${i + 1}. ${g.map(inf => `@${inf.handle}`).join(', ')}`).join('\n')}`;
+
+    try {
+      const parsed = await llm.completeJSON('ranking', prompt, INFLUENCE_ORDER, { maxTokens: 1000 });
+
+      tied.forEach((group, i) => {
+        const order = (parsed.groups[i] || []).map(h => h.replace('@', '').toLowerCase());
+        const rankOf = (inf: IAccountInfluence) => {
+          const rank = order.indexOf(inf.handle.toLowerCase());
+          return rank === -1 ? order.length : rank;
         };
-      } catch (e) {
-        logger.warn(`Failed to parse Gemini response for @${handle}`);
-      }
 
-      // Composite influence score
-      const influenceScore =
-        scores.cited * 0.3 +
-        scores.starter * 0.3 +
-        scores.early * 0.25 +
-        scores.accuracy * 0.15;
-
-      // Determine tier
-      let tier: 'trendsetter' | 'leader' | 'contributor' | 'follower' = 'contributor';
-      if (influenceScore >= 85) tier = 'trendsetter';
-      else if (influenceScore >= 70) tier = 'leader';
-      else if (influenceScore >= 55) tier = 'contributor';
-      else tier = 'follower';
-
-      const influence: IAccountInfluence = {
-        handle,
-        credibility,
-        influenceScore: Math.round(influenceScore),
-        citedByOthers: scores.cited,
-        conversationStarter: scores.starter,
-        earlyNarratives: scores.early,
-        accuracy: scores.accuracy,
-        momentum: 'stable',
-        tier,
-        lastUpdated: Date.now()
+        const sorted = [...group].sort((a, b) => rankOf(a) - rankOf(b) || a.handle.localeCompare(b.handle));
+        sorted.forEach((influence, rank) => {
+          const nudge = (0.49 * (sorted.length - 1 - rank)) / sorted.length;
+          influence.influenceScore = Math.round((influence.influenceScore + nudge) * 100) / 100;
+          if (influence.evidence) influence.evidence.tieBreak = { rank: rank + 1, of: sorted.length };
+        });
+      });
+
+      logger.info(`LLM broke ${tied.length} influence tie(s)`);
+    } catch (error: any) {
+      logger.warn('Influence tie-break failed, keeping tied scores', error.message);
+    }
+  }
+
+  /**
+   * Accuracy from scored token calls (call-tracker.ts); neutral until the
+   * account has enough calls to judge
+   */
+  private async measuredAccuracy(
+    handle: string
+  ): Promise<{ score: number; evidence: InfluenceEvidence['accuracy'] }> {
+    const accuracy = await callTracker.getAccountAccuracy(handle);
+    if (!accuracy || accuracy.scoredCalls < MIN_SCORED_CALLS) {
+      return {
+        score: NEUTRAL_SCORE,
+        evidence: { source: 'default', scoredCalls: accuracy?.scoredCalls ?? 0 }
       };
+    }
+
+    return {
+      score: accuracy.accuracyScore,
+      evidence: {
+        source: 'calls',
+        scoredCalls: accuracy.scoredCalls,
+        hitRate: accuracy.hitRate,
+        avgReturn: accuracy.avgReturn
+      }
+    };
+  }
 
-      await this.persistInfluenceScore(influence);
-      return influence;
+  /**
+   * Momentum over the stored history plus the run being scored now
+   */
+  private async momentumWith(influence: IAccountInfluence): Promise<MomentumResult> {
+    const since = influence.lastUpdated - this.momentumConfig.windowDays * 24 * 60 * 60 * 1000;
+    const history = await this.getInfluenceHistory(influence.handle, since);
+    return computeMomentum(
+      [...history, { influenceScore: influence.influenceScore, scoredAt: influence.lastUpdated }],
+      this.momentumConfig,
+      influence.lastUpdated
+    );
+  }
+
+  /**
+   * An account's influence time series since `since`, oldest first
+   */
+  async getInfluenceHistory(handle: string, since: number = 0, limit?: number): Promise<InfluenceHistoryPoint[]> {
+    try {
+      return await intelligenceStore.getInfluenceHistory(handle, since, limit);
     } catch (error: any) {
-      logger.error(`Failed to score @${handle}`, error.message);
-      return null;
+      logger.error(`Failed to get influence history for @${handle}`, error.message);
+      return [];
     }
   }
 
   /**
-   * Persist influence scores to Supabase
+   * Momentum from stored history, optionally over a different window or thresholds
+   */
+  async getMomentum(handle: string, config: Partial<MomentumConfig> = {}): Promise<MomentumResult> {
+    const merged = { ...this.momentumConfig, ...config };
+    const history = await this.getInfluenceHistory(
+      handle,
+      Date.now() - merged.windowDays * 24 * 60 * 60 * 1000
+    );
+    return computeMomentum(history, merged);
+  }
+
+  /**
+   * Persist the latest score and append it to the history
    */
   private async persistInfluenceScore(influence: IAccountInfluence): Promise<boolean> {
     try {
-      const { error } = await supabase
-        .from('account_influence')
-        .upsert(
-          {
-            handle: influence.handle,
-            credibility: influence.credibility,
-            influence_score: influence.influenceScore,
-            cited_count: influence.citedByOthers,
-            conversation_starter_score: influence.conversationStarter,
-            early_narrative_score: influence.earlyNarratives,
-            accuracy: influence.accuracy,
-            tier: influence.tier,
-            momentum: influence.momentum,
-            timestamp: influence.lastUpdated
-          },
-          { onConflict: 'handle' }
-        );
-
-      if (error) throw error;
+      await intelligenceStore.upsertInfluence(influence);
+      await intelligenceStore.insertInfluenceHistory({
+        handle: influence.handle,
+        influenceScore: influence.influenceScore,
+        credibility: influence.credibility,
+        citedByOthers: influence.citedByOthers,
+        conversationStarter: influence.conversationStarter,
+        earlyNarratives: influence.earlyNarratives,
+        accuracy: influence.accuracy,
+        tier: influence.tier,
+        scoredAt: influence.lastUpdated
+      });
       return true;
     } catch (error: any) {
       logger.error(`Failed to persist score for ${influence.handle}`, error.message);
@@ -261,20 +425,17 @@ Return ONLY JSON (no explanation):
   }
 
   /**
-   * Get account credibility (from vectorDB categories)
+   * Credibility of every tracked account (from vectorDB categories), keyed by lowercase handle
    */
-  private async getAccountCredibility(handle: string): Promise<number | null> {
-    try {
-      const categories = ['NARRATIVE', 'TECHNICAL', 'SMART_MONEY', 'MARKET_STRUCTURE'];
-      for (const category of categories) {
-        const accounts = await vectorDB.getAccountsByCategory(category);
-        const account = accounts.find(a => a.handle.toLowerCase() === handle.toLowerCase());
-        if (account) return account.credibilityScore;
+  private async trackedCredibility(): Promise<Map<string, number>> {
+    const credibility = new Map<string, number>();
+    const categories = ['NARRATIVE', 'TECHNICAL', 'SMART_MONEY', 'MARKET_STRUCTURE'];
+    for (const category of categories) {
+      for (const account of await vectorDB.getAccountsByCategory(category)) {
+        credibility.set(account.handle.toLowerCase(), account.credibilityScore);
       }
-      return 50; // Default for untracked accounts
-    } catch {
-      return null;
     }
+    return credibility;
   }
 
   /**
@@ -282,13 +443,7 @@ Return ONLY JSON (no explanation):
    */
   async getTopInfluencers(limit: number = 10): Promise<IAccountInfluence[]> {
     try {
-      const { data } = await supabase
-        .from('account_influence')
-        .select('*')
-        .order('influence_score', { ascending: false })
-        .limit(limit);
-
-      return (data || []) as IAccountInfluence[];
+      return await intelligenceStore.getTopInfluence(limit);
     } catch (error: any) {
       logger.error('Failed to get top influencers', error.message);
       return [];
@@ -302,13 +457,7 @@ Return ONLY JSON (no explanation):
     tier: 'trendsetter' | 'leader' | 'contributor' | 'follower'
   ): Promise<IAccountInfluence[]> {
     try {
-      const { data } = await supabase
-        .from('account_influence')
-        .select('*')
-        .eq('tier', tier)
-        .order('influence_score', { ascending: false });
-
-      return (data || []) as IAccountInfluence[];
+      return await intelligenceStore.getInfluenceByTier(tier);
     } catch (error: any) {
       logger.error(`Failed to get ${tier} influencers`, error.message);
       return [];
@@ -317,3 +466,135 @@ Return ONLY JSON (no explanation):
 }
 
 export const accountInfluenceEngine = new AccountInfluenceEngine();
+
+const MOMENTUM_ORDER: Record<IAccountInfluence['momentum'], number> = { rising: 2, stable: 1, declining: 0 };
+
+// Highest score first; ties go to credibility, citations, momentum, then handle
+function compareInfluence(a: IAccountInfluence, b: IAccountInfluence): number {
+  const ha = a.handle.toLowerCase();
+  const hb = b.handle.toLowerCase();
+  return (
+    b.influenceScore - a.influenceScore ||
+    b.credibility - a.credibility ||
+    b.citedByOthers - a.citedByOthers ||
+    MOMENTUM_ORDER[b.momentum] - MOMENTUM_ORDER[a.momentum] ||
+    (ha < hb ? -1 : ha > hb ? 1 : 0)
+  );
+}
+
+/**
+ * InfluenceRanker - read side of influence scoring, used to pick which
+ * accounts to cite. Reads account_influence through a short-lived cache and
+ * scores handles that have never been scored.
+ */
+export class InfluenceRanker {
+  private cache = new Map<string, { influence: IAccountInfluence; cachedAt: number }>();
+
+  constructor(
+    private engine: AccountInfluenceEngine = accountInfluenceEngine,
+    private ttlMs: number = INFLUENCE_CACHE_TTL_MS
+  ) {}
+
+  /**
+   * Influence for each handle, keyed by lowercase handle. Handles with no
+   * stored score are scored now; if that fails they get a provisional score
+   * from credibility (not persisted).
+   */
+  async getInfluence(handles: string[]): Promise<Map<string, IAccountInfluence>> {
+    const now = Date.now();
+    const unique = Array.from(new Map(handles.map(h => [h.toLowerCase(), h])).values());
+    const result = new Map<string, IAccountInfluence>();
+
+    const stale = unique.filter(handle => {
+      const cached = this.cache.get(handle.toLowerCase());
+      if (cached && now - cached.cachedAt < this.ttlMs) {
+        result.set(handle.toLowerCase(), cached.influence);
+        return false;
+      }
+      return true;
+    });
+
+    if (stale.length > 0) {
+      try {
+        for (const influence of await intelligenceStore.getInfluenceByHandles(stale)) {
+          this.remember(influence, now, result);
+        }
+      } catch (error: any) {
+        logger.warn('Failed to read cached influence scores', error.message);
+      }
+    }
+
+    const unscored = stale.filter(h => !result.has(h.toLowerCase()));
+    if (unscored.length > 0) {
+      logger.info(`Scoring ${unscored.length} unscored account(s) for ranking`);
+      // Reuse the graph across cache misses; it changes slowly and costs up to MAX_GRAPH_TWEETS to build
+      const scored = await this.engine.batchScoreInfluence(unscored, { maxGraphAgeMs: this.ttlMs });
+      for (const influence of scored.values()) this.remember(influence, now, result);
+    }
+
+    for (const handle of unscored) {
+      if (!result.has(handle.toLowerCase())) {
+        result.set(handle.toLowerCase(), await this.provisionalInfluence(handle));
+      }
+    }
+
+    return result;
+  }
+
+  async scoreAccountInfluence(handle: string): Promise<IAccountInfluence | null> {
+    const influence = await this.getInfluence([handle]);
+    return influence.get(handle.toLowerCase()) ?? null;
+  }
+
+  /**
+   * Handles ordered by influence, most influential first (deterministic on ties)
+   */
+  async rankByInfluence(handles: string[]): Promise<IAccountInfluence[]> {
+    const influence = await this.getInfluence(handles);
+    return Array.from(influence.values()).sort(compareInfluence);
+  }
+
+  /**
+   * Top `n` handles to cite, spelled as they were passed in
+   */
+  async citeMostInfluential(handles: string[], n: number): Promise<string[]> {
+    const spelling = new Map(handles.map(h => [h.toLowerCase(), h]));
+    const ranked = await this.rankByInfluence(handles);
+    return ranked.slice(0, n).map(inf => spelling.get(inf.handle.toLowerCase()) ?? inf.handle);
+  }
+
+  // Drop cached rows, e.g. after a scoring run
+  invalidate(handles?: string[]) {
+    if (!handles) {
+      this.cache.clear();
+      return;
+    }
+    for (const handle of handles) this.cache.delete(handle.toLowerCase());
+  }
+
+  private remember(influence: IAccountInfluence, now: number, into: Map<string, IAccountInfluence>) {
+    const key = influence.handle.toLowerCase();
+    this.cache.set(key, { influence, cachedAt: now });
+    into.set(key, influence);
+  }
+
+  private async provisionalInfluence(handle: string): Promise<IAccountInfluence> {
+    const [account] = await vectorDB.getAccountsByHandles([handle]);
+    const credibility = account?.credibilityScore ?? NEUTRAL_SCORE;
+
+    return {
+      handle,
+      credibility,
+      influenceScore: credibility,
+      citedByOthers: 0,
+      conversationStarter: NEUTRAL_SCORE,
+      earlyNarratives: NEUTRAL_SCORE,
+      accuracy: account?.accuracyScore ?? NEUTRAL_SCORE,
+      momentum: 'stable',
+      tier: tierFor(credibility),
+      lastUpdated: Date.now()
+    };
+  }
+}
+
+export const accountInfluence = new InfluenceRanker();
@@ -3,7 +3,8 @@ import { ragEngine } from './rag.js';
 import { historicalContext } from './historical-context.js';
 import { accountInfluence } from './account-influence.js';
 import { logger } from '../shared/logger.js';
-import Anthropic from '@anthropic-ai/sdk';
+import { llm } from '../shared/llm.js';
+import { TWEET_DRAFT } from '../shared/llm-schemas.js';
 
 const client = new TwitterApi({
   appKey: process.env.TWITTER_API_KEY,
@@ -14,10 +15,6 @@ const client = new TwitterApi({
 
 const rwClient = client.readWrite;
 
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY
-});
-
 export class AutoReplyEngine {
   async generateReply(question: string, context?: string): Promise<string> {
     try {
@@ -74,21 +71,10 @@ ${context ? `Context: ${context}` : ''}
 Knowledge from our network:
 ${knowledge}
 
-Reply (keep under 280 characters):`;
-
-      const message = await anthropic.messages.create({
-        model: 'claude-haiku-4-20250514',
-        max_tokens: 100,
-        messages: [
-          {
-            role: 'user',
-            content: prompt
-          }
-        ]
-      });
+Keep the reply under 280 characters.`;
 
-      const reply = message.content[0].type === 'text' ? message.content[0].text : '';
-      return reply.slice(0, 280);
+      const draft = await llm.completeJSON('reply', prompt, TWEET_DRAFT, { maxTokens: 150 });
+      return draft.text;
     } catch (error: any) {
       logger.error('Failed to generate reply', error.message);
       return '';
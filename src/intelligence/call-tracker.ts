@@ -0,0 +1,307 @@
+import { StoredTweet } from './types.js';
+import { intelligenceStore, IntelligenceStore } from './store.js';
+import { resolveCoinId, fetchPriceAt } from '../collectors/coingecko.js';
+import { logger } from '../shared/logger.js';
+
+export type CallHorizon = '1d' | '7d' | '30d';
+
+export const CALL_HORIZONS: Record<CallHorizon, number> = {
+  '1d': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000
+};
+
+export interface CallOutcome {
+  price: number;
+  return: number; // in the call's direction: +0.1 = a bearish call that fell 10%
+  hit: boolean;
+}
+
+export interface AccountCall {
+  id: string; // `${tweetId}:${symbol}`
+  tweetId: string;
+  handle: string;
+  symbol: string;
+  coinId?: string; // CoinGecko id
+  direction: 'bullish' | 'bearish';
+  calledAt: number;
+  entryPrice?: number;
+  outcomes: Partial<Record<CallHorizon, CallOutcome>>;
+  status: 'open' | 'closed' | 'unpriced'; // unpriced = still no price by the 30d horizon
+  updatedAt: number;
+}
+
+export interface HorizonAccuracy {
+  calls: number;
+  hits: number;
+  hitRate: number;
+  avgReturn: number;
+}
+
+export interface AccountAccuracy {
+  handle: string;
+  totalCalls: number;
+  scoredCalls: number; // calls with at least one horizon scored
+  horizons: Record<CallHorizon, HorizonAccuracy>;
+  hitRate: number; // horizon-weighted, unshrunk
+  avgReturn: number; // horizon-weighted, unshrunk
+  accuracyScore: number; // 0-100, shrunk towards 50 for accounts with few calls
+}
+
+// Accounts need this many scored calls before accuracy replaces the default of 50
+export const MIN_SCORED_CALLS = 5;
+
+// Longer horizons say more about a call than next-day noise
+const HORIZON_WEIGHTS: Record<CallHorizon, number> = { '1d': 0.2, '7d': 0.5, '30d': 0.3 };
+
+// Pseudo-calls at a 50% hit rate / 0 return mixed into every horizon
+const PRIOR_CALLS = 5;
+
+// Average directional return that maps to a ~76/100 return score
+const RETURN_SCALE = 0.1;
+
+// Baskets of tickers are shilling lists, not calls
+const MAX_SYMBOLS_PER_CALL = 3;
+
+const STABLECOINS = new Set(['USDT', 'USDC', 'DAI', 'USDE', 'FDUSD', 'TUSD', 'PYUSD', 'USDS', 'FRAX', 'BUSD']);
+
+const BULLISH_CUES =
+  /\b(long(ed|ing)?|buy(ing)?|bought|accumulat(e|ed|ing)|bullish|undervalued|breakout|bidding|aping)\b/i;
+const BEARISH_CUES =
+  /\b(short(ed|ing)?|sell(ing)?|sold|dump(ed|ing)?|bearish|overvalued|top is in|exit(ed|ing)?)\b/i;
+
+/**
+ * Directional calls in a tweet: one per cashtag, direction from explicit trade cues
+ * ("long", "sold") and otherwise from the tweet's classified sentiment
+ */
+export function detectCalls(
+  tweet: Pick<StoredTweet, 'text' | 'symbols' | 'sentiment'>
+): { symbol: string; direction: AccountCall['direction'] }[] {
+  const symbols = (tweet.symbols || []).filter(s => !STABLECOINS.has(s));
+  if (symbols.length === 0 || symbols.length > MAX_SYMBOLS_PER_CALL) return [];
+
+  const bullish = BULLISH_CUES.test(tweet.text);
+  const bearish = BEARISH_CUES.test(tweet.text);
+
+  let direction: AccountCall['direction'] | null = null;
+  if (bullish !== bearish) direction = bullish ? 'bullish' : 'bearish';
+  else if (!bullish && tweet.sentiment !== 'neutral') direction = tweet.sentiment;
+
+  if (!direction) return [];
+  return symbols.map(symbol => ({ symbol, direction: direction! }));
+}
+
+function emptyHorizon(): HorizonAccuracy {
+  return { calls: 0, hits: 0, hitRate: 0, avgReturn: 0 };
+}
+
+/**
+ * Hit rate and average return per horizon, combined into a 0-100 score.
+ * Each horizon is shrunk towards a coin flip so three lucky calls don't make a seer.
+ */
+export function summarizeAccuracy(handle: string, calls: AccountCall[]): AccountAccuracy {
+  const horizons = {} as Record<CallHorizon, HorizonAccuracy>;
+  let weight = 0;
+  let hitRate = 0;
+  let avgReturn = 0;
+  let shrunkHitRate = 0;
+  let shrunkReturn = 0;
+
+  for (const horizon of Object.keys(CALL_HORIZONS) as CallHorizon[]) {
+    const outcomes = calls.map(c => c.outcomes[horizon]).filter((o): o is CallOutcome => !!o);
+    const summary = emptyHorizon();
+
+    if (outcomes.length > 0) {
+      const hits = outcomes.filter(o => o.hit).length;
+      const totalReturn = outcomes.reduce((sum, o) => sum + o.return, 0);
+      summary.calls = outcomes.length;
+      summary.hits = hits;
+      summary.hitRate = hits / outcomes.length;
+      summary.avgReturn = totalReturn / outcomes.length;
+
+      const w = HORIZON_WEIGHTS[horizon];
+      weight += w;
+      hitRate += w * summary.hitRate;
+      avgReturn += w * summary.avgReturn;
+      shrunkHitRate += (w * (hits + 0.5 * PRIOR_CALLS)) / (outcomes.length + PRIOR_CALLS);
+      shrunkReturn += (w * totalReturn) / (outcomes.length + PRIOR_CALLS);
+    }
+
+    horizons[horizon] = summary;
+  }
+
+  const scoredCalls = calls.filter(c => Object.keys(c.outcomes).length > 0).length;
+  if (weight === 0) {
+    return { handle, totalCalls: calls.length, scoredCalls, horizons, hitRate: 0, avgReturn: 0, accuracyScore: 50 };
+  }
+
+  const returnScore = 0.5 + 0.5 * Math.tanh(shrunkReturn / weight / RETURN_SCALE);
+  const accuracyScore = Math.round(100 * (0.75 * (shrunkHitRate / weight) + 0.25 * returnScore));
+
+  return {
+    handle,
+    totalCalls: calls.length,
+    scoredCalls,
+    horizons,
+    hitRate: hitRate / weight,
+    avgReturn: avgReturn / weight,
+    accuracyScore
+  };
+}
+
+export interface PriceSource {
+  resolveCoinId(symbol: string): Promise<string | null>;
+  priceAt(coinId: string, timestamp: number): Promise<number | null>;
+}
+
+const coingeckoPrices: PriceSource = {
+  resolveCoinId,
+  priceAt: fetchPriceAt
+};
+
+/**
+ * CallTracker - records directional token calls from tracked accounts and
+ * scores them against price outcomes at 1d / 7d / 30d
+ */
+export class CallTracker {
+  private coinIds = new Map<string, string>();
+
+  constructor(
+    private store: IntelligenceStore = intelligenceStore,
+    private prices: PriceSource = coingeckoPrices,
+    private requestDelayMs: number = 2500 // keeps search and price lookups under the demo API's 30 calls/minute
+  ) {}
+
+  /**
+   * Record the calls in a freshly stored tweet, snapshotting the entry price.
+   * Calls already recorded are skipped. Returns how many calls were recorded.
+   */
+  async recordCalls(tweet: StoredTweet): Promise<number> {
+    const detected = detectCalls(tweet);
+    let recorded = 0;
+
+    for (const { symbol, direction } of detected) {
+      try {
+        const id = `${tweet.tweetId}:${symbol}`;
+        if (await this.store.hasCall(id)) continue;
+
+        const coinId = await this.coinIdFor(symbol);
+        const entryPrice = coinId ? await this.priceAt(coinId, tweet.timestamp) : null;
+
+        await this.store.insertCall({
+          id,
+          tweetId: tweet.tweetId,
+          handle: tweet.handle,
+          symbol,
+          coinId: coinId ?? undefined,
+          direction,
+          calledAt: tweet.timestamp,
+          entryPrice: entryPrice ?? undefined,
+          outcomes: {},
+          status: 'open',
+          updatedAt: Date.now()
+        });
+        recorded++;
+      } catch (error: any) {
+        logger.error(`Failed to record $${symbol} call from @${tweet.handle}`, error.message);
+      }
+    }
+
+    if (recorded > 0) {
+      logger.info(`Recorded ${recorded} call(s) from @${tweet.handle}`);
+    }
+    return recorded;
+  }
+
+  /**
+   * Price every horizon that has elapsed on open calls.
+   * Returns how many horizon outcomes were scored.
+   */
+  async scoreOutcomes(limit: number = 100): Promise<number> {
+    let calls: AccountCall[];
+    try {
+      calls = await this.store.getOpenCalls(Date.now() - CALL_HORIZONS['1d'], limit);
+    } catch (error: any) {
+      logger.error('Failed to load open calls', error.message);
+      return 0;
+    }
+
+    let scored = 0;
+    for (const call of calls) {
+      try {
+        scored += await this.scoreCall(call);
+      } catch (error: any) {
+        logger.error(`Failed to score call ${call.id}`, error.message);
+      }
+    }
+
+    logger.info(`Scored ${scored} call outcome(s) across ${calls.length} open call(s)`);
+    return scored;
+  }
+
+  async getAccountAccuracy(handle: string): Promise<AccountAccuracy | null> {
+    try {
+      return summarizeAccuracy(handle, await this.store.getCallsByAccount(handle));
+    } catch (error: any) {
+      logger.error(`Failed to load calls for @${handle}`, error.message);
+      return null;
+    }
+  }
+
+  private async scoreCall(call: AccountCall): Promise<number> {
+    const now = Date.now();
+    const updated: AccountCall = { ...call, outcomes: { ...call.outcomes } };
+
+    // The ticker may have been listed since the call was made
+    if (!updated.coinId) {
+      updated.coinId = (await this.coinIdFor(call.symbol)) ?? undefined;
+    }
+    if (updated.coinId && updated.entryPrice === undefined) {
+      updated.entryPrice = (await this.priceAt(updated.coinId, call.calledAt)) ?? undefined;
+    }
+
+    // Nothing to measure against yet: retry on later runs, give up once the last horizon has passed
+    if (!updated.coinId || !updated.entryPrice) {
+      const expired = now - call.calledAt > CALL_HORIZONS['30d'];
+      await this.store.updateCall({ ...updated, status: expired ? 'unpriced' : 'open', updatedAt: now });
+      return 0;
+    }
+
+    let scored = 0;
+    for (const [horizon, offset] of Object.entries(CALL_HORIZONS) as [CallHorizon, number][]) {
+      if (updated.outcomes[horizon] || call.calledAt + offset > now) continue;
+
+      const price = await this.priceAt(updated.coinId, call.calledAt + offset);
+      if (price === null) continue;
+
+      const change = (price - updated.entryPrice) / updated.entryPrice;
+      const directional = call.direction === 'bullish' ? change : -change;
+      updated.outcomes[horizon] = { price, return: directional, hit: directional > 0 };
+      scored++;
+    }
+
+    const complete = (Object.keys(CALL_HORIZONS) as CallHorizon[]).every(h => updated.outcomes[h]);
+    await this.store.updateCall({ ...updated, status: complete ? 'closed' : 'open', updatedAt: now });
+    return scored;
+  }
+
+  private async priceAt(coinId: string, timestamp: number): Promise<number | null> {
+    return this.prices.priceAt(coinId, timestamp).finally(() => this.pause());
+  }
+
+  private pause(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, this.requestDelayMs));
+  }
+
+  // Misses aren't cached: a ticker may be listed after the first time it's called
+  private async coinIdFor(symbol: string): Promise<string | null> {
+    const cached = this.coinIds.get(symbol);
+    if (cached) return cached;
+
+    const coinId = await this.prices.resolveCoinId(symbol).finally(() => this.pause());
+    if (coinId) this.coinIds.set(symbol, coinId);
+    return coinId;
+  }
+}
+
+export const callTracker = new CallTracker();
@@ -1,6 +1,7 @@
 import { TwitterApi } from 'twitter-api-v2';
 import { TrackedAccount } from './types.js';
 import { vectorDB } from './vectordb.js';
+import { callTracker, MIN_SCORED_CALLS } from './call-tracker.js';
 import { logger } from '../shared/logger.js';
 
 const client = new TwitterApi({
@@ -127,6 +128,11 @@ export class AccountClassifier {
     }
   }
 
+  /**
+   * Fold measured call accuracy into credibility.
+   * Each run moves credibility 30% of the way towards accuracyScore, so one
+   * bad week doesn't wipe out a long track record.
+   */
   async updateCredibilityScores() {
     // Get all accounts
     const categories = ['NARRATIVE', 'TECHNICAL', 'SMART_MONEY', 'MARKET_STRUCTURE'];
@@ -136,19 +142,14 @@ export class AccountClassifier {
 
       for (const account of accounts) {
         try {
-          // Get stats from stored tweets
-          const stats = await vectorDB.getAccountStats(account.handle);
-          if (!stats) continue;
+          const accuracy = await callTracker.getAccountAccuracy(account.handle);
+          if (!accuracy || accuracy.scoredCalls < MIN_SCORED_CALLS) continue;
 
-          // Update credibility based on actual tweet performance
-          let newScore = account.credibilityScore;
-
-          // If bullish takes get more engagement, boost credibility
-          if (stats.avgLikes > 1000) newScore += 5;
-          if (stats.avgRetweets > 100) newScore += 5;
+          if (accuracy.accuracyScore !== account.accuracyScore) {
+            await vectorDB.updateAccountAccuracy(account.handle, accuracy.accuracyScore);
+          }
 
-          // Cap at 100
-          newScore = Math.min(100, newScore);
+          const newScore = Math.round(0.7 * account.credibilityScore + 0.3 * accuracy.accuracyScore);
 
           if (newScore !== account.credibilityScore) {
             await vectorDB.updateAccountCredibility(account.handle, newScore);
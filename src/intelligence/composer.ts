@@ -2,35 +2,51 @@ import { Token } from '../shared/types.js';
 import { ragEngine } from './rag.js';
 import { accountInfluence } from './account-influence.js';
 import { logger } from '../shared/logger.js';
-import Anthropic from '@anthropic-ai/sdk';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY
-});
+import { marketStructureNotes } from '../analyzers/enhanced.js';
+import { sectorLabel, SectorStats } from '../collectors/sectors.js';
+import { tokenOverrides } from '../shared/token-overrides.js';
+import { llm } from '../shared/llm.js';
+import { TWEET_DRAFT } from '../shared/llm-schemas.js';
+
+// RAG narrative for a token: its sector, or the whole market when it has none
+function sectorNarrative(token: Token): string {
+  return token.sector && token.sector !== 'other' ? `${sectorLabel(token.sector)} narrative` : 'market analysis';
+}
 
 export class IntelligenceComposer {
-  async composeResearchTweet(tokens: Token[]): Promise<string> {
+  async composeResearchTweet(tokens: Token[], sectors: SectorStats[] = []): Promise<string> {
     try {
-      // Get top 3 tokens
-      const topTokens = tokens.slice(0, 3);
+      // Get top 3 tokens; a block added mid-run still keeps a token out of the tweet
+      const topTokens = tokenOverrides.withoutBlocked(tokens).slice(0, 3);
 
       // Query RAG context for each token
       const contexts = await Promise.all(
-        topTokens.map(t => ragEngine.queryForTweet(t.symbol, 'market analysis'))
+        topTokens.map(t => ragEngine.queryForTweet(t.symbol, sectorNarrative(t)))
       );
 
       // Build analysis brief from RAG insights with influence weighting
       let brief = '📊 Market Pulse\n\n';
 
+      // Only sectors with a few tokens; one coin's move isn't a sector rotation
+      const ranked = sectors.filter(s => s.sector !== 'other' && s.tokens >= 2);
+      if (ranked.length > 0) {
+        const describe = (s: SectorStats) =>
+          `${s.label} ${s.return24h > 0 ? '+' : ''}${s.return24h.toFixed(1)}% (${(s.volumeShare * 100).toFixed(0)}% of volume; ${s.leaders.join(', ')})`;
+        brief += `Sector leaders: ${ranked.slice(0, 2).map(describe).join(', ')}\n`;
+        if (ranked.length > 2) brief += `Sector laggard: ${describe(ranked[ranked.length - 1])}\n`;
+        brief += `\n`;
+      }
+
       for (let i = 0; i < topTokens.length; i++) {
         const token = topTokens[i];
         const context = contexts[i];
 
         const emoji = token.priceChange24h > 0 ? '📈' : '📉';
-        brief += `${emoji} ${token.symbol}\n`;
+        brief += `${emoji} ${token.symbol}${token.sector ? ` (${sectorLabel(token.sector)})` : ''}\n`;
         brief += `Price: $${token.price.toFixed(4)}\n`;
         brief += `24h: ${token.priceChange24h > 0 ? '+' : ''}${token.priceChange24h.toFixed(1)}%\n`;
         brief += `Volume: $${(token.volume24h / 1000000).toFixed(1)}M\n`;
+        for (const note of marketStructureNotes(token)) brief += `${note}\n`;
 
         // Weight themes by account influence
         if (context.themes.length > 0) {
@@ -75,34 +91,24 @@ export class IntelligenceComposer {
       const techInsights = await ragEngine.getTechnicalInsights(token.symbol);
 
       // Get narrative context
-      const narrative = await ragEngine.getNarrativeContext(token.symbol);
+      const narrative = await ragEngine.getNarrativeContext(`${token.symbol} ${sectorNarrative(token)}`);
 
       // Compose analysis
       const prompt = `Based on this data, write a research tweet about ${token.symbol} (2-3 sentences):
 
+Sector: ${sectorLabel(token.sector)}
 Price: $${token.price.toFixed(4)}
 24h Change: ${token.priceChange24h > 0 ? '+' : ''}${token.priceChange24h.toFixed(1)}%
 Volume: $${(token.volume24h / 1000000).toFixed(1)}M
+${marketStructureNotes(token).join('\n')}
 Smart money sentiment: ${smMoney}
 Technical themes: ${techInsights.join(', ')}
 Narrative: ${narrative.summary}
 
 Write original analysis combining these signals. Mention both opportunity and risk.`;
 
-      const message = await anthropic.messages.create({
-        model: 'claude-haiku-4-20250514',
-        max_tokens: 280,
-        messages: [
-          {
-            role: 'user',
-            content: prompt
-          }
-        ]
-      });
-
-      const tweet =
-        message.content[0].type === 'text' ? message.content[0].text : '';
-      return tweet.slice(0, 280);
+      const draft = await llm.completeJSON('composition', prompt, TWEET_DRAFT, { maxTokens: 300 });
+      return draft.text;
     } catch (error: any) {
       logger.error('Token analysis failed', error.message);
       return '';
@@ -119,22 +125,10 @@ Write original analysis combining these signals. Mention both opportunity and ri
 
       const prompt = `Based on this market brief, write a concise research tweet that ${tone}. Use data-backed insights. Max 280 characters.
 
-${brief}
-
-Tweet:`;
-
-      const message = await anthropic.messages.create({
-        model: 'claude-haiku-4-20250514',
-        max_tokens: 100,
-        messages: [
-          {
-            role: 'user',
-            content: prompt
-          }
-        ]
-      });
+${brief}`;
 
-      return message.content[0].type === 'text' ? message.content[0].text : '';
+      const draft = await llm.completeJSON('composition', prompt, TWEET_DRAFT, { maxTokens: 150 });
+      return draft.text;
     } catch (error: any) {
       logger.error('Brief composition failed', error.message);
       return '';
@@ -171,18 +165,8 @@ ${knowledgeBase}
 
 Write a research-focused reply that sounds authoritative and informed. Use data where relevant. Max 280 characters.`;
 
-      const message = await anthropic.messages.create({
-        model: 'claude-haiku-4-20250514',
-        max_tokens: 100,
-        messages: [
-          {
-            role: 'user',
-            content: prompt
-          }
-        ]
-      });
-
-      return (message.content[0].type === 'text' ? message.content[0].text : '').slice(0, 280);
+      const draft = await llm.completeJSON('reply', prompt, TWEET_DRAFT, { maxTokens: 150 });
+      return draft.text;
     } catch (error: any) {
       logger.error('Reply composition failed', error.message);
       return '';
@@ -1,4 +1,6 @@
 import { vectorDB } from './vectordb.js';
+import { entityKeys } from './entity-extractor.js';
+import { topicRegistry } from './topic-taxonomy.js';
 import { logger } from '../shared/logger.js';
 
 export interface ConsensusSignal {
@@ -20,7 +22,7 @@ export class ConsensusSignals {
     try {
       logger.info(`Detecting consensus signals for: ${query}`);
 
-      // Get tweets matching query from timeframe
+      // Get tweets matching query from timeframe (resolved through the topic taxonomy)
       const tweets = await vectorDB.getTweetsByTopic(query);
       const timeWindow = timeWindowHours * 60 * 60 * 1000;
       const cutoff = Date.now() - timeWindow;
@@ -54,7 +56,15 @@ export class ConsensusSignals {
         const accountCredibility = await this.getAccountCredibility(handle);
 
         for (const tweet of tweets) {
-          for (const theme of tweet.topics || []) {
+          // Canonical entities ($PEPE, solana) group tweets the LLM tagged inconsistently;
+          // a 'restaking' tweet also counts towards its parent 'ethereum'
+          const topics: string[] = tweet.topics || [];
+          const themes = new Set([
+            ...topics,
+            ...topics.flatMap(t => topicRegistry.ancestors(t)),
+            ...entityKeys(tweet)
+          ]);
+          for (const theme of themes) {
             if (!narrativeMap.has(theme)) {
               narrativeMap.set(theme, {
                 accounts: [],
@@ -168,7 +178,7 @@ export class ConsensusSignals {
           const tweets = await vectorDB.getTweetsByAccount(account.handle);
           for (const tweet of tweets.slice(0, 5)) {
             // Last 5 tweets per account
-            for (const topic of tweet.topics || []) {
+            for (const topic of [...(tweet.topics || []), ...entityKeys(tweet)]) {
               topics.add(topic);
             }
           }
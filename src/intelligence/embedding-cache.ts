@@ -0,0 +1,166 @@
+import Database from 'better-sqlite3';
+import { createHash } from 'crypto';
+import { logger } from '../shared/logger.js';
+
+// Embeddings are stored as raw float32 blobs (6KB per 1536-d vector)
+export function encodeEmbedding(embedding: number[]): Buffer | null {
+  if (!embedding || embedding.length === 0) return null;
+  return Buffer.from(new Float32Array(embedding).buffer);
+}
+
+export function decodeEmbedding(blob: Buffer | null): number[] {
+  if (!blob) return [];
+  return Array.from(new Float32Array(blob.buffer, blob.byteOffset, blob.byteLength / 4));
+}
+
+// Whitespace and unicode variants of the same tweet share one cache entry
+export function normalizeForEmbedding(text: string): string {
+  return text.normalize('NFKC').replace(/\s+/g, ' ').trim();
+}
+
+export function hashText(text: string): string {
+  return createHash('sha256').update(normalizeForEmbedding(text)).digest('hex');
+}
+
+/**
+ * EmbeddingCache - disk-backed embedding cache (SQLite)
+ * Keyed by sha256(normalized text) + model id, evicts least recently used rows
+ */
+export class EmbeddingCache {
+  private db: Database.Database;
+  private size: number;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    path: string = 'deciresearch.db',
+    private maxEntries: number = parseInt(process.env.EMBEDDING_CACHE_MAX_ENTRIES || '50000')
+  ) {
+    this.db = new Database(path);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS embedding_cache (
+        text_hash TEXT NOT NULL,
+        model TEXT NOT NULL,
+        dim INTEGER NOT NULL,
+        embedding BLOB NOT NULL,
+        created_at INTEGER,
+        last_accessed INTEGER,
+        PRIMARY KEY (text_hash, model)
+      );
+      CREATE INDEX IF NOT EXISTS idx_embedding_cache_accessed ON embedding_cache(last_accessed);
+    `);
+
+    this.size = (this.db.prepare('SELECT COUNT(*) AS n FROM embedding_cache').get() as { n: number }).n;
+  }
+
+  get(text: string, model: string): number[] | null {
+    return this.getMany([text], model)[0];
+  }
+
+  // Bulk lookup; result is index-aligned with `texts`, null for misses
+  getMany(texts: string[], model: string): (number[] | null)[] {
+    if (texts.length === 0) return [];
+
+    const hashes = texts.map(hashText);
+    const unique = Array.from(new Set(hashes));
+    const found = new Map<string, number[]>();
+
+    // Stay under SQLite's bound-parameter limit
+    for (let i = 0; i < unique.length; i += 500) {
+      const chunk = unique.slice(i, i + 500);
+      const rows = this.db
+        .prepare(`
+          SELECT text_hash, embedding FROM embedding_cache
+          WHERE model = ? AND text_hash IN (${chunk.map(() => '?').join(',')})
+        `)
+        .all(model, ...chunk) as { text_hash: string; embedding: Buffer }[];
+
+      for (const row of rows) {
+        found.set(row.text_hash, decodeEmbedding(row.embedding));
+      }
+    }
+
+    if (found.size > 0) {
+      const touch = this.db.prepare(
+        'UPDATE embedding_cache SET last_accessed = ? WHERE text_hash = ? AND model = ?'
+      );
+      const now = Date.now();
+      this.db.transaction(() => {
+        for (const hash of found.keys()) touch.run(now, hash, model);
+      })();
+    }
+
+    return hashes.map(hash => {
+      const embedding = found.get(hash) || null;
+      if (embedding) this.hits++;
+      else this.misses++;
+      return embedding;
+    });
+  }
+
+  set(text: string, model: string, embedding: number[]) {
+    this.setMany([text], model, [embedding]);
+  }
+
+  setMany(texts: string[], model: string, embeddings: number[][]) {
+    const insert = this.db.prepare(`
+      INSERT INTO embedding_cache (text_hash, model, dim, embedding, created_at, last_accessed)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(text_hash, model) DO UPDATE SET
+        embedding = excluded.embedding,
+        dim = excluded.dim,
+        last_accessed = excluded.last_accessed
+    `);
+    const exists = this.db.prepare('SELECT 1 FROM embedding_cache WHERE text_hash = ? AND model = ?');
+
+    const now = Date.now();
+    let added = 0;
+    this.db.transaction(() => {
+      for (let i = 0; i < texts.length; i++) {
+        const embedding = embeddings[i];
+        if (!embedding || embedding.length === 0) continue;
+
+        const hash = hashText(texts[i]);
+        const existed = exists.get(hash, model);
+        insert.run(hash, model, embedding.length, encodeEmbedding(embedding), now, now);
+        if (!existed) added++;
+      }
+    })();
+
+    this.size += added;
+    this.evict();
+  }
+
+  // Drop least recently used rows once the cache is over its bound
+  private evict() {
+    const excess = this.size - this.maxEntries;
+    if (excess <= 0) return;
+
+    const result = this.db
+      .prepare(`
+        DELETE FROM embedding_cache WHERE rowid IN (
+          SELECT rowid FROM embedding_cache ORDER BY last_accessed ASC LIMIT ?
+        )
+      `)
+      .run(excess);
+
+    this.size -= result.changes;
+    logger.info(`Evicted ${result.changes} embeddings from cache`);
+  }
+
+  clear() {
+    this.db.exec('DELETE FROM embedding_cache');
+    this.size = 0;
+  }
+
+  getStats() {
+    const lookups = this.hits + this.misses;
+    return {
+      entries: this.size,
+      maxEntries: this.maxEntries,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0
+    };
+  }
+}
@@ -0,0 +1,134 @@
+import OpenAI from 'openai';
+import { createHash } from 'crypto';
+import { logger } from '../shared/logger.js';
+
+/**
+ * EmbeddingProvider - turns text into fixed-size vectors
+ * `id` is stored with every vector so rows from different models are never compared
+ */
+export interface EmbeddingProvider {
+  readonly id: string; // e.g. 'openai:text-embedding-3-small'
+  readonly dimensions: number;
+  readonly maxBatchSize: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * OpenAI text-embedding-3-small (1536d)
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly dimensions = 1536;
+  readonly maxBatchSize = 25;
+  private client: OpenAI | null = null;
+
+  constructor(private model: string = 'text-embedding-3-small') {
+    this.id = `openai:${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    // Created lazily so importing this module never requires OPENAI_API_KEY
+    if (!this.client) {
+      if (!process.env.OPENAI_API_KEY) throw new Error('OPENAI_API_KEY not set');
+      this.client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    }
+
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: texts,
+      encoding_format: 'float'
+    });
+
+    return response.data.map(d => d.embedding);
+  }
+}
+
+/**
+ * On-CPU MiniLM via transformers.js (384d)
+ * Requires the optional @huggingface/transformers package; weights download on first use
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly dimensions = 384;
+  readonly maxBatchSize = 32;
+  private extractor: any = null;
+
+  constructor(private model: string = 'Xenova/all-MiniLM-L6-v2') {
+    this.id = `local:${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (!this.extractor) {
+      // Variable specifier keeps the package optional at compile time
+      const moduleName = '@huggingface/transformers';
+      const { pipeline } = await import(moduleName);
+      this.extractor = await pipeline('feature-extraction', this.model);
+      logger.info(`Loaded local embedding model ${this.model}`);
+    }
+
+    const output = await this.extractor(texts, { pooling: 'mean', normalize: true });
+    return output.tolist() as number[][];
+  }
+}
+
+/**
+ * Hashed character n-grams + word unigrams (deterministic, no network)
+ * For tests and offline runs only (EMBEDDING_PROVIDER=hashed); never a silent fallback
+ */
+export class HashedNgramProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly maxBatchSize = 1000;
+
+  constructor(readonly dimensions: number = 384, private n: number = 3) {
+    this.id = `hashed:ngram${n}-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array(this.dimensions).fill(0);
+    const normalized = text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+    const features: string[] = normalized.split(' ').filter(w => w.length > 0);
+    const padded = ` ${normalized} `;
+    for (let i = 0; i + this.n <= padded.length; i++) {
+      features.push(padded.slice(i, i + this.n));
+    }
+
+    for (const feature of features) {
+      const digest = createHash('md5').update(feature).digest();
+      const bucket = digest.readUInt32LE(0) % this.dimensions;
+      const sign = digest[4] & 1 ? 1 : -1;
+      vector[bucket] += sign;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map(v => v / norm);
+  }
+}
+
+/**
+ * Pick a provider from EMBEDDING_PROVIDER ('openai' | 'local' | 'hashed'),
+ * OpenAI by default. Without OPENAI_API_KEY every OpenAI embedding fails and
+ * tweets are stored as 'failed' for re-embedding, rather than getting
+ * low-quality hashed vectors in the live store.
+ */
+export function createEmbeddingProvider(
+  name: string | undefined = process.env.EMBEDDING_PROVIDER
+): EmbeddingProvider {
+  switch (name || 'openai') {
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) {
+        logger.error('OPENAI_API_KEY not set: embeddings will fail (set EMBEDDING_PROVIDER=hashed for offline runs)');
+      }
+      return new OpenAIEmbeddingProvider();
+    case 'local':
+      return new LocalEmbeddingProvider();
+    case 'hashed':
+      return new HashedNgramProvider();
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${name}", expected openai, local or hashed`);
+  }
+}
@@ -1,104 +1,68 @@
-import OpenAI from 'openai';
 import { logger } from '../shared/logger.js';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-});
+import { EmbeddingProvider, createEmbeddingProvider } from './embedding-providers.js';
+import { EmbeddingCache } from './embedding-cache.js';
 
 export class EmbeddingsService {
-  private cache: Map<string, number[]> = new Map();
-  private cacheTTL = 24 * 60 * 60 * 1000; // 24 hours
-  private cacheTimestamps: Map<string, number> = new Map();
-
-  async embedText(text: string): Promise<number[]> {
-    // Check cache first
-    const cached = this.getFromCache(text);
-    if (cached) {
-      logger.info('Using cached embedding');
-      return cached;
-    }
+  constructor(
+    private provider: EmbeddingProvider = createEmbeddingProvider(),
+    private cache: EmbeddingCache = new EmbeddingCache()
+  ) {}
+
+  // Stored alongside every vector; only vectors with the same id are comparable
+  get modelId(): string {
+    return this.provider.id;
+  }
 
-    try {
-      const response = await openai.embeddings.create({
-        model: 'text-embedding-3-small',
-        input: text,
-        encoding_format: 'float'
-      });
+  get dimensions(): number {
+    return this.provider.dimensions;
+  }
 
-      const embedding = response.data[0].embedding;
+  // Returns null on failure so callers can mark the row for re-embedding
+  async embedText(text: string): Promise<number[] | null> {
+    const [embedding] = await this.embedBatch([text]);
+    return embedding;
+  }
 
-      // Cache for future use
-      this.cache.set(text, embedding);
-      this.cacheTimestamps.set(text, Date.now());
+  async embedBatch(texts: string[]): Promise<(number[] | null)[]> {
+    // Warm up from the disk cache in one lookup
+    const results = this.lookupCache(texts);
 
-      logger.info('Generated embedding via OpenAI');
-      return embedding;
-    } catch (error: any) {
-      logger.error('Failed to generate embedding', error.message);
-      // Fallback to dummy embedding
-      return this.getDummyEmbedding();
+    const uncachedTexts: string[] = [];
+    const uncachedIndices: number[] = [];
+    for (let i = 0; i < texts.length; i++) {
+      if (!results[i]) {
+        uncachedTexts.push(texts[i]);
+        uncachedIndices.push(i);
+      }
     }
-  }
 
-  async embedBatch(texts: string[]): Promise<number[][]> {
-    try {
-      const uncachedTexts: string[] = [];
-      const uncachedIndices: number[] = [];
-      const results: (number[] | null)[] = new Array(texts.length).fill(null);
-
-      // Check cache for each text
-      for (let i = 0; i < texts.length; i++) {
-        const cached = this.getFromCache(texts[i]);
-        if (cached) {
-          results[i] = cached;
-        } else {
-          uncachedTexts.push(texts[i]);
-          uncachedIndices.push(i);
-        }
-      }
+    // If all cached, return immediately
+    if (uncachedTexts.length === 0) {
+      return results;
+    }
 
-      // If all cached, return immediately
-      if (uncachedTexts.length === 0) {
-        return results as number[][];
-      }
+    // Batch embed uncached texts within the provider's request limit
+    const batchSize = this.provider.maxBatchSize;
+    for (let i = 0; i < uncachedTexts.length; i += batchSize) {
+      const batch = uncachedTexts.slice(i, i + batchSize);
+      const batchIndices = uncachedIndices.slice(i, i + batchSize);
 
-      // Batch embed uncached texts (max 25 per request)
-      const batchSize = 25;
-      for (let i = 0; i < uncachedTexts.length; i += batchSize) {
-        const batch = uncachedTexts.slice(i, i + batchSize);
-        const batchIndices = uncachedIndices.slice(i, i + batchSize);
-
-        try {
-          const response = await openai.embeddings.create({
-            model: 'text-embedding-3-small',
-            input: batch,
-            encoding_format: 'float'
-          });
-
-          for (let j = 0; j < response.data.length; j++) {
-            const embedding = response.data[j].embedding;
-            results[batchIndices[j]] = embedding;
-
-            // Cache it
-            this.cache.set(batch[j], embedding);
-            this.cacheTimestamps.set(batch[j], Date.now());
-          }
-
-          logger.info(`Embedded batch of ${batch.length} texts`);
-        } catch (error: any) {
-          logger.error('Failed to embed batch', error.message);
-          // Use dummy embeddings for failed batch
-          for (const idx of batchIndices) {
-            results[idx] = this.getDummyEmbedding();
-          }
+      try {
+        const embeddings = await this.provider.embed(batch);
+
+        for (let j = 0; j < embeddings.length; j++) {
+          results[batchIndices[j]] = embeddings[j];
         }
-      }
 
-      return results as number[][];
-    } catch (error: any) {
-      logger.error('Batch embedding failed', error.message);
-      return texts.map(() => this.getDummyEmbedding());
+        this.storeInCache(batch, embeddings);
+        logger.info(`Generated ${batch.length} embeddings via ${this.provider.id}`);
+      } catch (error: any) {
+        // Failed entries stay null
+        logger.error('Failed to generate embeddings', error.message);
+      }
     }
+
+    return results;
   }
 
   // Calculate similarity between two embeddings (cosine similarity)
@@ -140,55 +104,47 @@ export class EmbeddingsService {
       .slice(0, topK);
   }
 
-  // Clear old cache entries
-  cleanupCache() {
-    const now = Date.now();
-    let cleaned = 0;
-
-    for (const [text, timestamp] of this.cacheTimestamps.entries()) {
-      if (now - timestamp > this.cacheTTL) {
-        this.cache.delete(text);
-        this.cacheTimestamps.delete(text);
-        cleaned++;
-      }
-    }
-
-    if (cleaned > 0) {
-      logger.info(`Cleaned up ${cleaned} old embeddings from cache`);
+  // Cache failures should never block embedding
+  private lookupCache(texts: string[]): (number[] | null)[] {
+    try {
+      return this.cache.getMany(texts, this.provider.id);
+    } catch (error: any) {
+      logger.warn('Embedding cache lookup failed', error.message);
+      return new Array(texts.length).fill(null);
     }
   }
 
-  private getFromCache(text: string): number[] | null {
-    const cached = this.cache.get(text);
-    if (!cached) return null;
-
-    const timestamp = this.cacheTimestamps.get(text);
-    if (!timestamp || Date.now() - timestamp > this.cacheTTL) {
-      this.cache.delete(text);
-      this.cacheTimestamps.delete(text);
-      return null;
+  private storeInCache(texts: string[], embeddings: number[][]) {
+    try {
+      this.cache.setMany(texts, this.provider.id, embeddings);
+    } catch (error: any) {
+      logger.warn('Embedding cache write failed', error.message);
     }
-
-    return cached;
-  }
-
-  private getDummyEmbedding(): number[] {
-    // Fallback: return dummy vector (all zeros)
-    // In production, this should rarely happen
-    return Array(1536).fill(0);
   }
 
   getStatus() {
     return {
-      cacheSize: this.cache.size,
-      entries: Array.from(this.cache.entries()).map(([text, _]) => text.substring(0, 50) + '...')
+      provider: this.provider.id,
+      dimensions: this.provider.dimensions,
+      cache: this.cache.getStats()
     };
   }
 }
 
 export const embeddingsService = new EmbeddingsService();
 
-// Cleanup old embeddings every hour
-setInterval(() => {
-  embeddingsService.cleanupCache();
-}, 60 * 60 * 1000);
+// Top-k cosine ranking; items with missing or mismatched embeddings are skipped
+export function rankBySimilarity<T extends { embedding: number[] }>(
+  queryEmbedding: number[],
+  items: T[],
+  limit: number
+): (T & { similarity: number })[] {
+  return items
+    .filter(item => item.embedding.length === queryEmbedding.length)
+    .map(item => ({
+      ...item,
+      similarity: embeddingsService.calculateSimilarity(queryEmbedding, item.embedding)
+    }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+}
@@ -0,0 +1,78 @@
+// Canonical chains and protocols recognised by the entity extractor.
+// Keys are canonical ids (stored on tweets); aliases are matched case-insensitively
+// on word boundaries. Keep aliases specific: a bare ticker like "eth" or "sol" is
+// captured as a cashtag/symbol instead, and only used here to resolve topic strings.
+
+export interface ChainEntry {
+  name: string;
+  aliases: string[];
+  symbol?: string; // native token, resolves topic strings like "sol"
+}
+
+export interface ProtocolEntry {
+  name: string;
+  aliases: string[];
+  chains?: string[];
+}
+
+export const CHAINS: Record<string, ChainEntry> = {
+  bitcoin: { name: 'Bitcoin', aliases: ['bitcoin'], symbol: 'BTC' },
+  ethereum: { name: 'Ethereum', aliases: ['ethereum', 'eth mainnet', 'l1 ethereum'], symbol: 'ETH' },
+  solana: { name: 'Solana', aliases: ['solana'], symbol: 'SOL' },
+  base: { name: 'Base', aliases: ['base chain', 'base l2', 'base network', 'base mainnet'] },
+  arbitrum: { name: 'Arbitrum', aliases: ['arbitrum', 'arb one'], symbol: 'ARB' },
+  optimism: { name: 'Optimism', aliases: ['optimism', 'op mainnet'], symbol: 'OP' },
+  polygon: { name: 'Polygon', aliases: ['polygon', 'matic'], symbol: 'POL' },
+  bnb: { name: 'BNB Chain', aliases: ['bnb chain', 'bsc', 'binance smart chain'], symbol: 'BNB' },
+  avalanche: { name: 'Avalanche', aliases: ['avalanche'], symbol: 'AVAX' },
+  sui: { name: 'Sui', aliases: ['sui network'], symbol: 'SUI' },
+  aptos: { name: 'Aptos', aliases: ['aptos'], symbol: 'APT' },
+  ton: { name: 'TON', aliases: ['the open network', 'ton blockchain'], symbol: 'TON' },
+  tron: { name: 'Tron', aliases: ['tron'], symbol: 'TRX' },
+  near: { name: 'NEAR', aliases: ['near protocol'], symbol: 'NEAR' },
+  cosmos: { name: 'Cosmos', aliases: ['cosmos', 'cosmos hub'], symbol: 'ATOM' },
+  celestia: { name: 'Celestia', aliases: ['celestia'], symbol: 'TIA' },
+  hyperliquid: { name: 'Hyperliquid', aliases: ['hyperliquid', 'hyperevm'], symbol: 'HYPE' },
+  blast: { name: 'Blast', aliases: ['blast l2'] },
+  zksync: { name: 'zkSync', aliases: ['zksync', 'zk sync'], symbol: 'ZK' },
+  starknet: { name: 'Starknet', aliases: ['starknet'], symbol: 'STRK' },
+  linea: { name: 'Linea', aliases: ['linea'] },
+  scroll: { name: 'Scroll', aliases: ['scroll l2', 'scroll zkevm'] },
+  mantle: { name: 'Mantle', aliases: ['mantle network'], symbol: 'MNT' },
+  sei: { name: 'Sei', aliases: ['sei network'], symbol: 'SEI' },
+  monad: { name: 'Monad', aliases: ['monad'] },
+  berachain: { name: 'Berachain', aliases: ['berachain'], symbol: 'BERA' }
+};
+
+export const PROTOCOLS: Record<string, ProtocolEntry> = {
+  uniswap: { name: 'Uniswap', aliases: ['uniswap', 'uni v3', 'uni v4'], chains: ['ethereum'] },
+  aave: { name: 'Aave', aliases: ['aave'], chains: ['ethereum'] },
+  lido: { name: 'Lido', aliases: ['lido', 'steth'], chains: ['ethereum'] },
+  eigenlayer: { name: 'EigenLayer', aliases: ['eigenlayer', 'eigen layer'], chains: ['ethereum'] },
+  symbiotic: { name: 'Symbiotic', aliases: ['symbiotic'], chains: ['ethereum'] },
+  pendle: { name: 'Pendle', aliases: ['pendle'], chains: ['ethereum', 'arbitrum'] },
+  maker: { name: 'Sky (Maker)', aliases: ['makerdao', 'maker dao', 'sky protocol'], chains: ['ethereum'] },
+  curve: { name: 'Curve', aliases: ['curve finance', 'curve pool'], chains: ['ethereum'] },
+  ethena: { name: 'Ethena', aliases: ['ethena', 'usde'], chains: ['ethereum'] },
+  morpho: { name: 'Morpho', aliases: ['morpho'], chains: ['ethereum', 'base'] },
+  compound: { name: 'Compound', aliases: ['compound finance'], chains: ['ethereum'] },
+  chainlink: { name: 'Chainlink', aliases: ['chainlink'] },
+  gmx: { name: 'GMX', aliases: ['gmx'], chains: ['arbitrum'] },
+  dydx: { name: 'dYdX', aliases: ['dydx'] },
+  jupiter: { name: 'Jupiter', aliases: ['jupiter exchange', 'jup ag', 'jupiter dex'], chains: ['solana'] },
+  raydium: { name: 'Raydium', aliases: ['raydium'], chains: ['solana'] },
+  jito: { name: 'Jito', aliases: ['jito'], chains: ['solana'] },
+  kamino: { name: 'Kamino', aliases: ['kamino'], chains: ['solana'] },
+  drift: { name: 'Drift', aliases: ['drift protocol'], chains: ['solana'] },
+  marinade: { name: 'Marinade', aliases: ['marinade'], chains: ['solana'] },
+  pumpfun: { name: 'pump.fun', aliases: ['pump.fun', 'pumpfun', 'pump fun'], chains: ['solana'] },
+  aerodrome: { name: 'Aerodrome', aliases: ['aerodrome'], chains: ['base'] },
+  polymarket: { name: 'Polymarket', aliases: ['polymarket'], chains: ['polygon'] },
+  opensea: { name: 'OpenSea', aliases: ['opensea'] },
+  blur: { name: 'Blur', aliases: ['blur marketplace'] },
+  farcaster: { name: 'Farcaster', aliases: ['farcaster', 'warpcast'], chains: ['base'] },
+  virtuals: { name: 'Virtuals', aliases: ['virtuals protocol', 'virtuals'], chains: ['base'] },
+  elizaos: { name: 'ElizaOS', aliases: ['elizaos', 'ai16z'], chains: ['solana'] },
+  tether: { name: 'Tether', aliases: ['tether'] },
+  circle: { name: 'Circle', aliases: ['circle usdc'] }
+};
@@ -0,0 +1,127 @@
+import { TweetEntities } from './types.js';
+import { CHAINS, PROTOCOLS } from './entity-dictionary.js';
+
+export type EntityField = keyof TweetEntities;
+
+export const ENTITY_FIELDS: EntityField[] = ['symbols', 'addresses', 'chains', 'protocols', 'mentions'];
+
+const CASHTAG = /(?<![\w$])\$([A-Za-z][A-Za-z0-9]{0,9})(?![\w])/g;
+const EVM_ADDRESS = /(?<![0-9a-zA-Z])0x[a-fA-F0-9]{40}(?![0-9a-zA-Z])/g;
+const SOLANA_ADDRESS = /(?<![0-9a-zA-Z])[1-9A-HJ-NP-Za-km-z]{32,44}(?![0-9a-zA-Z])/g;
+const MENTION = /(?<![\w@])@([A-Za-z0-9_]{1,15})(?![\w])/g;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// alias -> canonical id, compiled once with word boundaries
+function compileAliases(
+  entries: Record<string, { aliases: string[] }>
+): { id: string; pattern: RegExp }[] {
+  const compiled: { id: string; pattern: RegExp }[] = [];
+  for (const [id, entry] of Object.entries(entries)) {
+    for (const alias of entry.aliases) {
+      compiled.push({
+        id,
+        pattern: new RegExp(`(?<![a-z0-9])${escapeRegExp(alias)}(?![a-z0-9])`, 'i')
+      });
+    }
+  }
+  return compiled;
+}
+
+const CHAIN_PATTERNS = compileAliases(CHAINS);
+const PROTOCOL_PATTERNS = compileAliases(PROTOCOLS);
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
+
+function matchDictionary(text: string, patterns: { id: string; pattern: RegExp }[]): string[] {
+  return unique(patterns.filter(p => p.pattern.test(text)).map(p => p.id));
+}
+
+// Base58 runs without digits or mixed case are almost always ordinary words
+function looksLikeSolanaAddress(value: string): boolean {
+  return /\d/.test(value) && /[a-z]/.test(value) && /[A-Z]/.test(value);
+}
+
+export function emptyEntities(): TweetEntities {
+  return { symbols: [], addresses: [], chains: [], protocols: [], mentions: [] };
+}
+
+/**
+ * Deterministic entity extraction for tweet text (no LLM).
+ * Cashtags, EVM/Solana addresses, @handles, and chain/protocol names from entity-dictionary.ts
+ */
+export function extractEntities(text: string): TweetEntities {
+  if (!text) return emptyEntities();
+
+  // URLs would otherwise leak path segments into the address matcher
+  const clean = text.replace(/https?:\/\/\S+/g, ' ');
+
+  const symbols = unique(Array.from(clean.matchAll(CASHTAG), m => m[1].toUpperCase()));
+  const mentions = unique(Array.from(clean.matchAll(MENTION), m => m[1].toLowerCase()));
+  const evm = Array.from(clean.matchAll(EVM_ADDRESS), m => m[0].toLowerCase());
+  const solana = Array.from(clean.matchAll(SOLANA_ADDRESS), m => m[0]).filter(looksLikeSolanaAddress);
+
+  return {
+    symbols,
+    addresses: unique([...evm, ...solana]),
+    chains: matchDictionary(clean, CHAIN_PATTERNS),
+    protocols: matchDictionary(clean, PROTOCOL_PATTERNS),
+    mentions
+  };
+}
+
+/**
+ * Map a free-text topic ("sol", "solana ecosystem", "$PEPE", "@cobie") to the
+ * canonical entities it names, empty if it isn't one we track. A chain also
+ * names its native token: "SOL" matches tweets tagged solana or $SOL.
+ */
+export function resolveEntities(topic: string): { field: EntityField; value: string }[] {
+  const raw = topic.trim();
+  if (!raw) return [];
+
+  if (/^0x[a-fA-F0-9]{40}$/.test(raw)) return [{ field: 'addresses', value: raw.toLowerCase() }];
+  if (/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(raw) && looksLikeSolanaAddress(raw)) {
+    return [{ field: 'addresses', value: raw }];
+  }
+  if (/^@[A-Za-z0-9_]{1,15}$/.test(raw)) return [{ field: 'mentions', value: raw.slice(1).toLowerCase() }];
+  if (/^\$[A-Za-z][A-Za-z0-9]{0,9}$/.test(raw)) return [{ field: 'symbols', value: raw.slice(1).toUpperCase() }];
+
+  const normalized = raw
+    .toLowerCase()
+    .replace(/\s+(ecosystem|chain|network|protocol|l1|l2)$/, '')
+    .trim();
+
+  for (const [id, chain] of Object.entries(CHAINS)) {
+    if (id === normalized || chain.aliases.includes(normalized) || chain.symbol?.toLowerCase() === normalized) {
+      const chainEntity = { field: 'chains' as const, value: id };
+      return chain.symbol ? [chainEntity, { field: 'symbols', value: chain.symbol }] : [chainEntity];
+    }
+  }
+
+  for (const [id, protocol] of Object.entries(PROTOCOLS)) {
+    if (id === normalized || protocol.aliases.includes(normalized)) {
+      return [{ field: 'protocols', value: id }];
+    }
+  }
+
+  // An all-caps word is a ticker ("PEPE"); lowercase LLM topics are left alone
+  if (/^[A-Z][A-Z0-9]{1,9}$/.test(raw)) return [{ field: 'symbols', value: raw }];
+
+  return [];
+}
+
+/**
+ * Canonical entity labels for grouping tweets by what they talk about:
+ * '$PEPE' for symbols, canonical ids for chains and protocols
+ */
+export function entityKeys(entities: Partial<TweetEntities>): string[] {
+  return unique([
+    ...(entities.symbols || []).map(s => `$${s}`),
+    ...(entities.chains || []),
+    ...(entities.protocols || [])
+  ]);
+}
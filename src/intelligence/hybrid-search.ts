@@ -0,0 +1,232 @@
+import { StoredTweet, ScoredTweet } from './types.js';
+import { vectorDB } from './vectordb.js';
+
+export interface HybridSearchConfig {
+  fusion: 'rrf' | 'weighted'; // weighted = linear blend of max-normalized scores
+  rrfK: number;
+  vectorWeight: number;
+  lexicalWeight: number;
+  candidatePool: number; // candidates per retriever (and per query term)
+  maxQueryTerms: number;
+  bm25K1: number;
+  bm25B: number;
+  recencyHalfLifeHours: number;
+  recencyWeight: number; // 0 = ignore age, 1 = score fully follows the decay curve
+  credibilityWeight: number; // 0 = ignore author, 1 = score scales with credibilityScore
+}
+
+const DEFAULT_CONFIG: HybridSearchConfig = {
+  fusion: process.env.RAG_FUSION === 'weighted' ? 'weighted' : 'rrf',
+  rrfK: 60,
+  vectorWeight: 1,
+  lexicalWeight: 1,
+  candidatePool: 50,
+  maxQueryTerms: 6,
+  bm25K1: 1.2,
+  bm25B: 0.75,
+  recencyHalfLifeHours: 72,
+  recencyWeight: 0.3,
+  credibilityWeight: 0.3
+};
+
+// Unknown authors are treated as average
+const DEFAULT_CREDIBILITY = 50;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'where', 'who',
+  'why', 'will', 'with', 'about', 'do', 'does', 'saying', 'think'
+]);
+
+/**
+ * Lowercased tokens. Cashtags and mentions keep their prefix and also emit the bare
+ * symbol, so "$PEPE" matches queries for "PEPE" and scores higher for "$PEPE".
+ * Contract addresses survive as single tokens.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const matches = text.toLowerCase().match(/\$[a-z][a-z0-9_]*|[@#][a-z0-9_]+|[a-z0-9_]+/g) || [];
+
+  for (const match of matches) {
+    tokens.push(match);
+    if (/^[$@#]/.test(match)) {
+      tokens.push(match.slice(1));
+    }
+  }
+
+  return tokens;
+}
+
+function queryTokens(query: string): string[] {
+  return Array.from(new Set(tokenize(query))).filter(
+    t => !STOPWORDS.has(t.replace(/^[$@#]/, '')) && t.length > 1
+  );
+}
+
+/**
+ * HybridSearch - lexical (BM25) + vector retrieval with rank fusion,
+ * reranked by recency decay and author credibility
+ */
+export class HybridSearch {
+  private config: HybridSearchConfig;
+
+  constructor(overrides?: Partial<HybridSearchConfig>) {
+    this.config = { ...DEFAULT_CONFIG, ...overrides };
+  }
+
+  getConfig(): HybridSearchConfig {
+    return { ...this.config };
+  }
+
+  // queryEmbedding may be null (embedding failed); lexical results are still returned
+  async search(
+    query: string,
+    queryEmbedding: number[] | null,
+    limit: number = 20,
+    category?: string
+  ): Promise<ScoredTweet[]> {
+    const [vectorHits, lexicalHits] = await Promise.all([
+      queryEmbedding
+        ? vectorDB.semanticSearch(queryEmbedding, this.config.candidatePool, category)
+        : Promise.resolve([] as StoredTweet[]),
+      this.lexicalSearch(query, category)
+    ]);
+
+    const candidates = new Map<string, StoredTweet>();
+    for (const tweet of [...vectorHits, ...lexicalHits.map(h => h.tweet)]) {
+      if (!candidates.has(tweet.id)) candidates.set(tweet.id, tweet);
+    }
+
+    if (candidates.size === 0) return [];
+
+    const vectorRank = new Map(vectorHits.map((t, i) => [t.id, i + 1]));
+    const lexicalRank = new Map(lexicalHits.map((h, i) => [h.tweet.id, i + 1]));
+    const bm25 = new Map(lexicalHits.map(h => [h.tweet.id, h.score]));
+    const similarity = new Map(vectorHits.map(t => [t.id, t.similarity ?? 0]));
+
+    const credibility = await this.authorCredibility(
+      Array.from(new Set(Array.from(candidates.values()).map(t => t.handle)))
+    );
+
+    const maxSimilarity = Math.max(0, ...similarity.values());
+    const maxBm25 = Math.max(0, ...bm25.values());
+    const { vectorWeight, lexicalWeight, rrfK } = this.config;
+    const totalWeight = vectorWeight + lexicalWeight || 1;
+    const now = Date.now();
+
+    const scored = Array.from(candidates.values()).map(tweet => {
+      const vRank = vectorRank.get(tweet.id);
+      const lRank = lexicalRank.get(tweet.id);
+
+      let fused: number;
+      if (this.config.fusion === 'rrf') {
+        // Reciprocal rank fusion, scaled so rank 1 in both lists = 1
+        const raw =
+          (vRank ? vectorWeight / (rrfK + vRank) : 0) +
+          (lRank ? lexicalWeight / (rrfK + lRank) : 0);
+        fused = raw / (totalWeight / (rrfK + 1));
+      } else {
+        const v = maxSimilarity > 0 ? Math.max(0, similarity.get(tweet.id) ?? 0) / maxSimilarity : 0;
+        const l = maxBm25 > 0 ? (bm25.get(tweet.id) ?? 0) / maxBm25 : 0;
+        fused = (vectorWeight * v + lexicalWeight * l) / totalWeight;
+      }
+
+      const ageHours = Math.max(0, now - tweet.timestamp) / (60 * 60 * 1000);
+      const recency = Math.pow(0.5, ageHours / this.config.recencyHalfLifeHours);
+      const authorCredibility = credibility.get(tweet.handle.toLowerCase()) ?? DEFAULT_CREDIBILITY;
+
+      const score =
+        fused *
+        (1 - this.config.recencyWeight + this.config.recencyWeight * recency) *
+        (1 - this.config.credibilityWeight + (this.config.credibilityWeight * authorCredibility) / 100);
+
+      const result: ScoredTweet = {
+        ...tweet,
+        retrieval: {
+          score,
+          fused,
+          vectorRank: vRank,
+          lexicalRank: lRank,
+          bm25: bm25.get(tweet.id),
+          recency,
+          credibility: authorCredibility
+        }
+      };
+      return result;
+    });
+
+    return scored.sort((a, b) => b.retrieval.score - a.retrieval.score).slice(0, limit);
+  }
+
+  /**
+   * BM25 over tweets containing at least one query term.
+   * Each term is fetched separately so rare terms (cashtags, addresses) are never
+   * crowded out, and the per-term match count doubles as its document frequency.
+   */
+  private async lexicalSearch(
+    query: string,
+    category?: string
+  ): Promise<{ tweet: StoredTweet; score: number }[]> {
+    const terms = queryTokens(query);
+    if (terms.length === 0) return [];
+
+    // Substring lookups only need the bare form ('$pepe' contains 'pepe')
+    const lookups = Array.from(new Set(terms.map(t => t.replace(/^[$@#]/, '')))).slice(
+      0,
+      this.config.maxQueryTerms
+    );
+
+    const [corpusSize, ...matches] = await Promise.all([
+      vectorDB.countTweets(category),
+      ...lookups.map(term => vectorDB.searchTweetsByText(term, this.config.candidatePool, category))
+    ]);
+
+    const documentFrequency = new Map<string, number>();
+    const pool = new Map<string, StoredTweet>();
+    lookups.forEach((term, i) => {
+      documentFrequency.set(term, matches[i].total);
+      for (const tweet of matches[i].tweets) pool.set(tweet.id, tweet);
+    });
+
+    if (pool.size === 0) return [];
+
+    const docs = Array.from(pool.values()).map(tweet => ({ tweet, tokens: tokenize(tweet.text) }));
+    const avgLength = docs.reduce((sum, d) => sum + d.tokens.length, 0) / docs.length || 1;
+    const n = Math.max(corpusSize, pool.size);
+    const { bm25K1: k1, bm25B: b } = this.config;
+
+    const scoredTerms = terms.filter(t => documentFrequency.has(t.replace(/^[$@#]/, '')));
+    const idf = new Map(
+      scoredTerms.map(t => {
+        // Prefixed terms share the bare term's frequency (an upper bound)
+        const df = documentFrequency.get(t.replace(/^[$@#]/, '')) || 0;
+        return [t, Math.log(1 + (n - df + 0.5) / (df + 0.5))];
+      })
+    );
+
+    const results = docs.map(({ tweet, tokens }) => {
+      const tf = new Map<string, number>();
+      for (const token of tokens) tf.set(token, (tf.get(token) || 0) + 1);
+
+      let score = 0;
+      for (const term of scoredTerms) {
+        const freq = tf.get(term) || 0;
+        if (freq === 0) continue;
+        score +=
+          (idf.get(term) || 0) *
+          ((freq * (k1 + 1)) / (freq + k1 * (1 - b + (b * tokens.length) / avgLength)));
+      }
+      return { tweet, score };
+    });
+
+    // Substring hits inside longer words ("sol" in "solution") score 0 and drop out
+    return results.filter(r => r.score > 0).sort((a, b) => b.score - a.score);
+  }
+
+  private async authorCredibility(handles: string[]): Promise<Map<string, number>> {
+    const accounts = await vectorDB.getAccountsByHandles(handles);
+    return new Map(accounts.map(a => [a.handle.toLowerCase(), a.credibilityScore]));
+  }
+}
+
+export const hybridSearch = new HybridSearch();
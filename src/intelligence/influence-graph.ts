@@ -0,0 +1,292 @@
+import { StoredTweet } from './types.js';
+import { entityKeys } from './entity-extractor.js';
+
+export type CitationKind = 'mention' | 'reply' | 'quote' | 'retweet';
+
+// A quote puts the cited tweet in front of the quoter's audience with commentary;
+// a bare @mention is the weakest signal
+const CITATION_WEIGHTS: Record<CitationKind, number> = {
+  mention: 1,
+  reply: 1,
+  retweet: 1.5,
+  quote: 2
+};
+
+export interface InboundCitations {
+  byKind: Record<CitationKind, number>;
+  citers: Map<string, number>; // citing handle -> weight
+}
+
+/**
+ * Directed, weighted graph of who cites whom. Handles are lowercase.
+ * Each tweet contributes at most one edge per cited account (its strongest kind).
+ */
+export interface CitationGraph {
+  nodes: string[];
+  edges: Map<string, Map<string, number>>; // from -> to -> weight
+  inbound: Map<string, InboundCitations>;
+}
+
+export interface ConversationStats {
+  tweets: number;
+  started: number; // tweets that drew at least one reply from another account
+  avgDepth: number; // mean reply-chain depth over started threads
+  maxDepth: number;
+  repliers: number; // distinct other accounts replying in their threads
+  avgReplies: number; // public reply count per tweet, including untracked repliers
+}
+
+export interface NarrativeLead {
+  topics: number; // contested topics the account mentioned
+  firstMentions: number; // topics the account mentioned before anyone else
+  avgLeadHours: number; // vs the median first mention of the other accounts
+  leads: { topic: string; leadHours: number }[]; // best leads first
+}
+
+function emptyInbound(): InboundCitations {
+  return { byKind: { mention: 0, reply: 0, retweet: 0, quote: 0 }, citers: new Map() };
+}
+
+function citationsIn(tweet: StoredTweet): Map<string, CitationKind> {
+  const author = tweet.handle.toLowerCase();
+  const cited = new Map<string, CitationKind>();
+
+  const add = (handle: string | undefined, kind: CitationKind) => {
+    if (!handle || handle === author) return;
+    const existing = cited.get(handle);
+    if (!existing || CITATION_WEIGHTS[kind] > CITATION_WEIGHTS[existing]) cited.set(handle, kind);
+  };
+
+  // References first, so a reply that also @mentions its target counts as a reply
+  for (const ref of tweet.references || []) {
+    const kind: CitationKind =
+      ref.type === 'replied_to' ? 'reply' : ref.type === 'quoted' ? 'quote' : 'retweet';
+    add(ref.handle, kind);
+  }
+  for (const mention of tweet.mentions || []) add(mention, 'mention');
+
+  return cited;
+}
+
+export function buildCitationGraph(tweets: StoredTweet[]): CitationGraph {
+  const nodes = new Set<string>();
+  const edges = new Map<string, Map<string, number>>();
+  const inbound = new Map<string, InboundCitations>();
+
+  for (const tweet of tweets) {
+    const from = tweet.handle.toLowerCase();
+    nodes.add(from);
+
+    for (const [to, kind] of citationsIn(tweet)) {
+      nodes.add(to);
+      const weight = CITATION_WEIGHTS[kind];
+
+      const out = edges.get(from) || new Map<string, number>();
+      out.set(to, (out.get(to) || 0) + weight);
+      edges.set(from, out);
+
+      const into = inbound.get(to) || emptyInbound();
+      into.byKind[kind]++;
+      into.citers.set(from, (into.citers.get(from) || 0) + weight);
+      inbound.set(to, into);
+    }
+  }
+
+  return { nodes: Array.from(nodes).sort(), edges, inbound };
+}
+
+/**
+ * Weighted PageRank. Accounts nobody cites keep the teleport baseline;
+ * rank held by accounts that cite nobody is spread evenly.
+ */
+export function pageRank(
+  graph: CitationGraph,
+  damping: number = 0.85,
+  maxIterations: number = 100,
+  tolerance: number = 1e-8
+): Map<string, number> {
+  const n = graph.nodes.length;
+  if (n === 0) return new Map();
+
+  const outWeight = new Map<string, number>();
+  for (const [from, out] of graph.edges) {
+    outWeight.set(from, Array.from(out.values()).reduce((sum, w) => sum + w, 0));
+  }
+
+  let rank = new Map(graph.nodes.map(node => [node, 1 / n]));
+
+  for (let i = 0; i < maxIterations; i++) {
+    let dangling = 0;
+    for (const node of graph.nodes) {
+      if (!outWeight.get(node)) dangling += rank.get(node)!;
+    }
+
+    const base = (1 - damping) / n + (damping * dangling) / n;
+    const next = new Map(graph.nodes.map(node => [node, base]));
+
+    for (const [from, out] of graph.edges) {
+      const share = (damping * rank.get(from)!) / outWeight.get(from)!;
+      for (const [to, weight] of out) {
+        next.set(to, next.get(to)! + share * weight);
+      }
+    }
+
+    let delta = 0;
+    for (const node of graph.nodes) delta += Math.abs(next.get(node)! - rank.get(node)!);
+    rank = next;
+    if (delta < tolerance) break;
+  }
+
+  return rank;
+}
+
+/**
+ * Reply chains among stored tweets. A reply's parent comes from `replied_to`;
+ * when the parent wasn't stored but the thread root was (`conversationId`),
+ * the reply counts as depth 1 under the root.
+ */
+export function conversationStats(tweets: StoredTweet[]): Map<string, ConversationStats> {
+  const byId = new Map(tweets.map(t => [t.tweetId, t]));
+
+  const parentOf = (tweet: StoredTweet): StoredTweet | undefined => {
+    const replyTo = (tweet.references || []).find(r => r.type === 'replied_to');
+    if (!replyTo) return undefined;
+    const parent = byId.get(replyTo.tweetId);
+    if (parent) return parent;
+    return tweet.conversationId && tweet.conversationId !== tweet.tweetId
+      ? byId.get(tweet.conversationId)
+      : undefined;
+  };
+
+  // Depth below the thread root; the visited set guards against malformed cycles
+  const rootAndDepth = (tweet: StoredTweet): { root: StoredTweet; depth: number } => {
+    let current = tweet;
+    let depth = 0;
+    const visited = new Set<string>([tweet.tweetId]);
+    for (let parent = parentOf(current); parent && !visited.has(parent.tweetId); parent = parentOf(current)) {
+      visited.add(parent.tweetId);
+      current = parent;
+      depth++;
+    }
+    return { root: current, depth };
+  };
+
+  const threads = new Map<string, { root: StoredTweet; depth: number; repliers: Set<string> }>();
+  for (const tweet of tweets) {
+    const { root, depth } = rootAndDepth(tweet);
+    if (depth === 0 || root.handle.toLowerCase() === tweet.handle.toLowerCase()) continue;
+
+    const thread = threads.get(root.tweetId) || { root, depth: 0, repliers: new Set<string>() };
+    thread.depth = Math.max(thread.depth, depth);
+    thread.repliers.add(tweet.handle.toLowerCase());
+    threads.set(root.tweetId, thread);
+  }
+
+  const stats = new Map<string, ConversationStats>();
+  const repliersByAuthor = new Map<string, Set<string>>();
+
+  for (const tweet of tweets) {
+    const handle = tweet.handle.toLowerCase();
+    const entry = stats.get(handle) || {
+      tweets: 0,
+      started: 0,
+      avgDepth: 0,
+      maxDepth: 0,
+      repliers: 0,
+      avgReplies: 0
+    };
+    entry.avgReplies = (entry.avgReplies * entry.tweets + (tweet.replies || 0)) / (entry.tweets + 1);
+    entry.tweets++;
+    stats.set(handle, entry);
+  }
+
+  for (const thread of threads.values()) {
+    const handle = thread.root.handle.toLowerCase();
+    const entry = stats.get(handle)!;
+    entry.avgDepth = (entry.avgDepth * entry.started + thread.depth) / (entry.started + 1);
+    entry.started++;
+    entry.maxDepth = Math.max(entry.maxDepth, thread.depth);
+
+    const repliers = repliersByAuthor.get(handle) || new Set<string>();
+    for (const replier of thread.repliers) repliers.add(replier);
+    repliersByAuthor.set(handle, repliers);
+    entry.repliers = repliers.size;
+  }
+
+  return stats;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * How far ahead of the pack each account was on topics several accounts picked up.
+ * Topics are canonical topic ids plus entity keys ($SYMBOL, chains, protocols).
+ */
+export function narrativeLeadTimes(
+  tweets: StoredTweet[],
+  minAccounts: number = 3
+): Map<string, NarrativeLead> {
+  // topic -> handle -> first mention
+  const firstMentions = new Map<string, Map<string, number>>();
+
+  for (const tweet of tweets) {
+    const handle = tweet.handle.toLowerCase();
+    for (const topic of new Set([...(tweet.topics || []), ...entityKeys(tweet)])) {
+      const byAccount = firstMentions.get(topic) || new Map<string, number>();
+      const seen = byAccount.get(handle);
+      if (seen === undefined || tweet.timestamp < seen) byAccount.set(handle, tweet.timestamp);
+      firstMentions.set(topic, byAccount);
+    }
+  }
+
+  const leads = new Map<string, NarrativeLead>();
+
+  for (const [topic, byAccount] of firstMentions) {
+    if (byAccount.size < minAccounts) continue;
+
+    const earliest = Math.min(...byAccount.values());
+    for (const [handle, first] of byAccount) {
+      const others = Array.from(byAccount).filter(([h]) => h !== handle).map(([, t]) => t);
+      const leadHours = (median(others) - first) / (60 * 60 * 1000);
+
+      const entry = leads.get(handle) || { topics: 0, firstMentions: 0, avgLeadHours: 0, leads: [] };
+      entry.avgLeadHours = (entry.avgLeadHours * entry.topics + leadHours) / (entry.topics + 1);
+      entry.topics++;
+      if (first === earliest) entry.firstMentions++;
+      entry.leads.push({ topic, leadHours });
+      leads.set(handle, entry);
+    }
+  }
+
+  for (const entry of leads.values()) {
+    entry.leads.sort((a, b) => b.leadHours - a.leadHours || a.topic.localeCompare(b.topic));
+  }
+
+  return leads;
+}
+
+/**
+ * Mid-rank percentile (0-100) of each value within `values`.
+ * Equal values share a score; a single account scores 50.
+ */
+export function percentileScores(values: Map<string, number>): Map<string, number> {
+  const sorted = Array.from(values.values()).sort((a, b) => a - b);
+  const n = sorted.length;
+  const scores = new Map<string, number>();
+
+  for (const [key, value] of values) {
+    let below = 0;
+    let equal = 0;
+    for (const v of sorted) {
+      if (v < value) below++;
+      else if (v === value) equal++;
+    }
+    scores.set(key, n > 1 ? Math.round((100 * (below + (equal - 1) / 2)) / (n - 1)) : 50);
+  }
+
+  return scores;
+}
@@ -0,0 +1,79 @@
+import { IAccountInfluence } from './account-influence.js';
+
+// One scoring run for one account (account_influence_history)
+export interface InfluenceHistoryPoint {
+  handle: string;
+  influenceScore: number;
+  credibility: number;
+  citedByOthers: number;
+  conversationStarter: number;
+  earlyNarratives: number;
+  accuracy: number;
+  tier: IAccountInfluence['tier'];
+  scoredAt: number;
+}
+
+export interface MomentumConfig {
+  windowDays: number; // only runs this recent count towards the trend
+  minPoints: number; // fewer runs than this in the window = 'stable'
+  risingSlope: number; // influence points per day at or above which = 'rising'
+  decliningSlope: number; // points per day at or below which = 'declining' (negative)
+}
+
+export const DEFAULT_MOMENTUM_CONFIG: MomentumConfig = {
+  windowDays: parseInt(process.env.INFLUENCE_MOMENTUM_WINDOW_DAYS || '14'),
+  minPoints: 3,
+  risingSlope: parseFloat(process.env.INFLUENCE_MOMENTUM_SLOPE || '0.5'),
+  decliningSlope: -parseFloat(process.env.INFLUENCE_MOMENTUM_SLOPE || '0.5')
+};
+
+export interface MomentumResult {
+  momentum: IAccountInfluence['momentum'];
+  slope: number; // least-squares influence points per day
+  points: number; // runs inside the window
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Least-squares slope of influenceScore over time, in points per day.
+ * 0 for fewer than two points or when every run has the same timestamp.
+ */
+export function influenceSlope(points: Pick<InfluenceHistoryPoint, 'influenceScore' | 'scoredAt'>[]): number {
+  if (points.length < 2) return 0;
+
+  const xs = points.map(p => p.scoredAt / DAY_MS);
+  const ys = points.map(p => p.influenceScore);
+  const meanX = xs.reduce((a, b) => a + b, 0) / xs.length;
+  const meanY = ys.reduce((a, b) => a + b, 0) / ys.length;
+
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    variance += (xs[i] - meanX) ** 2;
+  }
+
+  return variance > 0 ? covariance / variance : 0;
+}
+
+/**
+ * Trend of an account's influence over the configured window.
+ * A regression slope rather than first-vs-last, so one noisy run doesn't flip it.
+ */
+export function computeMomentum(
+  history: Pick<InfluenceHistoryPoint, 'influenceScore' | 'scoredAt'>[],
+  config: Partial<MomentumConfig> = {},
+  now: number = Date.now()
+): MomentumResult {
+  const { windowDays, minPoints, risingSlope, decliningSlope } = { ...DEFAULT_MOMENTUM_CONFIG, ...config };
+  const recent = history.filter(p => p.scoredAt >= now - windowDays * DAY_MS && p.scoredAt <= now);
+
+  if (recent.length < minPoints) {
+    return { momentum: 'stable', slope: 0, points: recent.length };
+  }
+
+  const slope = influenceSlope(recent);
+  const momentum = slope >= risingSlope ? 'rising' : slope <= decliningSlope ? 'declining' : 'stable';
+  return { momentum, slope, points: recent.length };
+}
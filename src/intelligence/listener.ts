@@ -1,17 +1,18 @@
-import { TwitterApi } from 'twitter-api-v2';
-import { StoredTweet, TrackedAccount } from './types.js';
+import { TwitterApi, TweetV2, TwitterV2IncludesHelper } from 'twitter-api-v2';
+import { StoredTweet, TrackedAccount, TweetReference } from './types.js';
 import { vectorDB } from './vectordb.js';
+import { embeddingsService } from './embeddings.js';
+import { extractEntities } from './entity-extractor.js';
+import { topicRegistry } from './topic-taxonomy.js';
+import { callTracker } from './call-tracker.js';
 import { logger } from '../shared/logger.js';
-import Anthropic from '@anthropic-ai/sdk';
+import { llm } from '../shared/llm.js';
+import { SENTIMENT_TOPICS, SentimentTopics } from '../shared/llm-schemas.js';
 
 const client = new TwitterApi({
   bearerToken: process.env.TWITTER_BEARER_TOKEN
 });
 
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY
-});
-
 const TRACKED_ACCOUNTS = [
   // Narrative Detection (15)
   'santiagoroel',
@@ -97,6 +98,9 @@ export class TwitterListener {
     
     while (this.isRunning) {
       try {
+        // Give tweets whose embedding failed last cycle another try
+        await this.retryFailedEmbeddings();
+
         // Batch accounts to reduce rate limit hits
         for (let i = 0; i < TRACKED_ACCOUNTS.length; i += batchSize) {
           const batch = TRACKED_ACCOUNTS.slice(i, i + batchSize);
@@ -122,34 +126,46 @@ export class TwitterListener {
     try {
       const tweets = await client.v2.userTimeline(handle, {
         max_results: 10,
-        'tweet.fields': ['created_at', 'public_metrics'],
-        expansions: ['author_id']
+        'tweet.fields': ['created_at', 'public_metrics', 'referenced_tweets', 'conversation_id'],
+        // Referenced tweet authors feed the citation graph (influence-graph.ts)
+        expansions: ['author_id', 'referenced_tweets.id', 'referenced_tweets.id.author_id']
       });
 
       for (const tweet of tweets.data || []) {
         // Batch sentiment + topics into one call (consolidate LLM usage)
-        const { sentiment, topics } = await this.analyzeSentimentAndTopics(tweet.text);
+        const analysis = await this.analyzeSentimentAndTopics(tweet.text);
+        const { sentiment } = analysis;
 
-        // Generate embedding (simplified - in production use OpenAI)
-        const embedding = await this.generateEmbedding(tweet.text);
+        // Store canonical topic ids so "ai agent" and "agentic ai" land on one topic
+        const topics = await topicRegistry.canonicalizeAll(analysis.topics, { learn: true });
+
+        // null when the provider fails; stored as 'failed' and re-queued next cycle
+        const embedding = await embeddingsService.embedText(tweet.text);
 
         const storedTweet: StoredTweet = {
           id: `${handle}-${tweet.id}`,
           tweetId: tweet.id,
           handle,
           text: tweet.text,
-          embedding,
+          embedding: embedding || [],
+          embeddingModel: embeddingsService.modelId,
+          embeddingDim: embedding?.length || 0,
+          embeddingStatus: embedding ? 'ok' : 'failed',
           timestamp: new Date(tweet.created_at!).getTime(),
           likes: tweet.public_metrics?.like_count || 0,
           retweets: tweet.public_metrics?.retweet_count || 0,
           replies: tweet.public_metrics?.reply_count || 0,
           sentiment,
           topics,
+          references: this.tweetReferences(tweet, tweets.includes),
+          conversationId: tweet.conversation_id,
+          ...extractEntities(tweet.text),
           credibilityAtTime: 0, // Will be set by classifier
           storedAt: Date.now()
         };
 
         await vectorDB.storeTweet(storedTweet);
+        await callTracker.recordCalls(storedTweet);
       }
 
       logger.info(`Fetched ${tweets.data?.length || 0} tweets from @${handle}`);
@@ -158,62 +174,58 @@ export class TwitterListener {
     }
   }
 
-  private async analyzeSentimentAndTopics(
-    text: string
-  ): Promise<{ sentiment: 'bullish' | 'bearish' | 'neutral'; topics: string[] }> {
+  private tweetReferences(tweet: TweetV2, includes: TwitterV2IncludesHelper): TweetReference[] {
+    return (tweet.referenced_tweets || []).map(ref => {
+      const referenced = includes.tweetById(ref.id);
+      const author = referenced ? includes.author(referenced) : undefined;
+      return {
+        type: ref.type,
+        tweetId: ref.id,
+        handle: author?.username.toLowerCase()
+      };
+    });
+  }
+
+  private async analyzeSentimentAndTopics(text: string): Promise<SentimentTopics> {
     try {
       // Batch both into one call to reduce API hits
-      const message = await anthropic.messages.create({
-        model: 'claude-haiku-4-20250514',
-        max_tokens: 100,
-        messages: [
-          {
-            role: 'user',
-            content: `Analyze this tweet:
-1. Sentiment: bullish, bearish, or neutral (1 word)
-2. Topics: 2-4 key topics (comma-separated)
-
-Tweet: "${text}"
-
-Reply format:
-SENTIMENT: [word]
-TOPICS: [comma-separated]`
-          }
-        ]
-      });
+      const result = await llm.completeJSON(
+        'sentiment',
+        `Analyze this tweet: is it bullish, bearish or neutral, and what are its 2-4 key topics?
+
+Tweet: "${text}"`,
+        SENTIMENT_TOPICS,
+        { maxTokens: 150 }
+      );
+
+      return {
+        sentiment: result.sentiment,
+        topics: result.topics.map(t => t.trim().toLowerCase()).filter(t => t.length > 0)
+      };
+    } catch (error: any) {
+      // Counted per task in monitor.getLLMOutputMetrics when the reply was unparseable
+      logger.warn('Sentiment/topic analysis failed, storing as neutral', error.message);
+      return { sentiment: 'neutral', topics: [] };
+    }
+  }
 
-      const content = message.content[0].type === 'text' ? message.content[0].text : '';
+  private async retryFailedEmbeddings() {
+    const pending = await vectorDB.getTweetsPendingEmbedding(50);
+    if (pending.length === 0) return;
 
-      // Parse response
-      const sentimentMatch = content.match(/SENTIMENT:\s*(\w+)/i);
-      const topicsMatch = content.match(/TOPICS:\s*([^\n]+)/i);
+    const embeddings = await embeddingsService.embedBatch(pending.map(t => t.text));
+    let recovered = 0;
 
-      let sentiment: 'bullish' | 'bearish' | 'neutral' = 'neutral';
-      if (sentimentMatch) {
-        const s = sentimentMatch[1].toLowerCase();
-        if (s.includes('bullish')) sentiment = 'bullish';
-        else if (s.includes('bearish')) sentiment = 'bearish';
-      }
+    for (let i = 0; i < pending.length; i++) {
+      const embedding = embeddings[i];
+      if (!embedding) continue;
 
-      let topics: string[] = [];
-      if (topicsMatch) {
-        topics = topicsMatch[1]
-          .split(',')
-          .map(t => t.trim().toLowerCase())
-          .filter(t => t.length > 0);
+      if (await vectorDB.updateTweetEmbedding(pending[i].id, embedding, embeddingsService.modelId)) {
+        recovered++;
       }
-
-      return { sentiment, topics };
-    } catch (error: any) {
-      logger.warn('Sentiment/topic analysis failed', error.message);
-      return { sentiment: 'neutral', topics: [] };
     }
-  }
 
-  private async generateEmbedding(text: string): Promise<number[]> {
-    // Use real OpenAI embeddings
-    const { embeddingsService } = await import('./embeddings.js');
-    return embeddingsService.embedText(text);
+    logger.info(`Re-embedded ${recovered}/${pending.length} tweets`);
   }
 
   private sleep(ms: number): Promise<void> {
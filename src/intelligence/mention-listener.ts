@@ -1,6 +1,7 @@
 import { TwitterApi } from 'twitter-api-v2';
 import { logger } from '../shared/logger.js';
-import Anthropic from '@anthropic-ai/sdk';
+import { llm } from '../shared/llm.js';
+import { MENTION_INTENT, MentionIntent } from '../shared/llm-schemas.js';
 
 const client = new TwitterApi({
   appKey: process.env.TWITTER_API_KEY,
@@ -11,10 +12,6 @@ const client = new TwitterApi({
 
 const rwClient = client.readWrite;
 
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY
-});
-
 export class MentionListener {
   private lastMentionId: string | null = null;
   private isRunning = false;
@@ -109,53 +106,21 @@ export class MentionListener {
     }
   }
 
-  private async parseMention(
-    text: string,
-    author: string
-  ): Promise<{ type: 'account_tag' | 'question' | 'unknown'; account?: string; question?: string }> {
+  private async parseMention(text: string, author: string): Promise<MentionIntent> {
     try {
-      const prompt = `Parse this Twitter mention to @deciresearch. Identify:
-1. If it tags another account (e.g., @username) - respond with: TYPE:account_tag ACCOUNT:@username
-2. If it's asking a question - respond with: TYPE:question QUESTION:...
-3. Otherwise - respond with: TYPE:unknown
-
-Mention from @${author}: "${text}"
-
-Response:`;
-
-      const message = await anthropic.messages.create({
-        model: 'claude-haiku-4-20250514',
-        max_tokens: 100,
-        messages: [
-          {
-            role: 'user',
-            content: prompt
-          }
-        ]
-      });
+      const prompt = `Parse this Twitter mention to @deciresearch:
+- account_tag: it tags another account (e.g. @username) for us to look at; give the handle
+- question: it asks us something; give the question
+- unknown: anything else
 
-      const response = message.content[0].type === 'text' ? message.content[0].text : '';
+Mention from @${author}: "${text}"`;
 
-      if (response.includes('TYPE:account_tag')) {
-        const match = response.match(/ACCOUNT:(@\w+)/);
-        if (match) {
-          return {
-            type: 'account_tag',
-            account: match[1].substring(1) // Remove @
-          };
-        }
-      }
-
-      if (response.includes('TYPE:question')) {
-        const match = response.match(/QUESTION:(.*?)(?:$|TYPE:)/);
-        if (match) {
-          return {
-            type: 'question',
-            question: match[1].trim()
-          };
-        }
-      }
+      const intent = await llm.completeJSON('parsing', prompt, MENTION_INTENT, { maxTokens: 150 });
+      const account = intent.account?.replace(/^@/, '').trim();
+      const question = intent.question?.trim();
 
+      if (intent.type === 'account_tag' && account) return { type: 'account_tag', account };
+      if (intent.type === 'question' && question) return { type: 'question', question };
       return { type: 'unknown' };
     } catch (error: any) {
       logger.error('Failed to parse mention', error.message);
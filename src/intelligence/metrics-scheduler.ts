@@ -1,12 +1,7 @@
 import { performanceTracker } from './performance-tracker.js';
-import { createClient } from '@supabase/supabase-js';
+import { intelligenceStore } from './store.js';
 import { logger } from '../shared/logger.js';
 
-const supabase = createClient(
-  process.env.SUPABASE_URL || '',
-  process.env.SUPABASE_KEY || ''
-);
-
 export class MetricsScheduler {
   private isRunning = false;
 
@@ -74,21 +69,19 @@ export class MetricsScheduler {
   private async updateRecentTweets() {
     try {
       // Get tweets posted in last 24 hours that need updating
-      const { data: tweets } = await supabase
-        .from('tweet_performance')
-        .select('tweet_id')
-        .gt('posted_at', Date.now() - 24 * 60 * 60 * 1000)
-        .order('posted_at', { ascending: false })
-        .limit(20); // Update last 20 tweets
-
-      if (!tweets || tweets.length === 0) {
+      const tweets = await intelligenceStore.queryTweetPerformance({
+        since: Date.now() - 24 * 60 * 60 * 1000,
+        limit: 20 // Update last 20 tweets
+      });
+
+      if (tweets.length === 0) {
         logger.info('No recent tweets to update');
         return;
       }
 
       let updated = 0;
       for (const tweet of tweets) {
-        const result = await performanceTracker.updateMetrics(tweet.tweet_id, 1);
+        const result = await performanceTracker.updateMetrics(tweet.tweetId, 1);
         if (result) updated++;
       }
 
@@ -135,14 +128,12 @@ export class MetricsScheduler {
     recommendations: string[]
   ): Promise<void> {
     try {
-      const { error } = await supabase.from('performance_analysis').insert({
+      await intelligenceStore.insertPerformanceAnalysis({
         date: new Date().toISOString().split('T')[0],
         patterns: patterns,
         recommendations: recommendations,
         timestamp: Date.now()
       });
-
-      if (error) throw error;
       logger.info('Stored daily analysis summary');
     } catch (error: any) {
       logger.error('Failed to store analysis summary', error.message);
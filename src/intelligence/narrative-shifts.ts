@@ -1,12 +1,8 @@
-import { createClient } from '@supabase/supabase-js';
 import { vectorDB } from './vectordb.js';
+import { intelligenceStore } from './store.js';
+import { topicRegistry } from './topic-taxonomy.js';
 import { logger } from '../shared/logger.js';
 
-const supabase = createClient(
-  process.env.SUPABASE_URL || '',
-  process.env.SUPABASE_KEY || ''
-);
-
 export interface NarrativeSnapshot {
   topic: string;
   date: string;
@@ -37,7 +33,9 @@ export interface NarrativeShift {
 }
 
 export class NarrativeShifts {
-  async captureSnapshot(topic: string): Promise<NarrativeSnapshot | null> {
+  async captureSnapshot(query: string): Promise<NarrativeSnapshot | null> {
+    // Snapshots are keyed by canonical topic id so history lines up across spellings
+    const topic = await topicRegistry.canonicalize(query);
     try {
       const tweets = await vectorDB.getTweetsByTopic(topic);
 
@@ -95,15 +93,7 @@ export class NarrativeShifts {
       };
 
       // Store snapshot
-      await supabase.from('narrative_snapshots').insert({
-        topic: snapshot.topic,
-        date: snapshot.date,
-        sentiment: snapshot.sentiment,
-        top_accounts: snapshot.topAccounts,
-        avg_credibility: snapshot.avgCredibility,
-        mention_count: snapshot.mentionCount,
-        timestamp: snapshot.timestamp
-      });
+      await intelligenceStore.insertNarrativeSnapshot(snapshot);
 
       logger.info(`Captured snapshot for ${topic}: ${snapshot.sentiment.bullish.toFixed(0)}% bullish`);
       return snapshot;
@@ -114,28 +104,25 @@ export class NarrativeShifts {
   }
 
   async detectShift(
-    topic: string,
+    query: string,
     daysLookback: number = 7
   ): Promise<NarrativeShift | null> {
+    const topic = await topicRegistry.canonicalize(query);
     try {
       // Get current snapshot
       const currentSnapshot = await this.captureSnapshot(topic);
       if (!currentSnapshot) return null;
 
       // Get previous snapshot from daysLookback
-      const { data: previousData } = await supabase
-        .from('narrative_snapshots')
-        .select('*')
-        .eq('topic', topic)
-        .lt('timestamp', Date.now() - daysLookback * 24 * 60 * 60 * 1000)
-        .order('timestamp', { ascending: false })
-        .limit(1);
-
-      if (!previousData || previousData.length === 0) {
+      const previousSnapshot = await intelligenceStore.getLatestSnapshotBefore(
+        topic,
+        Date.now() - daysLookback * 24 * 60 * 60 * 1000
+      );
+
+      if (!previousSnapshot) {
         return null; // No previous data to compare
       }
 
-      const previousSnapshot = previousData[0] as any;
       const sentimentChange = currentSnapshot.sentiment.bullish - previousSnapshot.sentiment.bullish;
       const absoluteChange = Math.abs(sentimentChange);
 
@@ -284,15 +271,7 @@ export class NarrativeShifts {
   async getRecentShifts(limit: number = 5): Promise<NarrativeShift[]> {
     try {
       // Get all topics from recent activity
-      const { data: snapshots } = await supabase
-        .from('narrative_snapshots')
-        .select('DISTINCT topic')
-        .order('timestamp', { ascending: false })
-        .limit(50);
-
-      if (!snapshots) return [];
-
-      const topics = snapshots.map((s: any) => s.topic);
+      const topics = await intelligenceStore.getRecentSnapshotTopics(50);
       const shifts: NarrativeShift[] = [];
 
       for (const topic of topics) {
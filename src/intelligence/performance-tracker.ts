@@ -1,16 +1,11 @@
 import { TwitterApi } from 'twitter-api-v2';
-import { createClient } from '@supabase/supabase-js';
+import { intelligenceStore } from './store.js';
 import { logger } from '../shared/logger.js';
 
 const client = new TwitterApi({
   bearerToken: process.env.TWITTER_BEARER_TOKEN
 });
 
-const supabase = createClient(
-  process.env.SUPABASE_URL || '',
-  process.env.SUPABASE_KEY || ''
-);
-
 export interface TweetPerformance {
   tweetId: string;
   content: string;
@@ -48,11 +43,11 @@ export class PerformanceTracker {
   ): Promise<boolean> {
     try {
       // Store initial record
-      const { error } = await supabase.from('tweet_performance').insert({
-        tweet_id: tweetId,
+      await intelligenceStore.insertTweetPerformance({
+        tweetId,
         content,
         themes,
-        posted_at: Date.now(),
+        postedAt: Date.now(),
         sentiment,
         format,
         likes_1h: 0,
@@ -64,7 +59,6 @@ export class PerformanceTracker {
         engagement_rate: 0
       });
 
-      if (error) throw error;
       logger.info(`Started tracking tweet ${tweetId}`);
       return true;
     } catch (error: any) {
@@ -88,11 +82,7 @@ export class PerformanceTracker {
       const metrics = tweet.data.public_metrics || {};
 
       // Get stored record
-      const { data: stored } = await supabase
-        .from('tweet_performance')
-        .select('*')
-        .eq('tweet_id', tweetId)
-        .single();
+      const stored = await intelligenceStore.getTweetPerformance(tweetId);
 
       if (!stored) {
         logger.warn(`No performance record for ${tweetId}`);
@@ -101,7 +91,7 @@ export class PerformanceTracker {
 
       // Calculate metrics
       const now = Date.now();
-      const ageMs = now - stored.posted_at;
+      const ageMs = now - stored.postedAt;
       const ageHours = ageMs / (1000 * 60 * 60);
 
       // Impressions = proxy using followers of account (rough estimate)
@@ -126,28 +116,22 @@ export class PerformanceTracker {
       }
 
       // Update record
-      const { error } = await supabase
-        .from('tweet_performance')
-        .update({
-          likes_1h,
-          likes_24h: metrics.like_count,
-          retweets_1h,
-          retweets_24h: metrics.retweet_count,
-          replies_1h,
-          replies_24h: metrics.reply_count,
-          impressions,
-          engagement_rate: engagementRate,
-          last_updated: now
-        })
-        .eq('tweet_id', tweetId);
-
-      if (error) throw error;
+      await intelligenceStore.updateTweetPerformance(tweetId, {
+        likes_1h,
+        likes_24h: metrics.like_count,
+        retweets_1h,
+        retweets_24h: metrics.retweet_count,
+        replies_1h,
+        replies_24h: metrics.reply_count,
+        impressions,
+        engagement_rate: engagementRate
+      });
 
       const performance: TweetPerformance = {
         tweetId,
         content: stored.content,
         themes: stored.themes,
-        postedAt: stored.posted_at,
+        postedAt: stored.postedAt,
         likes_1h,
         likes_24h: metrics.like_count || 0,
         retweets_1h,
@@ -171,13 +155,11 @@ export class PerformanceTracker {
   async getPerformancePatterns(): Promise<PerformancePattern[]> {
     try {
       // Get all tweets from last 7 days with 24h metrics
-      const { data: tweets } = await supabase
-        .from('tweet_performance')
-        .select('*')
-        .gt('posted_at', Date.now() - 7 * 24 * 60 * 60 * 1000)
-        .order('posted_at', { ascending: false });
+      const tweets = await intelligenceStore.queryTweetPerformance({
+        since: Date.now() - 7 * 24 * 60 * 60 * 1000
+      });
 
-      if (!tweets || tweets.length === 0) {
+      if (tweets.length === 0) {
         return [];
       }
 
@@ -239,14 +221,11 @@ export class PerformanceTracker {
 
   async getBestPerformingContent(limit: number = 5): Promise<TweetPerformance[]> {
     try {
-      const { data: tweets } = await supabase
-        .from('tweet_performance')
-        .select('*')
-        .gt('posted_at', Date.now() - 7 * 24 * 60 * 60 * 1000)
-        .order('likes_24h', { ascending: false })
-        .limit(limit);
-
-      return (tweets || []) as TweetPerformance[];
+      return await intelligenceStore.queryTweetPerformance({
+        since: Date.now() - 7 * 24 * 60 * 60 * 1000,
+        orderBy: 'likes24h',
+        limit
+      });
     } catch (error: any) {
       logger.error('Failed to get best performing content', error.message);
       return [];
@@ -262,13 +241,12 @@ export class PerformanceTracker {
     topPerformer: TweetPerformance | null;
   }> {
     try {
-      const { data: tweets } = await supabase
-        .from('tweet_performance')
-        .select('*')
-        .contains('themes', [theme])
-        .gt('posted_at', Date.now() - 7 * 24 * 60 * 60 * 1000);
+      const tweets = await intelligenceStore.queryTweetPerformance({
+        since: Date.now() - 7 * 24 * 60 * 60 * 1000,
+        theme
+      });
 
-      if (!tweets || tweets.length === 0) {
+      if (tweets.length === 0) {
         return {
           theme,
           avgLikes: 0,
@@ -295,7 +273,7 @@ export class PerformanceTracker {
         avgRetweets,
         avgEngagement,
         totalTweets: tweets.length,
-        topPerformer: topPerformer as TweetPerformance
+        topPerformer
       };
     } catch (error: any) {
       logger.error(`Failed to get metrics for theme ${theme}`, error.message);
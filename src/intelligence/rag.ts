@@ -1,20 +1,24 @@
 import { vectorDB } from './vectordb.js';
+import { embeddingsService } from './embeddings.js';
+import { hybridSearch, HybridSearch } from './hybrid-search.js';
 import { logger } from '../shared/logger.js';
 import { RAGContext } from './types.js';
-import Anthropic from '@anthropic-ai/sdk';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY
-});
+import { llm } from '../shared/llm.js';
+import { INSIGHT_SUMMARY } from '../shared/llm-schemas.js';
 
 export class RAGEngine {
+  constructor(private retriever: HybridSearch = hybridSearch) {}
+
   async queryContext(query: string, category?: string): Promise<RAGContext> {
     try {
       logger.info(`RAG query: ${query}`);
 
-      // 1. Search for relevant tweets from vector DB
-      const mockEmbedding = Array(1536).fill(0); // TODO: use real embeddings
-      const relevantTweets = await vectorDB.semanticSearch(mockEmbedding, 20, category);
+      // 1. Hybrid search: cashtags/addresses via BM25, meaning via vectors
+      const queryEmbedding = await embeddingsService.embedText(query);
+      if (!queryEmbedding) {
+        logger.warn('Query embedding failed, using lexical search only');
+      }
+      const relevantTweets = await this.retriever.search(query, queryEmbedding, 20, category);
 
       // 2. Get top credible accounts in this category
       const topAccounts = await vectorDB.getTopAccounts(5);
@@ -94,22 +98,10 @@ export class RAGEngine {
 Key accounts: ${accountList}
 
 Recent takes:
-${tweetSummary}
-
-Summary:`;
-
-      const message = await anthropic.messages.create({
-        model: 'claude-haiku-4-20250514',
-        max_tokens: 150,
-        messages: [
-          {
-            role: 'user',
-            content: prompt
-          }
-        ]
-      });
-
-      return message.content[0].type === 'text' ? message.content[0].text : '';
+${tweetSummary}`;
+
+      const { summary } = await llm.completeJSON('summary', prompt, INSIGHT_SUMMARY, { maxTokens: 200 });
+      return summary;
     } catch (error: any) {
       logger.error('Synthesis failed', error.message);
       return '';
@@ -0,0 +1,946 @@
+import Database from 'better-sqlite3';
+import { StoredTweet, TrackedAccount } from './types.js';
+import { NarrativeSnapshot } from './narrative-shifts.js';
+import { IAccountInfluence } from './account-influence.js';
+import { DiscoveryCandidate } from './account-discovery.js';
+import { TweetPerformance } from './performance-tracker.js';
+import {
+  IntelligenceStore,
+  DiscoveryRun,
+  PerformanceAnalysis,
+  TweetPerformanceQuery
+} from './store.js';
+import { rankBySimilarity } from './embeddings.js';
+import { encodeEmbedding, decodeEmbedding } from './embedding-cache.js';
+import { EntityField, ENTITY_FIELDS } from './entity-extractor.js';
+import { Topic } from './topic-taxonomy.js';
+import { AccountCall, CallHorizon } from './call-tracker.js';
+import { InfluenceHistoryPoint } from './influence-momentum.js';
+
+function toTrackedAccount(row: any): TrackedAccount {
+  return {
+    id: row.id,
+    handle: row.handle,
+    category: row.category,
+    credibilityScore: row.credibility_score,
+    followerCount: row.follower_count,
+    engagementRate: row.engagement_rate,
+    accuracyScore: row.accuracy_score,
+    tags: JSON.parse(row.tags || '[]'),
+    addedAt: row.added_at,
+    lastUpdated: row.last_updated
+  };
+}
+
+function toStoredTweet(row: any): StoredTweet {
+  return {
+    id: row.id,
+    tweetId: row.tweet_id,
+    handle: row.handle,
+    text: row.text,
+    embedding: decodeEmbedding(row.embedding),
+    embeddingModel: row.embedding_model ?? undefined,
+    embeddingDim: row.embedding_dim ?? undefined,
+    embeddingStatus: row.embedding_status ?? 'ok',
+    timestamp: row.timestamp,
+    likes: row.likes,
+    retweets: row.retweets,
+    replies: row.replies,
+    sentiment: row.sentiment,
+    topics: JSON.parse(row.topics || '[]'),
+    references: JSON.parse(row.referenced_tweets || '[]'),
+    conversationId: row.conversation_id ?? undefined,
+    symbols: JSON.parse(row.symbols || '[]'),
+    addresses: JSON.parse(row.addresses || '[]'),
+    chains: JSON.parse(row.chains || '[]'),
+    protocols: JSON.parse(row.protocols || '[]'),
+    mentions: JSON.parse(row.mentions || '[]'),
+    credibilityAtTime: row.credibility_at_time,
+    storedAt: row.stored_at
+  };
+}
+
+function toTopic(row: any): Topic {
+  return {
+    id: row.id,
+    label: row.label,
+    parentId: row.parent_id ?? undefined,
+    aliases: JSON.parse(row.aliases || '[]'),
+    embedding: row.embedding ? decodeEmbedding(row.embedding) : undefined,
+    embeddingModel: row.embedding_model ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+// call-tracker.ts imports the store, so its runtime exports can't be used here
+const CALL_HORIZON_COLUMNS: CallHorizon[] = ['1d', '7d', '30d'];
+
+function toAccountCall(row: any): AccountCall {
+  const outcomes: AccountCall['outcomes'] = {};
+  for (const horizon of CALL_HORIZON_COLUMNS) {
+    const price = row[`price_${horizon}`];
+    const ret = row[`return_${horizon}`];
+    if (price !== null && ret !== null) {
+      outcomes[horizon] = { price, return: ret, hit: ret > 0 };
+    }
+  }
+
+  return {
+    id: row.id,
+    tweetId: row.tweet_id,
+    handle: row.handle,
+    symbol: row.symbol,
+    coinId: row.coin_id ?? undefined,
+    direction: row.direction,
+    calledAt: row.called_at,
+    entryPrice: row.entry_price ?? undefined,
+    outcomes,
+    status: row.status,
+    updatedAt: row.updated_at
+  };
+}
+
+function toInfluence(row: any): IAccountInfluence {
+  return {
+    handle: row.handle,
+    credibility: row.credibility,
+    influenceScore: row.influence_score,
+    citedByOthers: row.cited_count,
+    conversationStarter: row.conversation_starter_score,
+    earlyNarratives: row.early_narrative_score,
+    accuracy: row.accuracy,
+    momentum: row.momentum,
+    tier: row.tier,
+    lastUpdated: row.last_updated,
+    evidence: row.evidence ? JSON.parse(row.evidence) : undefined
+  };
+}
+
+function toInfluenceHistoryPoint(row: any): InfluenceHistoryPoint {
+  return {
+    handle: row.handle,
+    influenceScore: row.influence_score,
+    credibility: row.credibility,
+    citedByOthers: row.cited_count,
+    conversationStarter: row.conversation_starter_score,
+    earlyNarratives: row.early_narrative_score,
+    accuracy: row.accuracy,
+    tier: row.tier,
+    scoredAt: row.scored_at
+  };
+}
+
+function toCandidate(row: any): DiscoveryCandidate {
+  return {
+    handle: row.handle,
+    score: row.score,
+    category: row.category,
+    reason: row.reason,
+    lastSeen: row.last_seen,
+    confirmationCount: row.confirmation_count,
+    status: row.status
+  };
+}
+
+function toTweetPerformance(row: any): TweetPerformance {
+  return {
+    tweetId: row.tweet_id,
+    content: row.content,
+    themes: JSON.parse(row.themes || '[]'),
+    postedAt: row.posted_at,
+    likes_1h: row.likes_1h,
+    likes_24h: row.likes_24h,
+    retweets_1h: row.retweets_1h,
+    retweets_24h: row.retweets_24h,
+    replies_1h: row.replies_1h,
+    replies_24h: row.replies_24h,
+    engagement_rate: row.engagement_rate,
+    impressions: row.impressions ?? undefined,
+    sentiment: row.sentiment,
+    format: row.format
+  };
+}
+
+/**
+ * SqliteStore - local backend on better-sqlite3 (laptop / CI, no Supabase)
+ * Vector search is a brute-force cosine scan over stored embeddings
+ */
+export class SqliteStore implements IntelligenceStore {
+  readonly backend = 'sqlite' as const;
+  private db: Database.Database;
+
+  constructor(path: string = 'deciresearch.db') {
+    this.db = new Database(path);
+    this.createTables();
+  }
+
+  private createTables() {
+    // `tweets` is already used by shared/db.ts for our own posts,
+    // so tracked-account tweets live in `account_tweets`
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS tracked_accounts (
+        id TEXT PRIMARY KEY,
+        handle TEXT UNIQUE NOT NULL,
+        category TEXT NOT NULL,
+        credibility_score REAL DEFAULT 50,
+        follower_count INTEGER,
+        engagement_rate REAL,
+        accuracy_score REAL DEFAULT 50,
+        tags TEXT DEFAULT '[]',
+        added_at INTEGER,
+        last_updated INTEGER
+      );
+      CREATE TABLE IF NOT EXISTS account_tweets (
+        id TEXT PRIMARY KEY,
+        tweet_id TEXT,
+        handle TEXT NOT NULL,
+        text TEXT,
+        embedding BLOB,
+        embedding_model TEXT,
+        embedding_dim INTEGER,
+        embedding_status TEXT DEFAULT 'ok',
+        timestamp INTEGER,
+        likes INTEGER DEFAULT 0,
+        retweets INTEGER DEFAULT 0,
+        replies INTEGER DEFAULT 0,
+        sentiment TEXT,
+        topics TEXT DEFAULT '[]',
+        referenced_tweets TEXT DEFAULT '[]',
+        conversation_id TEXT,
+        symbols TEXT DEFAULT '[]',
+        addresses TEXT DEFAULT '[]',
+        chains TEXT DEFAULT '[]',
+        protocols TEXT DEFAULT '[]',
+        mentions TEXT DEFAULT '[]',
+        credibility_at_time REAL,
+        stored_at INTEGER
+      );
+      CREATE TABLE IF NOT EXISTS topics (
+        id TEXT PRIMARY KEY,
+        label TEXT NOT NULL,
+        parent_id TEXT,
+        aliases TEXT DEFAULT '[]',
+        embedding BLOB,
+        embedding_model TEXT,
+        created_at INTEGER,
+        updated_at INTEGER
+      );
+      CREATE TABLE IF NOT EXISTS account_calls (
+        id TEXT PRIMARY KEY,
+        tweet_id TEXT NOT NULL,
+        handle TEXT NOT NULL,
+        symbol TEXT NOT NULL,
+        coin_id TEXT,
+        direction TEXT NOT NULL,
+        called_at INTEGER NOT NULL,
+        entry_price REAL,
+        price_1d REAL,
+        return_1d REAL,
+        price_7d REAL,
+        return_7d REAL,
+        price_30d REAL,
+        return_30d REAL,
+        status TEXT NOT NULL DEFAULT 'open',
+        updated_at INTEGER
+      );
+      CREATE TABLE IF NOT EXISTS narrative_snapshots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        topic TEXT NOT NULL,
+        date TEXT,
+        sentiment TEXT,
+        top_accounts TEXT DEFAULT '[]',
+        avg_credibility REAL,
+        mention_count INTEGER,
+        timestamp INTEGER
+      );
+      CREATE TABLE IF NOT EXISTS account_influence (
+        handle TEXT PRIMARY KEY,
+        credibility REAL NOT NULL DEFAULT 0,
+        influence_score REAL NOT NULL DEFAULT 0,
+        cited_count INTEGER NOT NULL DEFAULT 0,
+        conversation_starter_score REAL NOT NULL DEFAULT 0,
+        early_narrative_score REAL NOT NULL DEFAULT 0,
+        accuracy REAL NOT NULL DEFAULT 0,
+        momentum TEXT NOT NULL DEFAULT 'stable',
+        tier TEXT NOT NULL DEFAULT 'follower',
+        evidence TEXT,
+        last_updated INTEGER
+      );
+      CREATE TABLE IF NOT EXISTS account_influence_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        handle TEXT NOT NULL,
+        influence_score REAL NOT NULL,
+        credibility REAL,
+        cited_count INTEGER,
+        conversation_starter_score REAL,
+        early_narrative_score REAL,
+        accuracy REAL,
+        tier TEXT,
+        scored_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS discovery_candidates (
+        handle TEXT PRIMARY KEY,
+        score REAL,
+        category TEXT,
+        reason TEXT,
+        last_seen INTEGER,
+        confirmation_count INTEGER DEFAULT 1,
+        status TEXT DEFAULT 'suggested',
+        updated_at INTEGER
+      );
+      CREATE TABLE IF NOT EXISTS discovery_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        found INTEGER,
+        added INTEGER,
+        approved INTEGER,
+        timestamp INTEGER
+      );
+      CREATE TABLE IF NOT EXISTS tweet_performance (
+        tweet_id TEXT PRIMARY KEY,
+        content TEXT,
+        themes TEXT DEFAULT '[]',
+        posted_at INTEGER,
+        sentiment TEXT,
+        format TEXT,
+        likes_1h INTEGER DEFAULT 0,
+        likes_24h INTEGER DEFAULT 0,
+        retweets_1h INTEGER DEFAULT 0,
+        retweets_24h INTEGER DEFAULT 0,
+        replies_1h INTEGER DEFAULT 0,
+        replies_24h INTEGER DEFAULT 0,
+        impressions INTEGER,
+        engagement_rate REAL DEFAULT 0,
+        last_updated INTEGER
+      );
+      CREATE TABLE IF NOT EXISTS performance_analysis (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        date TEXT,
+        patterns TEXT,
+        recommendations TEXT,
+        timestamp INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS idx_account_tweets_handle ON account_tweets(handle);
+      CREATE INDEX IF NOT EXISTS idx_account_tweets_timestamp ON account_tweets(timestamp DESC);
+      CREATE INDEX IF NOT EXISTS idx_accounts_category ON tracked_accounts(category);
+      CREATE INDEX IF NOT EXISTS idx_account_calls_handle ON account_calls(handle);
+      CREATE INDEX IF NOT EXISTS idx_account_calls_open ON account_calls(status, called_at);
+      CREATE INDEX IF NOT EXISTS idx_narrative_snapshots_topic ON narrative_snapshots(topic, timestamp);
+      CREATE INDEX IF NOT EXISTS idx_account_influence_score ON account_influence(influence_score DESC);
+      CREATE INDEX IF NOT EXISTS idx_account_influence_history_handle ON account_influence_history(handle, scored_at);
+      CREATE INDEX IF NOT EXISTS idx_discovery_status ON discovery_candidates(status);
+      CREATE INDEX IF NOT EXISTS idx_tweet_performance_posted ON tweet_performance(posted_at DESC);
+    `);
+
+    // Databases created before embeddings were tagged with their model
+    this.ensureColumn('account_tweets', 'embedding_model', 'TEXT');
+    this.ensureColumn('account_tweets', 'embedding_dim', 'INTEGER');
+    this.ensureColumn('account_tweets', 'embedding_status', "TEXT DEFAULT 'ok'");
+    for (const field of ENTITY_FIELDS) {
+      this.ensureColumn('account_tweets', field, "TEXT DEFAULT '[]'");
+    }
+    this.ensureColumn('account_tweets', 'referenced_tweets', "TEXT DEFAULT '[]'");
+    this.ensureColumn('account_tweets', 'conversation_id', 'TEXT');
+    this.ensureColumn('account_influence', 'evidence', 'TEXT');
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_account_tweets_embedding ON account_tweets(embedding_model, embedding_status);
+    `);
+
+    // Influence is keyed by lowercase handle; older rows kept whatever spelling
+    // they were scored under. Keep the newest row per account.
+    this.db.exec(`
+      DELETE FROM account_influence WHERE EXISTS (
+        SELECT 1 FROM account_influence newer
+        WHERE lower(newer.handle) = lower(account_influence.handle)
+          AND (newer.last_updated, newer.handle) > (account_influence.last_updated, account_influence.handle)
+      );
+      UPDATE account_influence SET handle = lower(handle) WHERE handle != lower(handle);
+      UPDATE account_influence_history SET handle = lower(handle) WHERE handle != lower(handle);
+    `);
+  }
+
+  private ensureColumn(table: string, column: string, definition: string) {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+    if (!columns.some(c => c.name === column)) {
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+
+  async init(): Promise<void> {
+    // Schema is created in the constructor
+  }
+
+  async upsertAccount(account: TrackedAccount): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO tracked_accounts (id, handle, category, credibility_score, follower_count, engagement_rate, accuracy_score, tags, added_at, last_updated)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        handle = excluded.handle,
+        category = excluded.category,
+        credibility_score = excluded.credibility_score,
+        follower_count = excluded.follower_count,
+        engagement_rate = excluded.engagement_rate,
+        accuracy_score = excluded.accuracy_score,
+        tags = excluded.tags,
+        last_updated = excluded.last_updated
+    `).run(
+      account.id,
+      account.handle,
+      account.category,
+      account.credibilityScore,
+      account.followerCount,
+      account.engagementRate,
+      account.accuracyScore,
+      JSON.stringify(account.tags),
+      account.addedAt,
+      account.lastUpdated
+    );
+  }
+
+  async getAccountsByCategory(category: string): Promise<TrackedAccount[]> {
+    return this.db
+      .prepare('SELECT * FROM tracked_accounts WHERE category = ? ORDER BY credibility_score DESC')
+      .all(category)
+      .map(toTrackedAccount);
+  }
+
+  async getTopAccounts(limit: number): Promise<TrackedAccount[]> {
+    return this.db
+      .prepare('SELECT * FROM tracked_accounts ORDER BY credibility_score DESC LIMIT ?')
+      .all(limit)
+      .map(toTrackedAccount);
+  }
+
+  async getAccountsByHandles(handles: string[]): Promise<TrackedAccount[]> {
+    if (handles.length === 0) return [];
+
+    return this.db
+      .prepare(`SELECT * FROM tracked_accounts WHERE handle IN (${handles.map(() => '?').join(',')})`)
+      .all(...handles)
+      .map(toTrackedAccount);
+  }
+
+  async updateAccountCredibility(handle: string, score: number): Promise<void> {
+    this.db
+      .prepare('UPDATE tracked_accounts SET credibility_score = ?, last_updated = ? WHERE handle = ?')
+      .run(score, Date.now(), handle);
+  }
+
+  async updateAccountAccuracy(handle: string, score: number): Promise<void> {
+    this.db
+      .prepare('UPDATE tracked_accounts SET accuracy_score = ?, last_updated = ? WHERE handle = ?')
+      .run(score, Date.now(), handle);
+  }
+
+  async insertTweet(tweet: StoredTweet): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO account_tweets (id, tweet_id, handle, text, embedding, embedding_model, embedding_dim, embedding_status, timestamp, likes, retweets, replies, sentiment, topics, referenced_tweets, conversation_id, symbols, addresses, chains, protocols, mentions, credibility_at_time, stored_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      tweet.id,
+      tweet.tweetId,
+      tweet.handle,
+      tweet.text,
+      encodeEmbedding(tweet.embedding),
+      tweet.embeddingModel ?? null,
+      tweet.embedding.length,
+      tweet.embeddingStatus || 'ok',
+      tweet.timestamp,
+      tweet.likes,
+      tweet.retweets,
+      tweet.replies,
+      tweet.sentiment,
+      JSON.stringify(tweet.topics),
+      JSON.stringify(tweet.references || []),
+      tweet.conversationId ?? null,
+      JSON.stringify(tweet.symbols || []),
+      JSON.stringify(tweet.addresses || []),
+      JSON.stringify(tweet.chains || []),
+      JSON.stringify(tweet.protocols || []),
+      JSON.stringify(tweet.mentions || []),
+      tweet.credibilityAtTime,
+      tweet.storedAt
+    );
+  }
+
+  async searchTweets(
+    queryEmbedding: number[],
+    model: string,
+    limit: number,
+    category?: string
+  ): Promise<StoredTweet[]> {
+    const rows = category
+      ? this.db.prepare(`
+          SELECT t.* FROM account_tweets t
+          JOIN tracked_accounts a ON lower(a.handle) = lower(t.handle)
+          WHERE t.embedding IS NOT NULL AND t.embedding_model = ? AND a.category = ?
+        `).all(model, category)
+      : this.db
+          .prepare('SELECT * FROM account_tweets WHERE embedding IS NOT NULL AND embedding_model = ?')
+          .all(model);
+
+    return rankBySimilarity(queryEmbedding, rows.map(toStoredTweet), limit);
+  }
+
+  async searchTweetsByText(
+    term: string,
+    limit: number,
+    category?: string
+  ): Promise<{ tweets: StoredTweet[]; total: number }> {
+    const needle = term.toLowerCase();
+    const from = category
+      ? `FROM account_tweets t
+         JOIN tracked_accounts a ON lower(a.handle) = lower(t.handle)
+         WHERE instr(lower(t.text), @needle) > 0 AND a.category = @category`
+      : 'FROM account_tweets t WHERE instr(lower(t.text), @needle) > 0';
+    const params = { needle, category: category ?? null, limit };
+
+    const rows = this.db
+      .prepare(`SELECT t.* ${from} ORDER BY t.timestamp DESC LIMIT @limit`)
+      .all(params);
+    const { n } = this.db.prepare(`SELECT COUNT(*) AS n ${from}`).get(params) as { n: number };
+
+    return { tweets: rows.map(toStoredTweet), total: n };
+  }
+
+  async countTweets(category?: string): Promise<number> {
+    const row = category
+      ? this.db.prepare(`
+          SELECT COUNT(*) AS n FROM account_tweets t
+          JOIN tracked_accounts a ON lower(a.handle) = lower(t.handle)
+          WHERE a.category = ?
+        `).get(category)
+      : this.db.prepare('SELECT COUNT(*) AS n FROM account_tweets').get();
+
+    return (row as { n: number }).n;
+  }
+
+  async getTweetsPendingEmbedding(limit: number): Promise<StoredTweet[]> {
+    return this.db
+      .prepare("SELECT * FROM account_tweets WHERE embedding_status = 'failed' ORDER BY timestamp DESC LIMIT ?")
+      .all(limit)
+      .map(toStoredTweet);
+  }
+
+  async updateTweetEmbedding(id: string, embedding: number[], model: string): Promise<void> {
+    this.db
+      .prepare(`
+        UPDATE account_tweets
+        SET embedding = ?, embedding_model = ?, embedding_dim = ?, embedding_status = 'ok'
+        WHERE id = ?
+      `)
+      .run(encodeEmbedding(embedding), model, embedding.length, id);
+  }
+
+  async getTweetsByAccount(handle: string, limit?: number): Promise<StoredTweet[]> {
+    return this.db
+      .prepare('SELECT * FROM account_tweets WHERE handle = ? ORDER BY timestamp DESC LIMIT ?')
+      .all(handle, limit ?? -1)
+      .map(toStoredTweet);
+  }
+
+  async getTweetsSince(since: number, limit: number): Promise<StoredTweet[]> {
+    return this.db
+      .prepare('SELECT * FROM account_tweets WHERE timestamp >= ? ORDER BY timestamp DESC LIMIT ?')
+      .all(since, limit)
+      .map(toStoredTweet)
+      .reverse();
+  }
+
+  async getTweetsByTopics(topics: string[], limit: number): Promise<StoredTweet[]> {
+    if (topics.length === 0) return [];
+
+    return this.db.prepare(`
+      SELECT * FROM account_tweets
+      WHERE EXISTS (
+        SELECT 1 FROM json_each(account_tweets.topics)
+        WHERE json_each.value IN (${topics.map(() => '?').join(',')})
+      )
+      ORDER BY timestamp DESC
+      LIMIT ?
+    `).all(...topics, limit).map(toStoredTweet);
+  }
+
+  async getTweetsByEntity(field: EntityField, value: string, limit: number): Promise<StoredTweet[]> {
+    if (!ENTITY_FIELDS.includes(field)) throw new Error(`Unknown entity field: ${field}`);
+
+    return this.db.prepare(`
+      SELECT * FROM account_tweets
+      WHERE EXISTS (SELECT 1 FROM json_each(account_tweets.${field}) WHERE json_each.value = ?)
+      ORDER BY timestamp DESC
+      LIMIT ?
+    `).all(value, limit).map(toStoredTweet);
+  }
+
+  async getTopics(): Promise<Topic[]> {
+    return this.db.prepare('SELECT * FROM topics').all().map(toTopic);
+  }
+
+  async upsertTopic(topic: Topic): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO topics (id, label, parent_id, aliases, embedding, embedding_model, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        label = excluded.label,
+        parent_id = excluded.parent_id,
+        aliases = excluded.aliases,
+        embedding = excluded.embedding,
+        embedding_model = excluded.embedding_model,
+        updated_at = excluded.updated_at
+    `).run(
+      topic.id,
+      topic.label,
+      topic.parentId ?? null,
+      JSON.stringify(topic.aliases),
+      encodeEmbedding(topic.embedding || []),
+      topic.embeddingModel ?? null,
+      topic.createdAt,
+      topic.updatedAt
+    );
+  }
+
+  async getTweetTopicCounts(): Promise<{ topic: string; count: number }[]> {
+    return this.db.prepare(`
+      SELECT json_each.value AS topic, COUNT(*) AS count
+      FROM account_tweets, json_each(account_tweets.topics)
+      GROUP BY json_each.value
+      ORDER BY count DESC
+    `).all() as { topic: string; count: number }[];
+  }
+
+  async renameTopic(from: string, to: string): Promise<number> {
+    const rows = this.db.prepare(`
+      SELECT id, topics FROM account_tweets
+      WHERE EXISTS (SELECT 1 FROM json_each(account_tweets.topics) WHERE json_each.value = ?)
+    `).all(from) as { id: string; topics: string }[];
+
+    const update = this.db.prepare('UPDATE account_tweets SET topics = ? WHERE id = ?');
+    this.db.transaction(() => {
+      for (const row of rows) {
+        const topics: string[] = JSON.parse(row.topics || '[]');
+        const renamed = Array.from(new Set(topics.map(t => (t === from ? to : t))));
+        update.run(JSON.stringify(renamed), row.id);
+      }
+      this.db.prepare('UPDATE narrative_snapshots SET topic = ? WHERE topic = ?').run(to, from);
+    })();
+
+    return rows.length;
+  }
+
+  async insertCall(call: AccountCall): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO account_calls (id, tweet_id, handle, symbol, coin_id, direction, called_at, entry_price, status, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO NOTHING
+    `).run(
+      call.id,
+      call.tweetId,
+      call.handle,
+      call.symbol,
+      call.coinId ?? null,
+      call.direction,
+      call.calledAt,
+      call.entryPrice ?? null,
+      call.status,
+      call.updatedAt
+    );
+  }
+
+  async hasCall(id: string): Promise<boolean> {
+    return this.db.prepare('SELECT 1 FROM account_calls WHERE id = ?').get(id) !== undefined;
+  }
+
+  async updateCall(call: AccountCall): Promise<void> {
+    const { outcomes } = call;
+    this.db.prepare(`
+      UPDATE account_calls SET
+        coin_id = ?, entry_price = ?,
+        price_1d = ?, return_1d = ?, price_7d = ?, return_7d = ?, price_30d = ?, return_30d = ?,
+        status = ?, updated_at = ?
+      WHERE id = ?
+    `).run(
+      call.coinId ?? null,
+      call.entryPrice ?? null,
+      outcomes['1d']?.price ?? null,
+      outcomes['1d']?.return ?? null,
+      outcomes['7d']?.price ?? null,
+      outcomes['7d']?.return ?? null,
+      outcomes['30d']?.price ?? null,
+      outcomes['30d']?.return ?? null,
+      call.status,
+      call.updatedAt,
+      call.id
+    );
+  }
+
+  async getOpenCalls(calledBefore: number, limit: number): Promise<AccountCall[]> {
+    return this.db.prepare(`
+      SELECT * FROM account_calls
+      WHERE status = 'open' AND called_at < ?
+      ORDER BY updated_at ASC
+      LIMIT ?
+    `).all(calledBefore, limit).map(toAccountCall);
+  }
+
+  async getCallsByAccount(handle: string): Promise<AccountCall[]> {
+    return this.db
+      .prepare('SELECT * FROM account_calls WHERE handle = ? ORDER BY called_at DESC')
+      .all(handle)
+      .map(toAccountCall);
+  }
+
+  async insertNarrativeSnapshot(snapshot: NarrativeSnapshot): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO narrative_snapshots (topic, date, sentiment, top_accounts, avg_credibility, mention_count, timestamp)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      snapshot.topic,
+      snapshot.date,
+      JSON.stringify(snapshot.sentiment),
+      JSON.stringify(snapshot.topAccounts),
+      snapshot.avgCredibility,
+      snapshot.mentionCount,
+      snapshot.timestamp
+    );
+  }
+
+  async getLatestSnapshotBefore(topic: string, before: number): Promise<NarrativeSnapshot | null> {
+    const row = this.db.prepare(`
+      SELECT * FROM narrative_snapshots
+      WHERE topic = ? AND timestamp < ?
+      ORDER BY timestamp DESC
+      LIMIT 1
+    `).get(topic, before) as any;
+
+    if (!row) return null;
+    return {
+      topic: row.topic,
+      date: row.date,
+      sentiment: JSON.parse(row.sentiment),
+      topAccounts: JSON.parse(row.top_accounts || '[]'),
+      avgCredibility: row.avg_credibility,
+      mentionCount: row.mention_count,
+      timestamp: row.timestamp
+    };
+  }
+
+  async getRecentSnapshotTopics(limit: number): Promise<string[]> {
+    const rows = this.db.prepare(`
+      SELECT topic FROM narrative_snapshots
+      GROUP BY topic
+      ORDER BY MAX(timestamp) DESC
+      LIMIT ?
+    `).all(limit) as { topic: string }[];
+    return rows.map(r => r.topic);
+  }
+
+  async upsertInfluence(influence: IAccountInfluence): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO account_influence (handle, credibility, influence_score, cited_count, conversation_starter_score, early_narrative_score, accuracy, momentum, tier, evidence, last_updated)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(handle) DO UPDATE SET
+        credibility = excluded.credibility,
+        influence_score = excluded.influence_score,
+        cited_count = excluded.cited_count,
+        conversation_starter_score = excluded.conversation_starter_score,
+        early_narrative_score = excluded.early_narrative_score,
+        accuracy = excluded.accuracy,
+        momentum = excluded.momentum,
+        tier = excluded.tier,
+        evidence = excluded.evidence,
+        last_updated = excluded.last_updated
+    `).run(
+      influence.handle.toLowerCase(),
+      influence.credibility,
+      influence.influenceScore,
+      influence.citedByOthers,
+      influence.conversationStarter,
+      influence.earlyNarratives,
+      influence.accuracy,
+      influence.momentum,
+      influence.tier,
+      influence.evidence ? JSON.stringify(influence.evidence) : null,
+      influence.lastUpdated
+    );
+  }
+
+  async getTopInfluence(limit: number): Promise<IAccountInfluence[]> {
+    return this.db
+      .prepare('SELECT * FROM account_influence ORDER BY influence_score DESC LIMIT ?')
+      .all(limit)
+      .map(toInfluence);
+  }
+
+  async getInfluenceByTier(tier: IAccountInfluence['tier']): Promise<IAccountInfluence[]> {
+    return this.db
+      .prepare('SELECT * FROM account_influence WHERE tier = ? ORDER BY influence_score DESC')
+      .all(tier)
+      .map(toInfluence);
+  }
+
+  async getInfluenceByHandles(handles: string[]): Promise<IAccountInfluence[]> {
+    if (handles.length === 0) return [];
+
+    return this.db
+      .prepare(`SELECT * FROM account_influence WHERE handle IN (${handles.map(() => '?').join(',')})`)
+      .all(...handles.map(h => h.toLowerCase()))
+      .map(toInfluence);
+  }
+
+  async insertInfluenceHistory(point: InfluenceHistoryPoint): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO account_influence_history (handle, influence_score, credibility, cited_count, conversation_starter_score, early_narrative_score, accuracy, tier, scored_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      point.handle.toLowerCase(),
+      point.influenceScore,
+      point.credibility,
+      point.citedByOthers,
+      point.conversationStarter,
+      point.earlyNarratives,
+      point.accuracy,
+      point.tier,
+      point.scoredAt
+    );
+  }
+
+  async getInfluenceHistory(handle: string, since: number, limit?: number): Promise<InfluenceHistoryPoint[]> {
+    // Newest `limit` rows, returned oldest first
+    const rows = this.db.prepare(`
+      SELECT * FROM account_influence_history
+      WHERE handle = ? AND scored_at >= ?
+      ORDER BY scored_at DESC
+      LIMIT ?
+    `).all(handle.toLowerCase(), since, limit ?? -1);
+
+    return rows.map(toInfluenceHistoryPoint).reverse();
+  }
+
+  async upsertCandidate(candidate: DiscoveryCandidate): Promise<void> {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO discovery_candidates (handle, score, category, reason, last_seen, confirmation_count, status, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      candidate.handle,
+      candidate.score,
+      candidate.category,
+      candidate.reason,
+      candidate.lastSeen,
+      candidate.confirmationCount,
+      candidate.status,
+      Date.now()
+    );
+  }
+
+  async getCandidates(status?: string): Promise<DiscoveryCandidate[]> {
+    const rows = status
+      ? this.db.prepare('SELECT * FROM discovery_candidates WHERE status = ?').all(status)
+      : this.db.prepare('SELECT * FROM discovery_candidates').all();
+    return rows.map(toCandidate);
+  }
+
+  async updateCandidateStatus(handle: string, status: DiscoveryCandidate['status']): Promise<void> {
+    this.db
+      .prepare('UPDATE discovery_candidates SET status = ?, updated_at = ? WHERE handle = ?')
+      .run(status, Date.now(), handle);
+  }
+
+  async deleteCandidatesByStatus(status: DiscoveryCandidate['status']): Promise<number> {
+    return this.db.prepare('DELETE FROM discovery_candidates WHERE status = ?').run(status).changes;
+  }
+
+  async insertDiscoveryRun(run: DiscoveryRun): Promise<void> {
+    this.db
+      .prepare('INSERT INTO discovery_runs (found, added, approved, timestamp) VALUES (?, ?, ?, ?)')
+      .run(run.found, run.added, run.approved, run.timestamp);
+  }
+
+  async getDiscoveryRuns(limit: number): Promise<DiscoveryRun[]> {
+    return this.db
+      .prepare('SELECT found, added, approved, timestamp FROM discovery_runs ORDER BY timestamp DESC LIMIT ?')
+      .all(limit) as DiscoveryRun[];
+  }
+
+  async insertTweetPerformance(performance: TweetPerformance): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO tweet_performance (tweet_id, content, themes, posted_at, sentiment, format, likes_1h, likes_24h, retweets_1h, retweets_24h, replies_1h, replies_24h, engagement_rate)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      performance.tweetId,
+      performance.content,
+      JSON.stringify(performance.themes),
+      performance.postedAt,
+      performance.sentiment,
+      performance.format,
+      performance.likes_1h,
+      performance.likes_24h,
+      performance.retweets_1h,
+      performance.retweets_24h,
+      performance.replies_1h,
+      performance.replies_24h,
+      performance.engagement_rate
+    );
+  }
+
+  async getTweetPerformance(tweetId: string): Promise<TweetPerformance | null> {
+    const row = this.db.prepare('SELECT * FROM tweet_performance WHERE tweet_id = ?').get(tweetId);
+    return row ? toTweetPerformance(row) : null;
+  }
+
+  async updateTweetPerformance(tweetId: string, update: Partial<TweetPerformance>): Promise<void> {
+    this.db.prepare(`
+      UPDATE tweet_performance SET
+        likes_1h = COALESCE(?, likes_1h),
+        likes_24h = COALESCE(?, likes_24h),
+        retweets_1h = COALESCE(?, retweets_1h),
+        retweets_24h = COALESCE(?, retweets_24h),
+        replies_1h = COALESCE(?, replies_1h),
+        replies_24h = COALESCE(?, replies_24h),
+        impressions = COALESCE(?, impressions),
+        engagement_rate = COALESCE(?, engagement_rate),
+        last_updated = ?
+      WHERE tweet_id = ?
+    `).run(
+      update.likes_1h ?? null,
+      update.likes_24h ?? null,
+      update.retweets_1h ?? null,
+      update.retweets_24h ?? null,
+      update.replies_1h ?? null,
+      update.replies_24h ?? null,
+      update.impressions ?? null,
+      update.engagement_rate ?? null,
+      Date.now(),
+      tweetId
+    );
+  }
+
+  async queryTweetPerformance(query: TweetPerformanceQuery): Promise<TweetPerformance[]> {
+    const orderColumn = query.orderBy === 'likes24h' ? 'likes_24h' : 'posted_at';
+    const themeFilter = query.theme
+      ? 'AND EXISTS (SELECT 1 FROM json_each(tweet_performance.themes) WHERE json_each.value = @theme)'
+      : '';
+
+    return this.db.prepare(`
+      SELECT * FROM tweet_performance
+      WHERE posted_at > @since ${themeFilter}
+      ORDER BY ${orderColumn} DESC
+      LIMIT @limit
+    `).all({
+      since: query.since,
+      theme: query.theme ?? null,
+      limit: query.limit ?? -1
+    }).map(toTweetPerformance);
+  }
+
+  async insertPerformanceAnalysis(analysis: PerformanceAnalysis): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO performance_analysis (date, patterns, recommendations, timestamp)
+      VALUES (?, ?, ?, ?)
+    `).run(
+      analysis.date,
+      JSON.stringify(analysis.patterns),
+      JSON.stringify(analysis.recommendations),
+      analysis.timestamp
+    );
+  }
+}
@@ -0,0 +1,147 @@
+import { StoredTweet, TrackedAccount } from './types.js';
+import { NarrativeSnapshot } from './narrative-shifts.js';
+import { IAccountInfluence } from './account-influence.js';
+import { DiscoveryCandidate } from './account-discovery.js';
+import { TweetPerformance } from './performance-tracker.js';
+import { EntityField } from './entity-extractor.js';
+import { Topic } from './topic-taxonomy.js';
+import { AccountCall } from './call-tracker.js';
+import { InfluenceHistoryPoint } from './influence-momentum.js';
+import { SupabaseStore } from './supabase-store.js';
+import { SqliteStore } from './sqlite-store.js';
+import { logger } from '../shared/logger.js';
+
+export interface DiscoveryRun {
+  found: number;
+  added: number;
+  approved: number;
+  timestamp: number;
+}
+
+export interface PerformanceAnalysis {
+  date: string; // YYYY-MM-DD
+  patterns: any[];
+  recommendations: string[];
+  timestamp: number;
+}
+
+export interface TweetPerformanceQuery {
+  since: number; // only tweets posted after this timestamp
+  theme?: string;
+  orderBy?: 'postedAt' | 'likes24h'; // always descending
+  limit?: number;
+}
+
+/**
+ * IntelligenceStore - persistence for the intelligence network
+ * Backends throw on failure; callers own logging and fallbacks
+ */
+export interface IntelligenceStore {
+  readonly backend: 'supabase' | 'sqlite';
+
+  init(): Promise<void>;
+
+  // Tracked accounts
+  upsertAccount(account: TrackedAccount): Promise<void>;
+  getAccountsByCategory(category: string): Promise<TrackedAccount[]>;
+  getTopAccounts(limit: number): Promise<TrackedAccount[]>;
+  getAccountsByHandles(handles: string[]): Promise<TrackedAccount[]>;
+  updateAccountCredibility(handle: string, score: number): Promise<void>;
+  updateAccountAccuracy(handle: string, score: number): Promise<void>;
+
+  // Tweets from tracked accounts
+  insertTweet(tweet: StoredTweet): Promise<void>;
+  // Only compares against rows embedded by `model`
+  searchTweets(
+    queryEmbedding: number[],
+    model: string,
+    limit: number,
+    category?: string
+  ): Promise<StoredTweet[]>;
+  // Case-insensitive substring match, newest first; `total` counts every match
+  searchTweetsByText(
+    term: string,
+    limit: number,
+    category?: string
+  ): Promise<{ tweets: StoredTweet[]; total: number }>;
+  countTweets(category?: string): Promise<number>;
+  getTweetsPendingEmbedding(limit: number): Promise<StoredTweet[]>;
+  updateTweetEmbedding(id: string, embedding: number[], model: string): Promise<void>;
+  getTweetsByAccount(handle: string, limit?: number): Promise<StoredTweet[]>;
+  // The newest `limit` tweets since `since`, returned oldest first; embeddings may be omitted
+  getTweetsSince(since: number, limit: number): Promise<StoredTweet[]>;
+  // Tweets tagged with any of `topics` (canonical ids), newest first
+  getTweetsByTopics(topics: string[], limit: number): Promise<StoredTweet[]>;
+  // Exact match on one of the extracted entity arrays, newest first
+  getTweetsByEntity(field: EntityField, value: string, limit: number): Promise<StoredTweet[]>;
+
+  // Topic taxonomy
+  getTopics(): Promise<Topic[]>;
+  upsertTopic(topic: Topic): Promise<void>;
+  getTweetTopicCounts(): Promise<{ topic: string; count: number }[]>;
+  // Rewrites `from` to `to` on tweets and narrative snapshots; returns tweets changed
+  renameTopic(from: string, to: string): Promise<number>;
+
+  // Directional calls and their price outcomes (see call-tracker.ts)
+  // Re-recording an existing call id is a no-op
+  insertCall(call: AccountCall): Promise<void>;
+  hasCall(id: string): Promise<boolean>;
+  updateCall(call: AccountCall): Promise<void>;
+  // Open calls made before `calledBefore`, least recently updated first
+  getOpenCalls(calledBefore: number, limit: number): Promise<AccountCall[]>;
+  getCallsByAccount(handle: string): Promise<AccountCall[]>;
+
+  // Narrative snapshots
+  insertNarrativeSnapshot(snapshot: NarrativeSnapshot): Promise<void>;
+  getLatestSnapshotBefore(topic: string, before: number): Promise<NarrativeSnapshot | null>;
+  getRecentSnapshotTopics(limit: number): Promise<string[]>;
+
+  // Account influence
+  upsertInfluence(influence: IAccountInfluence): Promise<void>;
+  getTopInfluence(limit: number): Promise<IAccountInfluence[]>;
+  getInfluenceByTier(tier: IAccountInfluence['tier']): Promise<IAccountInfluence[]>;
+  getInfluenceByHandles(handles: string[]): Promise<IAccountInfluence[]>;
+  // Append-only log of every scoring run
+  insertInfluenceHistory(point: InfluenceHistoryPoint): Promise<void>;
+  // Runs for `handle` scored at or after `since`, oldest first
+  getInfluenceHistory(handle: string, since: number, limit?: number): Promise<InfluenceHistoryPoint[]>;
+
+  // Account discovery
+  upsertCandidate(candidate: DiscoveryCandidate): Promise<void>;
+  getCandidates(status?: string): Promise<DiscoveryCandidate[]>;
+  updateCandidateStatus(handle: string, status: DiscoveryCandidate['status']): Promise<void>;
+  deleteCandidatesByStatus(status: DiscoveryCandidate['status']): Promise<number>;
+  insertDiscoveryRun(run: DiscoveryRun): Promise<void>;
+  getDiscoveryRuns(limit: number): Promise<DiscoveryRun[]>;
+
+  // Published tweet performance
+  insertTweetPerformance(performance: TweetPerformance): Promise<void>;
+  getTweetPerformance(tweetId: string): Promise<TweetPerformance | null>;
+  updateTweetPerformance(tweetId: string, update: Partial<TweetPerformance>): Promise<void>;
+  queryTweetPerformance(query: TweetPerformanceQuery): Promise<TweetPerformance[]>;
+  insertPerformanceAnalysis(analysis: PerformanceAnalysis): Promise<void>;
+}
+
+/**
+ * Pick a backend from INTELLIGENCE_STORE ('supabase' | 'sqlite').
+ * Defaults to Supabase when SUPABASE_URL is set, otherwise local SQLite.
+ */
+export function createIntelligenceStore(
+  backend: string | undefined = process.env.INTELLIGENCE_STORE
+): IntelligenceStore {
+  const selected = backend || (process.env.SUPABASE_URL ? 'supabase' : 'sqlite');
+
+  if (selected === 'sqlite') {
+    logger.info('Intelligence store: SQLite (deciresearch.db)');
+    return new SqliteStore();
+  }
+
+  if (selected !== 'supabase') {
+    logger.warn(`Unknown INTELLIGENCE_STORE "${selected}", using Supabase`);
+  }
+
+  logger.info('Intelligence store: Supabase');
+  return new SupabaseStore(process.env.SUPABASE_URL || '', process.env.SUPABASE_KEY || '');
+}
+
+export const intelligenceStore = createIntelligenceStore();
@@ -0,0 +1,889 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { StoredTweet, TrackedAccount } from './types.js';
+import { NarrativeSnapshot } from './narrative-shifts.js';
+import { IAccountInfluence } from './account-influence.js';
+import { DiscoveryCandidate } from './account-discovery.js';
+import { TweetPerformance } from './performance-tracker.js';
+import {
+  IntelligenceStore,
+  DiscoveryRun,
+  PerformanceAnalysis,
+  TweetPerformanceQuery
+} from './store.js';
+import { rankBySimilarity } from './embeddings.js';
+import { EntityField } from './entity-extractor.js';
+import { Topic } from './topic-taxonomy.js';
+import { AccountCall, CallHorizon } from './call-tracker.js';
+import { InfluenceHistoryPoint } from './influence-momentum.js';
+import { logger } from '../shared/logger.js';
+
+// How many recent tweets the local fallback scores per query
+const LOCAL_SEARCH_POOL_SIZE = 500;
+
+// Rows per request when paging; at or under PostgREST's default max-rows
+const SINCE_PAGE_SIZE = 1000;
+
+// Escape LIKE wildcards so terms are matched literally
+function escapeLike(term: string): string {
+  return term.replace(/[\\%_]/g, '\\$&');
+}
+
+// pgvector columns come back from PostgREST as '[0.1,0.2,...]' strings
+function parseEmbedding(value: any): number[] {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string' && value.length > 0) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+  return [];
+}
+
+function toTrackedAccount(row: any): TrackedAccount {
+  return {
+    id: row.id,
+    handle: row.handle,
+    category: row.category,
+    credibilityScore: row.credibility_score ?? 50,
+    followerCount: row.follower_count || 0,
+    engagementRate: row.engagement_rate || 0,
+    accuracyScore: row.accuracy_score ?? 50,
+    tags: row.tags || [],
+    addedAt: Number(row.added_at),
+    lastUpdated: Number(row.last_updated)
+  };
+}
+
+function toStoredTweet(row: any): StoredTweet {
+  const tweet: StoredTweet = {
+    id: row.id,
+    tweetId: row.tweet_id,
+    handle: row.handle,
+    text: row.text,
+    embedding: parseEmbedding(row.embedding),
+    embeddingModel: row.embedding_model ?? undefined,
+    embeddingDim: row.embedding_dim ?? undefined,
+    embeddingStatus: row.embedding_status ?? 'ok',
+    timestamp: Number(row.timestamp),
+    likes: row.likes || 0,
+    retweets: row.retweets || 0,
+    replies: row.replies || 0,
+    sentiment: row.sentiment || 'neutral',
+    topics: row.topics || [],
+    references: row.referenced_tweets || [],
+    conversationId: row.conversation_id ?? undefined,
+    symbols: row.symbols || [],
+    addresses: row.addresses || [],
+    chains: row.chains || [],
+    protocols: row.protocols || [],
+    mentions: row.mentions || [],
+    credibilityAtTime: row.credibility_at_time ?? 0,
+    storedAt: Number(row.stored_at)
+  };
+
+  if (row.similarity !== undefined && row.similarity !== null) {
+    tweet.similarity = Number(row.similarity);
+  }
+
+  return tweet;
+}
+
+function toTopic(row: any): Topic {
+  return {
+    id: row.id,
+    label: row.label,
+    parentId: row.parent_id ?? undefined,
+    aliases: row.aliases || [],
+    embedding: row.embedding ? parseEmbedding(row.embedding) : undefined,
+    embeddingModel: row.embedding_model ?? undefined,
+    createdAt: Number(row.created_at),
+    updatedAt: Number(row.updated_at)
+  };
+}
+
+// call-tracker.ts imports the store, so its runtime exports can't be used here
+const CALL_HORIZON_COLUMNS: CallHorizon[] = ['1d', '7d', '30d'];
+
+function toAccountCall(row: any): AccountCall {
+  const outcomes: AccountCall['outcomes'] = {};
+  for (const horizon of CALL_HORIZON_COLUMNS) {
+    const price = row[`price_${horizon}`];
+    const ret = row[`return_${horizon}`];
+    if (price !== null && price !== undefined && ret !== null && ret !== undefined) {
+      outcomes[horizon] = { price: Number(price), return: Number(ret), hit: Number(ret) > 0 };
+    }
+  }
+
+  return {
+    id: row.id,
+    tweetId: row.tweet_id,
+    handle: row.handle,
+    symbol: row.symbol,
+    coinId: row.coin_id ?? undefined,
+    direction: row.direction,
+    calledAt: Number(row.called_at),
+    entryPrice: row.entry_price ?? undefined,
+    outcomes,
+    status: row.status,
+    updatedAt: Number(row.updated_at)
+  };
+}
+
+function toInfluence(row: any): IAccountInfluence {
+  return {
+    handle: row.handle,
+    credibility: Number(row.credibility),
+    influenceScore: Number(row.influence_score),
+    citedByOthers: Number(row.cited_count),
+    conversationStarter: Number(row.conversation_starter_score),
+    earlyNarratives: Number(row.early_narrative_score),
+    accuracy: Number(row.accuracy),
+    momentum: row.momentum,
+    tier: row.tier,
+    lastUpdated: new Date(row.last_updated).getTime(),
+    evidence: row.evidence ?? undefined
+  };
+}
+
+function toInfluenceHistoryPoint(row: any): InfluenceHistoryPoint {
+  return {
+    handle: row.handle,
+    influenceScore: Number(row.influence_score),
+    credibility: Number(row.credibility),
+    citedByOthers: Number(row.cited_count),
+    conversationStarter: Number(row.conversation_starter_score),
+    earlyNarratives: Number(row.early_narrative_score),
+    accuracy: Number(row.accuracy),
+    tier: row.tier,
+    scoredAt: new Date(row.scored_at).getTime()
+  };
+}
+
+function toCandidate(row: any): DiscoveryCandidate {
+  return {
+    handle: row.handle,
+    score: row.score,
+    category: row.category,
+    reason: row.reason,
+    lastSeen: row.last_seen,
+    confirmationCount: row.confirmation_count,
+    status: row.status
+  };
+}
+
+function toTweetPerformance(row: any): TweetPerformance {
+  return {
+    tweetId: row.tweet_id,
+    content: row.content,
+    themes: row.themes || [],
+    postedAt: Number(row.posted_at),
+    likes_1h: row.likes_1h || 0,
+    likes_24h: row.likes_24h || 0,
+    retweets_1h: row.retweets_1h || 0,
+    retweets_24h: row.retweets_24h || 0,
+    replies_1h: row.replies_1h || 0,
+    replies_24h: row.replies_24h || 0,
+    engagement_rate: row.engagement_rate || 0,
+    impressions: row.impressions ?? undefined,
+    sentiment: row.sentiment,
+    format: row.format
+  };
+}
+
+/**
+ * SupabaseStore - Postgres + pgvector backend (production)
+ */
+export class SupabaseStore implements IntelligenceStore {
+  readonly backend = 'supabase' as const;
+  private supabase: SupabaseClient;
+
+  constructor(url: string, key: string) {
+    this.supabase = createClient(url, key);
+  }
+
+  async init(): Promise<void> {
+    // Tables are created via supabase/migrations and PRODUCTION_SETUP.md
+    await this.supabase.rpc('create_tables_if_not_exist');
+  }
+
+  async upsertAccount(account: TrackedAccount): Promise<void> {
+    const { error } = await this.supabase.from('tracked_accounts').upsert({
+      id: account.id,
+      handle: account.handle,
+      category: account.category,
+      credibility_score: account.credibilityScore,
+      follower_count: account.followerCount,
+      engagement_rate: account.engagementRate,
+      accuracy_score: account.accuracyScore,
+      tags: account.tags,
+      added_at: account.addedAt,
+      last_updated: account.lastUpdated
+    });
+
+    if (error) throw error;
+  }
+
+  async getAccountsByCategory(category: string): Promise<TrackedAccount[]> {
+    const { data, error } = await this.supabase
+      .from('tracked_accounts')
+      .select('*')
+      .eq('category', category)
+      .order('credibility_score', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(toTrackedAccount);
+  }
+
+  async getTopAccounts(limit: number): Promise<TrackedAccount[]> {
+    const { data, error } = await this.supabase
+      .from('tracked_accounts')
+      .select('*')
+      .order('credibility_score', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map(toTrackedAccount);
+  }
+
+  async getAccountsByHandles(handles: string[]): Promise<TrackedAccount[]> {
+    if (handles.length === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from('tracked_accounts')
+      .select('*')
+      .in('handle', handles);
+
+    if (error) throw error;
+    return (data || []).map(toTrackedAccount);
+  }
+
+  async updateAccountCredibility(handle: string, score: number): Promise<void> {
+    const { error } = await this.supabase
+      .from('tracked_accounts')
+      .update({
+        credibility_score: score,
+        last_updated: Date.now()
+      })
+      .eq('handle', handle);
+
+    if (error) throw error;
+  }
+
+  async updateAccountAccuracy(handle: string, score: number): Promise<void> {
+    const { error } = await this.supabase
+      .from('tracked_accounts')
+      .update({
+        accuracy_score: score,
+        last_updated: Date.now()
+      })
+      .eq('handle', handle);
+
+    if (error) throw error;
+  }
+
+  async insertTweet(tweet: StoredTweet): Promise<void> {
+    const { error } = await this.supabase.from('tweets').insert({
+      id: tweet.id,
+      tweet_id: tweet.tweetId,
+      handle: tweet.handle,
+      text: tweet.text,
+      embedding: tweet.embedding.length > 0 ? tweet.embedding : null,
+      embedding_model: tweet.embeddingModel,
+      embedding_dim: tweet.embedding.length,
+      embedding_status: tweet.embeddingStatus || 'ok',
+      timestamp: tweet.timestamp,
+      likes: tweet.likes,
+      retweets: tweet.retweets,
+      replies: tweet.replies,
+      sentiment: tweet.sentiment,
+      topics: tweet.topics,
+      referenced_tweets: tweet.references || [],
+      conversation_id: tweet.conversationId ?? null,
+      symbols: tweet.symbols || [],
+      addresses: tweet.addresses || [],
+      chains: tweet.chains || [],
+      protocols: tweet.protocols || [],
+      mentions: tweet.mentions || [],
+      credibility_at_time: tweet.credibilityAtTime,
+      stored_at: tweet.storedAt
+    });
+
+    if (error) throw error;
+  }
+
+  async searchTweets(
+    queryEmbedding: number[],
+    model: string,
+    limit: number,
+    category?: string
+  ): Promise<StoredTweet[]> {
+    // pgvector top-k search (see supabase/migrations/20261027_match_tweets_index.sql)
+    const { data, error } = await this.supabase.rpc('match_tweets', {
+      query_embedding: queryEmbedding,
+      filter_model: model,
+      match_count: limit,
+      filter_category: category || null
+    });
+
+    if (!error) {
+      return (data || []).map(toStoredTweet);
+    }
+
+    logger.warn('match_tweets RPC unavailable, using local search', error.message);
+    return this.localSearchTweets(queryEmbedding, model, limit, category);
+  }
+
+  // Brute-force cosine search over the most recent tweets.
+  // Mirrors match_tweets for projects without the RPC installed.
+  private async localSearchTweets(
+    queryEmbedding: number[],
+    model: string,
+    limit: number,
+    category?: string
+  ): Promise<StoredTweet[]> {
+    let query = this.supabase
+      .from('tweets')
+      .select('*')
+      .eq('embedding_model', model)
+      .eq('embedding_status', 'ok')
+      .order('timestamp', { ascending: false })
+      .limit(LOCAL_SEARCH_POOL_SIZE);
+
+    if (category) {
+      const accounts = await this.getAccountsByCategory(category);
+      if (accounts.length === 0) return [];
+      query = query.in('handle', accounts.map(a => a.handle));
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return rankBySimilarity(queryEmbedding, (data || []).map(toStoredTweet), limit);
+  }
+
+  async searchTweetsByText(
+    term: string,
+    limit: number,
+    category?: string
+  ): Promise<{ tweets: StoredTweet[]; total: number }> {
+    let query = this.supabase
+      .from('tweets')
+      .select('*', { count: 'exact' })
+      .ilike('text', `%${escapeLike(term)}%`)
+      .order('timestamp', { ascending: false })
+      .limit(limit);
+
+    if (category) {
+      const accounts = await this.getAccountsByCategory(category);
+      if (accounts.length === 0) return { tweets: [], total: 0 };
+      query = query.in('handle', accounts.map(a => a.handle));
+    }
+
+    const { data, error, count } = await query;
+    if (error) throw error;
+
+    const tweets = (data || []).map(toStoredTweet);
+    return { tweets, total: count ?? tweets.length };
+  }
+
+  async countTweets(category?: string): Promise<number> {
+    let query = this.supabase.from('tweets').select('id', { count: 'exact', head: true });
+
+    if (category) {
+      const accounts = await this.getAccountsByCategory(category);
+      if (accounts.length === 0) return 0;
+      query = query.in('handle', accounts.map(a => a.handle));
+    }
+
+    const { error, count } = await query;
+    if (error) throw error;
+    return count || 0;
+  }
+
+  async getTweetsPendingEmbedding(limit: number): Promise<StoredTweet[]> {
+    const { data, error } = await this.supabase
+      .from('tweets')
+      .select('*')
+      .eq('embedding_status', 'failed')
+      .order('timestamp', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map(toStoredTweet);
+  }
+
+  async updateTweetEmbedding(id: string, embedding: number[], model: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('tweets')
+      .update({
+        embedding,
+        embedding_model: model,
+        embedding_dim: embedding.length,
+        embedding_status: 'ok'
+      })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async getTweetsByAccount(handle: string, limit?: number): Promise<StoredTweet[]> {
+    let query = this.supabase
+      .from('tweets')
+      .select('*')
+      .eq('handle', handle)
+      .order('timestamp', { ascending: false });
+
+    if (limit) {
+      query = query.limit(limit);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(toStoredTweet);
+  }
+
+  async getTweetsSince(since: number, limit: number): Promise<StoredTweet[]> {
+    // PostgREST caps each response (max-rows, 1000 by default), so page newest first until done
+    const rows: any[] = [];
+    while (rows.length < limit) {
+      const pageSize = Math.min(SINCE_PAGE_SIZE, limit - rows.length);
+      // Graph scans don't need vectors; skipping them keeps the payload small
+      const { data, error } = await this.supabase
+        .from('tweets')
+        .select(
+          'id, tweet_id, handle, text, timestamp, likes, retweets, replies, sentiment, topics, referenced_tweets, conversation_id, symbols, addresses, chains, protocols, mentions, credibility_at_time, stored_at'
+        )
+        .gte('timestamp', since)
+        .order('timestamp', { ascending: false })
+        .order('id', { ascending: false })
+        .range(rows.length, rows.length + pageSize - 1);
+
+      if (error) throw error;
+      rows.push(...(data || []));
+      if (!data || data.length < pageSize) break;
+    }
+    return rows.map(toStoredTweet).reverse();
+  }
+
+  async getTweetsByTopics(topics: string[], limit: number): Promise<StoredTweet[]> {
+    if (topics.length === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from('tweets')
+      .select('*')
+      .overlaps('topics', topics)
+      .order('timestamp', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map(toStoredTweet);
+  }
+
+  async getTweetsByEntity(field: EntityField, value: string, limit: number): Promise<StoredTweet[]> {
+    const { data, error } = await this.supabase
+      .from('tweets')
+      .select('*')
+      .contains(field, [value])
+      .order('timestamp', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map(toStoredTweet);
+  }
+
+  async getTopics(): Promise<Topic[]> {
+    const { data, error } = await this.supabase.from('topics').select('*');
+
+    if (error) throw error;
+    return (data || []).map(toTopic);
+  }
+
+  async upsertTopic(topic: Topic): Promise<void> {
+    const { error } = await this.supabase.from('topics').upsert({
+      id: topic.id,
+      label: topic.label,
+      parent_id: topic.parentId ?? null,
+      aliases: topic.aliases,
+      embedding: topic.embedding && topic.embedding.length > 0 ? topic.embedding : null,
+      embedding_model: topic.embeddingModel ?? null,
+      created_at: topic.createdAt,
+      updated_at: topic.updatedAt
+    });
+
+    if (error) throw error;
+  }
+
+  async getTweetTopicCounts(): Promise<{ topic: string; count: number }[]> {
+    // See supabase/migrations/20261022_topic_taxonomy.sql
+    const { data, error } = await this.supabase.rpc('tweet_topic_counts');
+
+    if (error) throw error;
+    return (data || []).map((row: any) => ({ topic: row.topic, count: Number(row.count) }));
+  }
+
+  async renameTopic(from: string, to: string): Promise<number> {
+    const { data, error } = await this.supabase.rpc('rename_topic', {
+      from_topic: from,
+      to_topic: to
+    });
+
+    if (error) throw error;
+    return Number(data) || 0;
+  }
+
+  async insertCall(call: AccountCall): Promise<void> {
+    const { error } = await this.supabase.from('account_calls').upsert(
+      {
+        id: call.id,
+        tweet_id: call.tweetId,
+        handle: call.handle,
+        symbol: call.symbol,
+        coin_id: call.coinId ?? null,
+        direction: call.direction,
+        called_at: call.calledAt,
+        entry_price: call.entryPrice ?? null,
+        status: call.status,
+        updated_at: call.updatedAt
+      },
+      { onConflict: 'id', ignoreDuplicates: true }
+    );
+
+    if (error) throw error;
+  }
+
+  async hasCall(id: string): Promise<boolean> {
+    const { count, error } = await this.supabase
+      .from('account_calls')
+      .select('id', { count: 'exact', head: true })
+      .eq('id', id);
+
+    if (error) throw error;
+    return (count ?? 0) > 0;
+  }
+
+  async updateCall(call: AccountCall): Promise<void> {
+    const { outcomes } = call;
+    const { error } = await this.supabase
+      .from('account_calls')
+      .update({
+        coin_id: call.coinId ?? null,
+        entry_price: call.entryPrice ?? null,
+        price_1d: outcomes['1d']?.price ?? null,
+        return_1d: outcomes['1d']?.return ?? null,
+        price_7d: outcomes['7d']?.price ?? null,
+        return_7d: outcomes['7d']?.return ?? null,
+        price_30d: outcomes['30d']?.price ?? null,
+        return_30d: outcomes['30d']?.return ?? null,
+        status: call.status,
+        updated_at: call.updatedAt
+      })
+      .eq('id', call.id);
+
+    if (error) throw error;
+  }
+
+  async getOpenCalls(calledBefore: number, limit: number): Promise<AccountCall[]> {
+    const { data, error } = await this.supabase
+      .from('account_calls')
+      .select('*')
+      .eq('status', 'open')
+      .lt('called_at', calledBefore)
+      .order('updated_at', { ascending: true })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map(toAccountCall);
+  }
+
+  async getCallsByAccount(handle: string): Promise<AccountCall[]> {
+    const { data, error } = await this.supabase
+      .from('account_calls')
+      .select('*')
+      .eq('handle', handle)
+      .order('called_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(toAccountCall);
+  }
+
+  async insertNarrativeSnapshot(snapshot: NarrativeSnapshot): Promise<void> {
+    const { error } = await this.supabase.from('narrative_snapshots').insert({
+      topic: snapshot.topic,
+      date: snapshot.date,
+      sentiment: snapshot.sentiment,
+      top_accounts: snapshot.topAccounts,
+      avg_credibility: snapshot.avgCredibility,
+      mention_count: snapshot.mentionCount,
+      timestamp: snapshot.timestamp
+    });
+
+    if (error) throw error;
+  }
+
+  async getLatestSnapshotBefore(topic: string, before: number): Promise<NarrativeSnapshot | null> {
+    const { data, error } = await this.supabase
+      .from('narrative_snapshots')
+      .select('*')
+      .eq('topic', topic)
+      .lt('timestamp', before)
+      .order('timestamp', { ascending: false })
+      .limit(1);
+
+    if (error) throw error;
+    if (!data || data.length === 0) return null;
+
+    const row = data[0] as any;
+    return {
+      topic: row.topic,
+      date: row.date,
+      sentiment: row.sentiment,
+      topAccounts: row.top_accounts || [],
+      avgCredibility: row.avg_credibility,
+      mentionCount: row.mention_count,
+      timestamp: Number(row.timestamp)
+    };
+  }
+
+  async getRecentSnapshotTopics(limit: number): Promise<string[]> {
+    const { data, error } = await this.supabase
+      .from('narrative_snapshots')
+      .select('topic')
+      .order('timestamp', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return Array.from(new Set((data || []).map((row: any) => row.topic as string)));
+  }
+
+  async upsertInfluence(influence: IAccountInfluence): Promise<void> {
+    const { error } = await this.supabase.from('account_influence').upsert(
+      {
+        handle: influence.handle.toLowerCase(),
+        credibility: influence.credibility,
+        influence_score: influence.influenceScore,
+        cited_count: influence.citedByOthers,
+        conversation_starter_score: influence.conversationStarter,
+        early_narrative_score: influence.earlyNarratives,
+        accuracy: influence.accuracy,
+        tier: influence.tier,
+        momentum: influence.momentum,
+        evidence: influence.evidence ?? null,
+        last_updated: new Date(influence.lastUpdated).toISOString()
+      },
+      { onConflict: 'handle' }
+    );
+
+    if (error) throw error;
+  }
+
+  async getTopInfluence(limit: number): Promise<IAccountInfluence[]> {
+    const { data, error } = await this.supabase
+      .from('account_influence')
+      .select('*')
+      .order('influence_score', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map(toInfluence);
+  }
+
+  async getInfluenceByTier(tier: IAccountInfluence['tier']): Promise<IAccountInfluence[]> {
+    const { data, error } = await this.supabase
+      .from('account_influence')
+      .select('*')
+      .eq('tier', tier)
+      .order('influence_score', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(toInfluence);
+  }
+
+  async getInfluenceByHandles(handles: string[]): Promise<IAccountInfluence[]> {
+    if (handles.length === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from('account_influence')
+      .select('*')
+      .in('handle', handles.map(h => h.toLowerCase()));
+
+    if (error) throw error;
+    return (data || []).map(toInfluence);
+  }
+
+  async insertInfluenceHistory(point: InfluenceHistoryPoint): Promise<void> {
+    const { error } = await this.supabase.from('account_influence_history').insert({
+      handle: point.handle.toLowerCase(),
+      influence_score: point.influenceScore,
+      credibility: point.credibility,
+      cited_count: point.citedByOthers,
+      conversation_starter_score: point.conversationStarter,
+      early_narrative_score: point.earlyNarratives,
+      accuracy: point.accuracy,
+      tier: point.tier,
+      scored_at: new Date(point.scoredAt).toISOString()
+    });
+
+    if (error) throw error;
+  }
+
+  async getInfluenceHistory(handle: string, since: number, limit?: number): Promise<InfluenceHistoryPoint[]> {
+    // Newest `limit` rows, returned oldest first
+    let query = this.supabase
+      .from('account_influence_history')
+      .select('*')
+      .eq('handle', handle.toLowerCase())
+      .gte('scored_at', new Date(since).toISOString())
+      .order('scored_at', { ascending: false });
+
+    if (limit) {
+      query = query.limit(limit);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(toInfluenceHistoryPoint).reverse();
+  }
+
+  async upsertCandidate(candidate: DiscoveryCandidate): Promise<void> {
+    const { error } = await this.supabase.from('discovery_candidates').upsert({
+      handle: candidate.handle,
+      score: candidate.score,
+      category: candidate.category,
+      reason: candidate.reason,
+      last_seen: candidate.lastSeen,
+      confirmation_count: candidate.confirmationCount,
+      status: candidate.status,
+      updated_at: Date.now()
+    });
+
+    if (error) throw error;
+  }
+
+  async getCandidates(status?: string): Promise<DiscoveryCandidate[]> {
+    let query = this.supabase.from('discovery_candidates').select('*');
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(toCandidate);
+  }
+
+  async updateCandidateStatus(handle: string, status: DiscoveryCandidate['status']): Promise<void> {
+    const { error } = await this.supabase
+      .from('discovery_candidates')
+      .update({ status, updated_at: Date.now() })
+      .eq('handle', handle);
+
+    if (error) throw error;
+  }
+
+  async deleteCandidatesByStatus(status: DiscoveryCandidate['status']): Promise<number> {
+    const { count, error } = await this.supabase
+      .from('discovery_candidates')
+      .delete({ count: 'exact' })
+      .eq('status', status);
+
+    if (error) throw error;
+    return count || 0;
+  }
+
+  async insertDiscoveryRun(run: DiscoveryRun): Promise<void> {
+    const { error } = await this.supabase.from('discovery_runs').insert(run);
+    if (error) throw error;
+  }
+
+  async getDiscoveryRuns(limit: number): Promise<DiscoveryRun[]> {
+    const { data, error } = await this.supabase
+      .from('discovery_runs')
+      .select('*')
+      .order('timestamp', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map((row: any) => ({
+      found: row.found,
+      added: row.added,
+      approved: row.approved,
+      timestamp: Number(row.timestamp)
+    }));
+  }
+
+  async insertTweetPerformance(performance: TweetPerformance): Promise<void> {
+    const { error } = await this.supabase.from('tweet_performance').insert({
+      tweet_id: performance.tweetId,
+      content: performance.content,
+      themes: performance.themes,
+      posted_at: performance.postedAt,
+      sentiment: performance.sentiment,
+      format: performance.format,
+      likes_1h: performance.likes_1h,
+      likes_24h: performance.likes_24h,
+      retweets_1h: performance.retweets_1h,
+      retweets_24h: performance.retweets_24h,
+      replies_1h: performance.replies_1h,
+      replies_24h: performance.replies_24h,
+      engagement_rate: performance.engagement_rate
+    });
+
+    if (error) throw error;
+  }
+
+  async getTweetPerformance(tweetId: string): Promise<TweetPerformance | null> {
+    const { data, error } = await this.supabase
+      .from('tweet_performance')
+      .select('*')
+      .eq('tweet_id', tweetId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toTweetPerformance(data) : null;
+  }
+
+  async updateTweetPerformance(tweetId: string, update: Partial<TweetPerformance>): Promise<void> {
+    const { error } = await this.supabase
+      .from('tweet_performance')
+      .update({
+        likes_1h: update.likes_1h,
+        likes_24h: update.likes_24h,
+        retweets_1h: update.retweets_1h,
+        retweets_24h: update.retweets_24h,
+        replies_1h: update.replies_1h,
+        replies_24h: update.replies_24h,
+        impressions: update.impressions,
+        engagement_rate: update.engagement_rate,
+        last_updated: Date.now()
+      })
+      .eq('tweet_id', tweetId);
+
+    if (error) throw error;
+  }
+
+  async queryTweetPerformance(query: TweetPerformanceQuery): Promise<TweetPerformance[]> {
+    let request = this.supabase
+      .from('tweet_performance')
+      .select('*')
+      .gt('posted_at', query.since)
+      .order(query.orderBy === 'likes24h' ? 'likes_24h' : 'posted_at', { ascending: false });
+
+    if (query.theme) {
+      request = request.contains('themes', [query.theme]);
+    }
+    if (query.limit) {
+      request = request.limit(query.limit);
+    }
+
+    const { data, error } = await request;
+    if (error) throw error;
+    return (data || []).map(toTweetPerformance);
+  }
+
+  async insertPerformanceAnalysis(analysis: PerformanceAnalysis): Promise<void> {
+    const { error } = await this.supabase.from('performance_analysis').insert(analysis);
+    if (error) throw error;
+  }
+}
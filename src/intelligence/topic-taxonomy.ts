@@ -0,0 +1,323 @@
+import { intelligenceStore, IntelligenceStore } from './store.js';
+import { embeddingsService, EmbeddingsService } from './embeddings.js';
+import { logger } from '../shared/logger.js';
+
+export interface Topic {
+  id: string; // canonical, kebab-case: 'ai-agents'
+  label: string;
+  parentId?: string;
+  aliases: string[]; // normalized spellings that resolve to this topic
+  embedding?: number[]; // label embedding, used to auto-merge near-duplicates
+  embeddingModel?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+type TopicSeed = Pick<Topic, 'id' | 'label' | 'parentId' | 'aliases'>;
+
+// Starting taxonomy. Keep in sync with supabase/migrations/20261022_topic_taxonomy.sql
+export const TOPIC_SEED: TopicSeed[] = [
+  { id: 'bitcoin', label: 'Bitcoin', aliases: ['btc', 'bitcoin ecosystem'] },
+  { id: 'bitcoin-etf', label: 'Bitcoin ETFs', parentId: 'bitcoin', aliases: ['btc etf', 'spot bitcoin etf', 'etf flows'] },
+  { id: 'ordinals', label: 'Ordinals', parentId: 'bitcoin', aliases: ['inscriptions', 'brc-20', 'runes'] },
+  { id: 'bitcoin-l2', label: 'Bitcoin L2s', parentId: 'bitcoin', aliases: ['btc l2', 'btcfi', 'bitcoin layer 2'] },
+  { id: 'ethereum', label: 'Ethereum', aliases: ['eth', 'ethereum ecosystem'] },
+  { id: 'restaking', label: 'Restaking', parentId: 'ethereum', aliases: ['eigenlayer', 'lrt', 'lrts', 'liquid restaking'] },
+  { id: 'liquid-staking', label: 'Liquid staking', parentId: 'ethereum', aliases: ['lst', 'lsts', 'lsd', 'lsdfi', 'staking'] },
+  { id: 'layer-2', label: 'Layer 2s', parentId: 'ethereum', aliases: ['l2', 'l2s', 'rollup', 'rollups', 'layer 2', 'layer2'] },
+  { id: 'solana', label: 'Solana', aliases: ['sol', 'solana ecosystem'] },
+  { id: 'defi', label: 'DeFi', aliases: ['decentralized finance', 'onchain finance'] },
+  { id: 'dex', label: 'DEXs', parentId: 'defi', aliases: ['dexs', 'dexes', 'amm', 'amms', 'decentralized exchange'] },
+  { id: 'lending', label: 'Lending', parentId: 'defi', aliases: ['money markets', 'borrowing', 'defi lending'] },
+  { id: 'yield', label: 'Yield', parentId: 'defi', aliases: ['yields', 'yield farming', 'farming', 'apy'] },
+  { id: 'perps', label: 'Perpetuals', parentId: 'defi', aliases: ['perp', 'perp dex', 'perpetual', 'perpetual futures', 'funding rates'] },
+  { id: 'prediction-markets', label: 'Prediction markets', parentId: 'defi', aliases: ['prediction market', 'polymarket'] },
+  { id: 'stablecoins', label: 'Stablecoins', aliases: ['stablecoin', 'stables', 'usdc', 'usdt'] },
+  { id: 'rwa', label: 'Real-world assets', aliases: ['rwas', 'real world assets', 'tokenization', 'tokenized treasuries'] },
+  { id: 'ai', label: 'AI', aliases: ['crypto ai', 'ai tokens', 'artificial intelligence', 'decentralized ai'] },
+  { id: 'ai-agents', label: 'AI agents', parentId: 'ai', aliases: ['ai agent', 'agentic ai', 'agents', 'autonomous agents', 'crypto ai agents'] },
+  { id: 'depin', label: 'DePIN', aliases: ['decentralized physical infrastructure'] },
+  { id: 'memecoins', label: 'Memecoins', aliases: ['memecoin', 'meme coins', 'meme coin', 'memes', 'meme season'] },
+  { id: 'nft', label: 'NFTs', aliases: ['nfts', 'non-fungible tokens'] },
+  { id: 'gaming', label: 'Gaming', aliases: ['web3 gaming', 'gamefi', 'crypto gaming'] },
+  { id: 'airdrops', label: 'Airdrops', aliases: ['airdrop', 'points', 'points farming'] },
+  { id: 'macro', label: 'Macro', aliases: ['macroeconomics', 'fed', 'rates', 'interest rates', 'liquidity'] },
+  { id: 'regulation', label: 'Regulation', aliases: ['sec', 'policy', 'crypto regulation', 'legislation'] },
+  { id: 'security', label: 'Security', aliases: ['exploit', 'exploits', 'hack', 'hacks', 'rug pull', 'rug pulls'] },
+  { id: 'market-structure', label: 'Market structure', aliases: ['orderflow', 'order flow', 'liquidations', 'open interest'] }
+];
+
+// Cosine similarity above which an unseen topic is folded into an existing one
+const DEFAULT_MERGE_THRESHOLD = parseFloat(process.env.TOPIC_MERGE_THRESHOLD || '0.85');
+
+// How long to wait before retrying topic labels the embedder failed on
+const EMBED_RETRY_MS = 15 * 60 * 1000;
+
+export function normalizeTopic(topic: string): string {
+  return topic
+    .toLowerCase()
+    .replace(/^#/, '')
+    .replace(/[_]+/g, ' ')
+    .replace(/[.,;:!?"']+$/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function slugify(topic: string): string {
+  return normalizeTopic(topic)
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+// Plural/singular variants that should hit the same alias
+function spellingVariants(normalized: string): string[] {
+  const variants = [normalized];
+  if (normalized.endsWith('s') && !normalized.endsWith('ss') && normalized.length > 3) {
+    variants.push(normalized.slice(0, -1));
+  } else {
+    variants.push(`${normalized}s`);
+  }
+  return variants;
+}
+
+/**
+ * TopicRegistry - canonical topic ids for LLM-generated topic strings
+ * Resolution order: exact id/alias, plural variant, embedding similarity, new topic
+ */
+export class TopicRegistry {
+  private topics = new Map<string, Topic>();
+  private aliasIndex = new Map<string, string>(); // normalized alias -> topic id
+  private loading: Promise<void> | null = null;
+  private unsavedEmbeddings = new Set<string>(); // topic ids embedded by queries, not yet persisted
+  private embedRetryAt = 0;
+
+  constructor(
+    private store: IntelligenceStore = intelligenceStore,
+    private embeddings: EmbeddingsService = embeddingsService,
+    private mergeThreshold: number = DEFAULT_MERGE_THRESHOLD
+  ) {
+    // Seeds are available synchronously, before the store has been read
+    const now = Date.now();
+    for (const seed of TOPIC_SEED) {
+      this.index({ ...seed, createdAt: now, updatedAt: now });
+    }
+  }
+
+  // Loads stored topics and persists any seeds the store is missing
+  async init(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load().catch((error: any) => {
+        logger.warn('Topic registry using seed taxonomy only', error.message);
+      });
+    }
+    return this.loading;
+  }
+
+  private async load() {
+    const stored = await this.store.getTopics();
+    const storedIds = new Set(stored.map(t => t.id));
+
+    for (const topic of stored) {
+      this.index(topic);
+    }
+
+    for (const seed of TOPIC_SEED) {
+      if (!storedIds.has(seed.id)) {
+        await this.store.upsertTopic(this.topics.get(seed.id)!);
+      }
+    }
+
+    logger.info(`Topic registry loaded (${this.topics.size} topics)`);
+  }
+
+  private index(topic: Topic) {
+    const existing = this.topics.get(topic.id);
+    const merged: Topic = existing
+      ? { ...existing, ...topic, aliases: Array.from(new Set([...existing.aliases, ...topic.aliases])) }
+      : topic;
+
+    this.topics.set(merged.id, merged);
+    this.aliasIndex.set(merged.id, merged.id);
+    this.aliasIndex.set(normalizeTopic(merged.id.replace(/-/g, ' ')), merged.id);
+    this.aliasIndex.set(normalizeTopic(merged.label), merged.id);
+    for (const alias of merged.aliases) {
+      this.aliasIndex.set(normalizeTopic(alias), merged.id);
+    }
+  }
+
+  get(id: string): Topic | undefined {
+    return this.topics.get(id);
+  }
+
+  getAll(): Topic[] {
+    return Array.from(this.topics.values());
+  }
+
+  // Exact alias lookup, no embeddings
+  lookup(topic: string): string | null {
+    const normalized = normalizeTopic(topic);
+    for (const variant of spellingVariants(normalized)) {
+      const id = this.aliasIndex.get(variant);
+      if (id) return id;
+    }
+    return null;
+  }
+
+  /**
+   * Resolve a topic string to its canonical id.
+   * With learn=true, near-duplicates are recorded as aliases and unseen topics are
+   * registered; with learn=false (queries) nothing is persisted and unknown topics
+   * come back normalized.
+   */
+  async canonicalize(topic: string, options: { learn?: boolean } = {}): Promise<string> {
+    await this.init();
+
+    const normalized = normalizeTopic(topic);
+    if (!normalized) return normalized;
+
+    const known = this.lookup(normalized);
+    if (known) return known;
+
+    const embedding = await this.embeddings.embedText(normalized);
+    const match = embedding ? await this.nearest(embedding, !!options.learn) : null;
+
+    if (match && match.similarity >= this.mergeThreshold) {
+      logger.info(`Topic "${normalized}" merged into ${match.topic.id} (${match.similarity.toFixed(2)})`);
+      if (options.learn) {
+        await this.save({ ...match.topic, aliases: [...match.topic.aliases, normalized], updatedAt: Date.now() });
+      }
+      return match.topic.id;
+    }
+
+    if (!options.learn) return normalized;
+
+    const id = slugify(normalized);
+    if (!id) return normalized;
+
+    const now = Date.now();
+    await this.save({
+      id,
+      label: normalized,
+      aliases: [normalized],
+      embedding: embedding || undefined,
+      embeddingModel: embedding ? this.embeddings.modelId : undefined,
+      createdAt: now,
+      updatedAt: now
+    });
+    return id;
+  }
+
+  async canonicalizeAll(topics: string[], options: { learn?: boolean } = {}): Promise<string[]> {
+    const ids: string[] = [];
+    for (const topic of topics) {
+      const id = await this.canonicalize(topic, options);
+      if (id && !ids.includes(id)) ids.push(id);
+    }
+    return ids;
+  }
+
+  // Topic id plus all of its descendants, so 'ethereum' also covers 'restaking'
+  expand(id: string): string[] {
+    const result = [id];
+    for (let i = 0; i < result.length; i++) {
+      for (const topic of this.topics.values()) {
+        if (topic.parentId === result[i] && !result.includes(topic.id)) {
+          result.push(topic.id);
+        }
+      }
+    }
+    return result;
+  }
+
+  ancestors(id: string): string[] {
+    const result: string[] = [];
+    let parent = this.topics.get(id)?.parentId;
+    while (parent && !result.includes(parent)) {
+      result.push(parent);
+      parent = this.topics.get(parent)?.parentId;
+    }
+    return result;
+  }
+
+  /**
+   * Rewrite topic strings already stored on tweets (and snapshots) to canonical ids.
+   * Most-used spellings are processed first so they win when near-duplicates merge.
+   */
+  async migrateStoredTopics(): Promise<{ from: string; to: string; tweets: number }[]> {
+    await this.init();
+
+    const counts = await this.store.getTweetTopicCounts();
+    const renames: { from: string; to: string; tweets: number }[] = [];
+
+    for (const { topic } of counts) {
+      const canonical = await this.canonicalize(topic, { learn: true });
+      if (!canonical || canonical === topic) continue;
+
+      const tweets = await this.store.renameTopic(topic, canonical);
+      renames.push({ from: topic, to: canonical, tweets });
+    }
+
+    logger.info(`Topic migration rewrote ${renames.length} topic strings`);
+    return renames;
+  }
+
+  private async nearest(embedding: number[], persist: boolean): Promise<{ topic: Topic; similarity: number } | null> {
+    await this.embedMissing(persist);
+
+    let best: { topic: Topic; similarity: number } | null = null;
+    for (const topic of this.topics.values()) {
+      if (!topic.embedding || topic.embeddingModel !== this.embeddings.modelId) continue;
+
+      const similarity = this.embeddings.calculateSimilarity(embedding, topic.embedding);
+      if (!best || similarity > best.similarity) {
+        best = { topic, similarity };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Label embeddings are computed once per model (and cached on disk). Queries
+   * keep them in memory; they're written to the store on the next learn call.
+   * Labels the embedder fails on are retried after EMBED_RETRY_MS, not per query.
+   */
+  private async embedMissing(persist: boolean) {
+    const missing = this.getAll().filter(
+      t => !t.embedding || t.embeddingModel !== this.embeddings.modelId
+    );
+
+    if (missing.length > 0 && Date.now() >= this.embedRetryAt) {
+      const vectors = await this.embeddings.embedBatch(missing.map(t => t.label));
+      for (let i = 0; i < missing.length; i++) {
+        const embedding = vectors[i];
+        if (!embedding) continue;
+
+        this.index({ ...missing[i], embedding, embeddingModel: this.embeddings.modelId, updatedAt: Date.now() });
+        this.unsavedEmbeddings.add(missing[i].id);
+      }
+
+      const failed = vectors.filter(v => !v).length;
+      if (failed > 0) {
+        logger.warn(`Failed to embed ${failed} topic label(s), retrying in ${EMBED_RETRY_MS / 60000}m`);
+        this.embedRetryAt = Date.now() + EMBED_RETRY_MS;
+      }
+    }
+
+    if (!persist) return;
+    for (const id of this.unsavedEmbeddings) {
+      await this.save(this.topics.get(id)!);
+    }
+    this.unsavedEmbeddings.clear();
+  }
+
+  private async save(topic: Topic) {
+    this.index(topic);
+    try {
+      await this.store.upsertTopic(this.topics.get(topic.id)!);
+    } catch (error: any) {
+      logger.warn(`Failed to persist topic ${topic.id}`, error.message);
+    }
+  }
+}
+
+export const topicRegistry = new TopicRegistry();
@@ -11,20 +11,57 @@ export interface TrackedAccount {
   lastUpdated: number;
 }
 
-export interface StoredTweet {
+// Deterministic entities pulled from tweet text (see entity-extractor.ts)
+export interface TweetEntities {
+  symbols: string[]; // uppercase tickers, without '$'
+  addresses: string[]; // EVM lowercased, Solana base58 as written
+  chains: string[]; // canonical ids from entity-dictionary.ts
+  protocols: string[]; // canonical ids from entity-dictionary.ts
+  mentions: string[]; // lowercase handles, without '@'
+}
+
+// A tweet this one replies to, quotes or retweets (Twitter `referenced_tweets`)
+export interface TweetReference {
+  type: 'replied_to' | 'quoted' | 'retweeted';
+  tweetId: string;
+  handle?: string; // lowercase author of the referenced tweet, when Twitter expanded it
+}
+
+export interface StoredTweet extends TweetEntities {
   id: string;
   tweetId: string;
   handle: string;
   text: string;
-  embedding: number[]; // OpenAI embedding vector
+  embedding: number[]; // empty when embeddingStatus is 'failed'
+  embeddingModel?: string; // provider id, e.g. 'openai:text-embedding-3-small'
+  embeddingDim?: number;
+  embeddingStatus?: 'ok' | 'failed'; // failed rows are re-queued for embedding
   timestamp: number;
   likes: number;
   retweets: number;
   replies: number;
   sentiment: 'bullish' | 'bearish' | 'neutral';
-  topics: string[];
+  topics: string[]; // free-text, LLM-derived
+  references: TweetReference[];
+  conversationId?: string; // id of the thread's root tweet
   credibilityAtTime: number;
   storedAt: number;
+  similarity?: number; // cosine similarity to the query, set by semantic search
+}
+
+// How a tweet was ranked by hybrid retrieval (see hybrid-search.ts)
+export interface RetrievalScore {
+  score: number; // final score after fusion and reranking
+  fused: number; // fusion score, normalized to 0-1
+  vectorRank?: number; // 1-based, absent if not retrieved by vector search
+  lexicalRank?: number; // 1-based, absent if no query term matched
+  bm25?: number;
+  recency: number; // 0-1 decay multiplier input
+  credibility: number; // author credibilityScore, 0-100
+}
+
+export interface ScoredTweet extends StoredTweet {
+  retrieval: RetrievalScore;
 }
 
 export interface KnowledgeEntry {
@@ -39,7 +76,7 @@ export interface KnowledgeEntry {
 
 export interface RAGContext {
   query: string;
-  relevantTweets: StoredTweet[];
+  relevantTweets: ScoredTweet[]; // best first
   topAccounts: TrackedAccount[];
   sentiment: {
     bullish: number;
@@ -1,18 +1,18 @@
-import { createClient } from '@supabase/supabase-js';
-import { StoredTweet, TrackedAccount, KnowledgeEntry } from './types.js';
+import { StoredTweet, TrackedAccount } from './types.js';
+import { intelligenceStore, IntelligenceStore } from './store.js';
+import { embeddingsService } from './embeddings.js';
+import { resolveEntities } from './entity-extractor.js';
+import { topicRegistry } from './topic-taxonomy.js';
 import { logger } from '../shared/logger.js';
 
-const supabaseUrl = process.env.SUPABASE_URL || '';
-const supabaseKey = process.env.SUPABASE_KEY || '';
-
-const supabase = createClient(supabaseUrl, supabaseKey);
-
 export class VectorDB {
+  constructor(private store: IntelligenceStore = intelligenceStore) {}
+
   async init() {
     try {
       // Create tables if they don't exist
-      await supabase.rpc('create_tables_if_not_exist');
-      logger.info('Vector DB initialized');
+      await this.store.init();
+      logger.info(`Vector DB initialized (${this.store.backend})`);
     } catch (error: any) {
       logger.warn('Tables may already exist', error.message);
     }
@@ -20,22 +20,7 @@ export class VectorDB {
 
   async storeAccount(account: TrackedAccount) {
     try {
-      const { error } = await supabase
-        .from('tracked_accounts')
-        .upsert({
-          id: account.id,
-          handle: account.handle,
-          category: account.category,
-          credibility_score: account.credibilityScore,
-          follower_count: account.followerCount,
-          engagement_rate: account.engagementRate,
-          accuracy_score: account.accuracyScore,
-          tags: account.tags,
-          added_at: account.addedAt,
-          last_updated: account.lastUpdated
-        });
-
-      if (error) throw error;
+      await this.store.upsertAccount(account);
       logger.info(`Stored account: ${account.handle}`);
     } catch (error: any) {
       logger.error('Failed to store account', error.message);
@@ -44,72 +29,75 @@ export class VectorDB {
 
   async storeTweet(tweet: StoredTweet) {
     try {
-      const { error } = await supabase
-        .from('tweets')
-        .insert({
-          id: tweet.id,
-          tweet_id: tweet.tweetId,
-          handle: tweet.handle,
-          text: tweet.text,
-          embedding: tweet.embedding,
-          timestamp: tweet.timestamp,
-          likes: tweet.likes,
-          retweets: tweet.retweets,
-          replies: tweet.replies,
-          sentiment: tweet.sentiment,
-          topics: tweet.topics,
-          credibility_at_time: tweet.credibilityAtTime,
-          stored_at: tweet.storedAt
-        });
-
-      if (error) throw error;
+      await this.store.insertTweet(tweet);
       logger.info(`Stored tweet from ${tweet.handle}`);
     } catch (error: any) {
       logger.error('Failed to store tweet', error.message);
     }
   }
 
+  // Top-k cosine search, optionally limited to one account category.
+  // Only tweets embedded by `model` are compared against the query.
   async semanticSearch(
     queryEmbedding: number[],
     limit: number = 10,
-    category?: string
+    category?: string,
+    model: string = embeddingsService.modelId
   ): Promise<StoredTweet[]> {
     try {
-      let query = supabase
-        .from('tweets')
-        .select('*')
-        .limit(limit)
-        .order('similarity', { ascending: false });
+      return await this.store.searchTweets(queryEmbedding, model, limit, category);
+    } catch (error: any) {
+      logger.error('Search failed', error.message);
+      return [];
+    }
+  }
 
-      // Filter by category if provided (via account)
-      if (category) {
-        // This would require a join - simplified for now
-      }
+  // Lexical candidates for hybrid search; total is the document frequency of `term`
+  async searchTweetsByText(
+    term: string,
+    limit: number = 50,
+    category?: string
+  ): Promise<{ tweets: StoredTweet[]; total: number }> {
+    try {
+      return await this.store.searchTweetsByText(term, limit, category);
+    } catch (error: any) {
+      logger.error(`Text search failed for "${term}"`, error.message);
+      return { tweets: [], total: 0 };
+    }
+  }
 
-      // Note: Actual vector similarity search requires RPC or PostGIS
-      // For now, returning by recency + engagement as proxy
-      const { data, error } = await query.order('timestamp', {
-        ascending: false
-      });
+  async countTweets(category?: string): Promise<number> {
+    try {
+      return await this.store.countTweets(category);
+    } catch (error: any) {
+      logger.error('Failed to count tweets', error.message);
+      return 0;
+    }
+  }
 
-      if (error) throw error;
-      return (data || []) as StoredTweet[];
+  // Tweets stored without a vector because the provider call failed
+  async getTweetsPendingEmbedding(limit: number = 50): Promise<StoredTweet[]> {
+    try {
+      return await this.store.getTweetsPendingEmbedding(limit);
     } catch (error: any) {
-      logger.error('Search failed', error.message);
+      logger.error('Failed to fetch tweets pending embedding', error.message);
       return [];
     }
   }
 
-  async getAccountsByCategory(category: string): Promise<TrackedAccount[]> {
+  async updateTweetEmbedding(id: string, embedding: number[], model: string): Promise<boolean> {
     try {
-      const { data, error } = await supabase
-        .from('tracked_accounts')
-        .select('*')
-        .eq('category', category)
-        .order('credibility_score', { ascending: false });
+      await this.store.updateTweetEmbedding(id, embedding, model);
+      return true;
+    } catch (error: any) {
+      logger.error(`Failed to update embedding for ${id}`, error.message);
+      return false;
+    }
+  }
 
-      if (error) throw error;
-      return (data || []) as TrackedAccount[];
+  async getAccountsByCategory(category: string): Promise<TrackedAccount[]> {
+    try {
+      return await this.store.getAccountsByCategory(category);
     } catch (error: any) {
       logger.error('Failed to fetch accounts', error.message);
       return [];
@@ -118,48 +106,47 @@ export class VectorDB {
 
   async getTopAccounts(limit: number = 5): Promise<TrackedAccount[]> {
     try {
-      const { data, error } = await supabase
-        .from('tracked_accounts')
-        .select('*')
-        .order('credibility_score', { ascending: false })
-        .limit(limit);
-
-      if (error) throw error;
-      return (data || []) as TrackedAccount[];
+      return await this.store.getTopAccounts(limit);
     } catch (error: any) {
       logger.error('Failed to fetch top accounts', error.message);
       return [];
     }
   }
 
-  async getTweetsByAccount(handle: string): Promise<StoredTweet[]> {
+  async getAccountsByHandles(handles: string[]): Promise<TrackedAccount[]> {
     try {
-      const { data, error } = await supabase
-        .from('tweets')
-        .select('*')
-        .eq('handle', handle)
-        .order('timestamp', { ascending: false })
-        .limit(50);
+      return await this.store.getAccountsByHandles(handles);
+    } catch (error: any) {
+      logger.error('Failed to fetch accounts by handle', error.message);
+      return [];
+    }
+  }
 
-      if (error) throw error;
-      return (data || []) as StoredTweet[];
+  async getTweetsByAccount(handle: string): Promise<StoredTweet[]> {
+    try {
+      return await this.store.getTweetsByAccount(handle, 50);
     } catch (error: any) {
       logger.error(`Failed to fetch tweets from ${handle}`, error.message);
       return [];
     }
   }
 
+  // Resolves the topic through the taxonomy (aliases and child topics included) and,
+  // when it names a known entity ("sol", "$PEPE"), also matches tweets tagged with it
   async getTweetsByTopic(topic: string): Promise<StoredTweet[]> {
     try {
-      const { data, error } = await supabase
-        .from('tweets')
-        .select('*')
-        .contains('topics', [topic])
-        .order('timestamp', { ascending: false })
-        .limit(50);
-
-      if (error) throw error;
-      return (data || []) as StoredTweet[];
+      const canonical = await topicRegistry.canonicalize(topic);
+      const [byTopic, ...byEntity] = await Promise.all([
+        this.store.getTweetsByTopics(topicRegistry.expand(canonical), 50),
+        ...resolveEntities(topic).map(entity => this.store.getTweetsByEntity(entity.field, entity.value, 50))
+      ]);
+
+      const merged = new Map<string, StoredTweet>();
+      for (const tweet of [...byTopic, ...byEntity.flat()]) merged.set(tweet.id, tweet);
+
+      return Array.from(merged.values())
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .slice(0, 50);
     } catch (error: any) {
       logger.error(`Failed to fetch tweets about ${topic}`, error.message);
       return [];
@@ -168,31 +155,25 @@ export class VectorDB {
 
   async updateAccountCredibility(handle: string, newScore: number) {
     try {
-      const { error } = await supabase
-        .from('tracked_accounts')
-        .update({
-          credibility_score: newScore,
-          last_updated: Date.now()
-        })
-        .eq('handle', handle);
-
-      if (error) throw error;
+      await this.store.updateAccountCredibility(handle, newScore);
       logger.info(`Updated credibility for ${handle}: ${newScore}`);
     } catch (error: any) {
       logger.error('Failed to update credibility', error.message);
     }
   }
 
-  async getAccountStats(handle: string) {
+  async updateAccountAccuracy(handle: string, score: number) {
     try {
-      const { data, error } = await supabase
-        .from('tweets')
-        .select('sentiment, likes, retweets, replies')
-        .eq('handle', handle);
-
-      if (error) throw error;
+      await this.store.updateAccountAccuracy(handle, score);
+      logger.info(`Updated accuracy for ${handle}: ${score}`);
+    } catch (error: any) {
+      logger.error('Failed to update accuracy', error.message);
+    }
+  }
 
-      const tweets = (data || []) as StoredTweet[];
+  async getAccountStats(handle: string) {
+    try {
+      const tweets = await this.store.getTweetsByAccount(handle);
       const sentimentCounts = {
         bullish: tweets.filter(t => t.sentiment === 'bullish').length,
         bearish: tweets.filter(t => t.sentiment === 'bearish').length,
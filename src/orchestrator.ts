@@ -2,35 +2,102 @@ import 'dotenv/config';
 import cron from 'node-cron';
 import { fetchTopTokens } from './collectors/coingecko.js';
 import { fetchTrendingTokens } from './collectors/dexscreener.js';
-import { scoreTokens } from './analyzers/scorer.js';
+import { tokenRegistry, findImpostors } from './collectors/token-registry.js';
+import { tokenEnricher } from './collectors/enrichment.js';
+import { contractRiskAssessor } from './collectors/contract-risk.js';
+import { marketHistory } from './collectors/market-history.js';
+import { enrichWithDefiLlama } from './collectors/defillama.js';
+import { enrichWithDerivatives } from './collectors/derivatives.js';
+import { sectorClassifier, sectorAggregates } from './collectors/sectors.js';
+import { scoreTokens, loadScoringConfig, parseScoringMode, ScoringMode } from './analyzers/scorer.js';
 import { analyzeToken } from './analyzers/claude.js';
 import { saveTokens } from './shared/db.js';
+import { filterSafeTokens } from './shared/validator.js';
+import { tokenOverrides } from './shared/token-overrides.js';
 import { composeMarketBrief, composeAlphaSignal } from './publisher/composer.js';
 import { postTweet } from './publisher/poster.js';
 import { logger } from './shared/logger.js';
+import { apiServer } from './api.js';
 import { twitterListener } from './intelligence/listener.js';
 import { classifier } from './intelligence/classifier.js';
+import { callTracker } from './intelligence/call-tracker.js';
+import { accountInfluenceEngine, accountInfluence } from './intelligence/account-influence.js';
 import { intelligenceComposer } from './intelligence/composer.js';
 import { vectorDB } from './intelligence/vectordb.js';
 import { metricsScheduler } from './intelligence/metrics-scheduler.js';
 import { discoveryScheduler } from './intelligence/discovery-scheduler.js';
 
-async function runAnalysis() {
-  logger.info('=== Starting analysis run (with intelligence) ===');
+// Days of a token's own snapshots that relative scoring compares against
+const SCORING_HISTORY_DAYS = parseInt(process.env.SCORING_HISTORY_DAYS || '30');
+
+// Mode for scheduled runs; a run started through the API (`npm run cli run --mode`) picks its own
+const SCORING_MODE: ScoringMode = parseScoringMode(process.env.SCORING_MODE);
+
+async function runAnalysis(mode: ScoringMode = SCORING_MODE) {
+  logger.info(`=== Starting analysis run (with intelligence, ${mode} scoring) ===`);
 
   // 1. Collect data (no LLM)
   const cgTokens = await fetchTopTokens();
   const dexTokens = await fetchTrendingTokens();
-  const allTokens = [...cgTokens, ...dexTokens];
+  const resolved = await tokenRegistry.resolve([...cgTokens, ...dexTokens]);
+
+  // Never post about a token trading under a listed asset's ticker, unless someone vouched for it
+  const impostors = findImpostors(resolved);
+  for (const token of resolved) {
+    if (impostors.has(token.id) && tokenOverrides.isAllowed(token)) impostors.delete(token.id);
+  }
+  if (impostors.size > 0) {
+    const dropped = resolved.filter(t => impostors.has(t.id)).map(t => `${t.symbol} (${t.id})`);
+    logger.warn('Dropping possible impostor tokens:', dropped);
+  }
+  const allTokens = tokenOverrides.withoutBlocked(resolved.filter(t => !impostors.has(t.id)));
 
   if (allTokens.length === 0) {
     logger.error('No tokens fetched, aborting');
     return;
   }
 
+  // Age, liquidity and volatility come from the collectors; holders and missing ranges are looked up
+  await tokenEnricher.enrich(allTokens);
+  // Mint/freeze authority, proxies, taxes and buy-only pools, so rugs never reach a tweet
+  await contractRiskAssessor.assess(allTokens);
+  const validated = filterSafeTokens(allTokens);
+  logger.info(`${validated.length}/${allTokens.length} tokens passed safety validation`);
+
+  const forced = allTokens.filter(t => !validated.includes(t) && tokenOverrides.isAllowed(t));
+  if (forced.length > 0) {
+    logger.warn('Keeping allowlisted tokens that failed validation:', forced.map(t => t.symbol));
+  }
+  const safeTokens = [...validated, ...forced];
+
+  if (safeTokens.length === 0) {
+    logger.error('No tokens passed validation, aborting');
+    return;
+  }
+
+  // TVL/fees and perp funding/open interest for listed tokens
+  await enrichWithDefiLlama(safeTokens);
+  await enrichWithDerivatives(safeTokens);
+
+  // Sector per token, and how each sector did across everything that passed validation
+  await sectorClassifier.classify(safeTokens);
+  const sectors = sectorAggregates(safeTokens);
+  logger.info(
+    'Sectors by 24h return:',
+    sectors.map(s => `${s.label} ${s.return24h.toFixed(1)}% (${(s.volumeShare * 100).toFixed(0)}% of volume)`)
+  );
+
   // 2. Score tokens (no LLM)
-  const scored = scoreTokens(allTokens);
-  const top5 = scored.slice(0, 5);
+  const history =
+    mode === 'relative'
+      ? marketHistory.trailingSnapshots(safeTokens.map(t => t.id), SCORING_HISTORY_DAYS)
+      : undefined;
+  const scored = scoreTokens(safeTokens, loadScoringConfig(), { mode, history });
+
+  // Every token seen this run goes into price history, scored or not (backtests need the misses too)
+  const scores = new Map(scored.map(t => [t.id, t.score]));
+  marketHistory.recordSnapshots(allTokens.map(t => ({ ...t, score: scores.get(t.id) })));
+  const top5 = tokenOverrides.pick(scored, 5);
   logger.info('Top 5 tokens by score:', top5.map(t => `${t.symbol} (${t.score})`));
 
   // 3. Analyze top 5 with intelligence context
@@ -48,7 +115,7 @@ async function runAnalysis() {
   saveTokens(top5);
 
   // 5. Compose tweet with intelligence context
-  const tweet = await intelligenceComposer.composeResearchTweet(top5);
+  const tweet = await intelligenceComposer.composeResearchTweet(top5, sectors);
   
   // Fallback if intelligence fails
   const finalTweet = tweet || composeMarketBrief(top5);
@@ -58,6 +125,25 @@ async function runAnalysis() {
   logger.info('=== Analysis run complete ===');
 }
 
+let activeRun: Promise<void> | null = null;
+
+/**
+ * Start an analysis run unless one is already going (a slow run can overlap
+ * the next schedule or a manual trigger). Returns whether it started.
+ */
+function startRun(mode: ScoringMode = SCORING_MODE): boolean {
+  if (activeRun) {
+    logger.warn(`Analysis run already in progress, not starting a ${mode} run`);
+    return false;
+  }
+  activeRun = runAnalysis(mode)
+    .catch((error: any) => logger.error('Analysis run failed', error.message))
+    .finally(() => {
+      activeRun = null;
+    });
+  return true;
+}
+
 async function startIntelligenceNetwork() {
   logger.info('Starting intelligence network...');
   
@@ -78,7 +164,10 @@ async function startIntelligenceNetwork() {
   
   // Update credibility scores periodically
   setInterval(async () => {
+    await callTracker.scoreOutcomes();
     await classifier.updateCredibilityScores();
+    await accountInfluenceEngine.scoreTrackedAccounts();
+    accountInfluence.invalidate(); // ranking reads the new scores, not cached ones
   }, 6 * 60 * 60 * 1000); // Every 6 hours
   
   logger.info('Intelligence network started');
@@ -87,9 +176,25 @@ async function startIntelligenceNetwork() {
 // Initialize intelligence network
 startIntelligenceNetwork();
 
+// REST API: health, metrics, tokens and override management
+if (process.env.API_ENABLED !== 'false') {
+  apiServer.onRun(startRun);
+  apiServer.start();
+}
+
 // Schedule: 6am, 12pm, 6pm, 10pm UTC
-cron.schedule('0 6,12,18,22 * * *', runAnalysis);
+cron.schedule('0 6,12,18,22 * * *', () => startRun());
+
+// Daily at 3am UTC: OHLC/market_chart backfill for tracked assets, then thin old history
+cron.schedule('0 3 * * *', async () => {
+  try {
+    await marketHistory.backfillTracked();
+    marketHistory.applyRetention();
+  } catch (error: any) {
+    logger.error('Market history backfill failed', error.message);
+  }
+});
 logger.info('DeciResearch v5 started - scheduled for 6am, 12pm, 6pm, 10pm UTC');
 
 // Run immediately on startup (for testing)
-runAnalysis();
+startRun();
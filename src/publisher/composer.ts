@@ -1,7 +1,8 @@
 import { Token } from '../shared/types.js';
+import { tokenOverrides } from '../shared/token-overrides.js';
 
 export function composeMarketBrief(tokens: Token[]): string {
-  const top3 = tokens.slice(0, 3);
+  const top3 = tokenOverrides.withoutBlocked(tokens).slice(0, 3);
   let tweet = `📊 Market Pulse `;
   for (const token of top3) {
     const emoji = token.priceChange24h > 0 ? '📈' : '📉';
@@ -1,5 +1,6 @@
 import Database from 'better-sqlite3';
 import { Token } from './types.js';
+import { ValidationResult } from './validator.js';
 
 const db = new Database('deciresearch.db');
 
@@ -23,18 +24,49 @@ db.exec(`
     tweetId TEXT,
     postedAt INTEGER
   );
+  CREATE TABLE IF NOT EXISTS validations (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    tokenId TEXT NOT NULL,
+    symbol TEXT,
+    profile TEXT,
+    isValid INTEGER,
+    score REAL,
+    blockedBy TEXT,
+    evaluations TEXT,
+    timestamp INTEGER
+  );
+  CREATE INDEX IF NOT EXISTS idx_validations_token ON validations(tokenId, timestamp);
+  CREATE INDEX IF NOT EXISTS idx_validations_timestamp ON validations(timestamp);
   CREATE INDEX IF NOT EXISTS idx_tokens_timestamp ON tokens(timestamp);
   CREATE INDEX IF NOT EXISTS idx_tokens_score ON tokens(score);
 `);
 
+// Columns added after the first release; CREATE TABLE IF NOT EXISTS won't add them
+const tokenColumns = (db.prepare('PRAGMA table_info(tokens)').all() as { name: string }[]).map(c => c.name);
+if (!tokenColumns.includes('scoreBreakdown')) {
+  db.exec('ALTER TABLE tokens ADD COLUMN scoreBreakdown TEXT');
+}
+if (!tokenColumns.includes('sector')) {
+  db.exec('ALTER TABLE tokens ADD COLUMN sector TEXT');
+}
+
+function rowToToken(row: any): Token {
+  const { scoreBreakdown, sector, ...token } = row;
+  return {
+    ...token,
+    scoreBreakdown: scoreBreakdown ? JSON.parse(scoreBreakdown) : undefined,
+    sector: sector || undefined
+  };
+}
+
 export function saveTokens(tokens: Token[]) {
   const stmt = db.prepare(`
-    INSERT OR REPLACE INTO tokens (id, symbol, name, price, volume24h, marketCap, priceChange24h, priceChange7d, score, analysis, timestamp)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT OR REPLACE INTO tokens (id, symbol, name, price, volume24h, marketCap, priceChange24h, priceChange7d, score, scoreBreakdown, sector, analysis, timestamp)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
   const insert = db.transaction((tokens: Token[]) => {
     for (const t of tokens) {
-      stmt.run(t.id, t.symbol, t.name, t.price, t.volume24h, t.marketCap, t.priceChange24h, t.priceChange7d, t.score || null, t.analysis || null, t.timestamp);
+      stmt.run(t.id, t.symbol, t.name, t.price, t.volume24h, t.marketCap, t.priceChange24h, t.priceChange7d, t.score || null, t.scoreBreakdown ? JSON.stringify(t.scoreBreakdown) : null, t.sector || null, t.analysis || null, t.timestamp);
     }
   });
   insert(tokens);
@@ -46,7 +78,56 @@ export function getTopTokens(limit: number = 50): Token[] {
     WHERE timestamp > ?
     ORDER BY score DESC
     LIMIT ?
-  `).all(Date.now() - 86400000, limit) as Token[];
+  `).all(Date.now() - 86400000, limit).map(rowToToken);
+}
+
+export interface StoredValidation extends ValidationResult {
+  tokenId: string;
+  symbol: string;
+  timestamp: number;
+}
+
+// Days of validation results kept; every run stores one row per token (0 = keep forever)
+const VALIDATION_RETENTION_DAYS = parseInt(process.env.VALIDATION_RETENTION_DAYS || '30');
+
+// Also drops results older than VALIDATION_RETENTION_DAYS
+export function saveValidations(results: { token: Token; validation: ValidationResult }[], timestamp: number = Date.now()) {
+  const stmt = db.prepare(`
+    INSERT INTO validations (tokenId, symbol, profile, isValid, score, blockedBy, evaluations, timestamp)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  db.transaction(() => {
+    for (const { token, validation: v } of results) {
+      stmt.run(token.id, token.symbol, v.profile, v.isValid ? 1 : 0, v.score, JSON.stringify(v.blockedBy), JSON.stringify(v.evaluations), timestamp);
+    }
+    if (VALIDATION_RETENTION_DAYS > 0) {
+      db.prepare('DELETE FROM validations WHERE timestamp < ?').run(timestamp - VALIDATION_RETENTION_DAYS * 86400000);
+    }
+  })();
+}
+
+// Latest first
+export function getValidations(tokenId: string, limit: number = 10): StoredValidation[] {
+  const rows = db.prepare(`
+    SELECT * FROM validations WHERE tokenId = ? ORDER BY timestamp DESC LIMIT ?
+  `).all(tokenId, limit) as any[];
+
+  return rows.map(row => {
+    const evaluations = JSON.parse(row.evaluations || '[]');
+    const fired = evaluations.filter((e: any) => e.status === 'fired');
+    return {
+      tokenId: row.tokenId,
+      symbol: row.symbol,
+      profile: row.profile,
+      isValid: !!row.isValid,
+      score: row.score,
+      blockedBy: JSON.parse(row.blockedBy || '[]'),
+      risks: fired.filter((e: any) => e.severity === 'risk').map((e: any) => e.message),
+      warnings: fired.filter((e: any) => e.severity === 'warning').map((e: any) => e.message),
+      evaluations,
+      timestamp: row.timestamp
+    };
+  });
 }
 
 export function saveTweet(content: string, tweetId?: string) {
@@ -0,0 +1,109 @@
+import axios, { AxiosInstance } from 'axios';
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { logger } from './logger.js';
+
+/**
+ * live: plain requests
+ * record: live requests, each response also saved as a fixture
+ * replay: fixtures only, never the network (missing fixture = error)
+ */
+export type HttpMode = 'live' | 'record' | 'replay';
+
+export interface HttpRequest {
+  method: 'GET' | 'POST';
+  url: string;
+  params?: Record<string, any>;
+  headers?: Record<string, string>; // never part of the fixture (API keys)
+  body?: any;
+}
+
+interface Fixture {
+  request: Omit<HttpRequest, 'headers'>;
+  status: number;
+  data: any;
+  recordedAt: string;
+}
+
+// Some APIs (Ethplorer) take their key as a query param; keep it out of fixtures
+const SECRET_PARAM = /key|token|secret/i;
+
+function sortedParams(params: Record<string, any> = {}): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(params)
+      .filter(([name]) => !SECRET_PARAM.test(name))
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+}
+
+/**
+ * Fixture file for a request: `<host>/<path>-<hash of method, params and body>.json`.
+ * Requests differing only in headers or secret params share a fixture.
+ */
+export function fixturePath(dir: string, request: HttpRequest): string {
+  const url = new URL(request.url);
+  const slug = url.pathname.replace(/^\/+|\/+$/g, '').replace(/[^A-Za-z0-9._-]+/g, '_') || 'root';
+  const hash = createHash('sha256')
+    .update(JSON.stringify([request.method, sortedParams(request.params), request.body ?? null]))
+    .digest('hex')
+    .slice(0, 12);
+  return join(dir, url.host, `${slug}-${hash}.json`);
+}
+
+/**
+ * HttpClient - the one way collectors reach external APIs, so the whole
+ * pipeline can be recorded once and replayed offline (HTTP_MODE)
+ */
+export class HttpClient {
+  constructor(
+    private mode: HttpMode = (process.env.HTTP_MODE as HttpMode) || 'live',
+    private fixtureDir: string = process.env.HTTP_FIXTURE_DIR || 'fixtures/http',
+    private transport: AxiosInstance = axios
+  ) {}
+
+  async get<T = any>(url: string, options: Pick<HttpRequest, 'params' | 'headers'> = {}): Promise<T> {
+    return this.request<T>({ method: 'GET', url, ...options });
+  }
+
+  async post<T = any>(url: string, body: any, options: Pick<HttpRequest, 'headers'> = {}): Promise<T> {
+    return this.request<T>({ method: 'POST', url, body, ...options });
+  }
+
+  async request<T = any>(request: HttpRequest): Promise<T> {
+    const path = fixturePath(this.fixtureDir, request);
+
+    if (this.mode === 'replay') {
+      if (!existsSync(path)) {
+        throw new Error(`No recorded fixture for ${request.method} ${request.url} (${path})`);
+      }
+      const fixture: Fixture = JSON.parse(readFileSync(path, 'utf8'));
+      return fixture.data as T;
+    }
+
+    const response = await this.transport.request({
+      method: request.method,
+      url: request.url,
+      params: request.params,
+      headers: request.headers,
+      data: request.body
+    });
+
+    if (this.mode === 'record') {
+      const { headers, ...recorded } = request;
+      const fixture: Fixture = {
+        request: { ...recorded, params: sortedParams(request.params) },
+        status: response.status,
+        data: response.data,
+        recordedAt: new Date().toISOString()
+      };
+      mkdirSync(dirname(path), { recursive: true });
+      writeFileSync(path, JSON.stringify(fixture, null, 2));
+      logger.info(`Recorded fixture ${path}`);
+    }
+
+    return response.data as T;
+  }
+}
+
+export const httpClient = new HttpClient();
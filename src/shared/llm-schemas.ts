@@ -0,0 +1,173 @@
+/**
+ * Typed output schemas for LLM tasks. The JSON Schema is sent to the provider
+ * (tool input, JSON mode) and the same definition validates the reply, so a
+ * malformed answer is caught and repaired instead of parsed into a default.
+ * Only the subset below is supported.
+ */
+
+export type JsonSchema =
+  | { type: 'string'; description?: string; enum?: readonly string[]; maxLength?: number }
+  | { type: 'number'; description?: string; minimum?: number; maximum?: number }
+  | { type: 'array'; description?: string; items: JsonSchema; maxItems?: number }
+  | { type: 'object'; description?: string; properties: Record<string, JsonSchema>; required?: readonly string[] };
+
+export interface OutputSchema<T> {
+  name: string; // tool / schema name, snake_case
+  description: string;
+  schema: Extract<JsonSchema, { type: 'object' }>;
+  _type?: T; // phantom: the shape a valid reply has
+}
+
+export function defineSchema<T>(
+  name: string,
+  description: string,
+  schema: Extract<JsonSchema, { type: 'object' }>
+): OutputSchema<T> {
+  return { name, description, schema };
+}
+
+/**
+ * Everything wrong with a value against a schema, as `path: problem`; empty when valid
+ */
+export function schemaProblems(schema: JsonSchema, value: unknown, path: string = '$'): string[] {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return [`${path}: expected string, got ${JSON.stringify(value)}`];
+      if (schema.enum && !schema.enum.includes(value)) return [`${path}: expected one of ${schema.enum.join(', ')}, got "${value}"`];
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        return [`${path}: ${value.length} characters, max ${schema.maxLength}`];
+      }
+      return [];
+
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return [`${path}: expected number, got ${JSON.stringify(value)}`];
+      if (schema.minimum !== undefined && value < schema.minimum) return [`${path}: ${value} below ${schema.minimum}`];
+      if (schema.maximum !== undefined && value > schema.maximum) return [`${path}: ${value} above ${schema.maximum}`];
+      return [];
+
+    case 'array':
+      if (!Array.isArray(value)) return [`${path}: expected array, got ${JSON.stringify(value)}`];
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        return [`${path}: ${value.length} items, max ${schema.maxItems}`];
+      }
+      return value.flatMap((item, i) => schemaProblems(schema.items, item, `${path}[${i}]`));
+
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path}: expected object, got ${JSON.stringify(value)}`];
+      }
+      const record = value as Record<string, unknown>;
+      const missing = (schema.required || []).filter(key => record[key] === undefined).map(key => `${path}.${key}: missing`);
+      const invalid = Object.entries(schema.properties)
+        .filter(([key]) => record[key] !== undefined)
+        .flatMap(([key, property]) => schemaProblems(property, record[key], `${path}.${key}`));
+      return [...missing, ...invalid];
+    }
+  }
+}
+
+/**
+ * The JSON object in a reply: models wrap it in markdown fences or a sentence
+ * often enough that both are tolerated
+ */
+export function extractJson(reply: string): unknown {
+  const unfenced = reply.replace(/```(?:json)?/gi, '').trim();
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  if (start === -1 || end < start) throw new Error('no JSON object in reply');
+  return JSON.parse(unfenced.slice(start, end + 1));
+}
+
+// Task schemas
+
+export type Sentiment = 'bullish' | 'bearish' | 'neutral';
+
+export interface SentimentTopics {
+  sentiment: Sentiment;
+  topics: string[];
+}
+
+export const SENTIMENT_TOPICS = defineSchema<SentimentTopics>('tweet_sentiment', 'Sentiment and key topics of a tweet', {
+  type: 'object',
+  properties: {
+    sentiment: { type: 'string', enum: ['bullish', 'bearish', 'neutral'] },
+    topics: { type: 'array', items: { type: 'string' }, maxItems: 4, description: '2-4 key topics' }
+  },
+  required: ['sentiment', 'topics']
+});
+
+export interface MentionIntent {
+  type: 'account_tag' | 'question' | 'unknown';
+  account?: string; // handle without @, for account_tag
+  question?: string;
+}
+
+export const MENTION_INTENT = defineSchema<MentionIntent>('mention_intent', 'What a mention of our account wants', {
+  type: 'object',
+  properties: {
+    type: { type: 'string', enum: ['account_tag', 'question', 'unknown'] },
+    account: { type: 'string', description: 'Tagged account handle without @ (account_tag only)' },
+    question: { type: 'string', description: 'The question asked (question only)' }
+  },
+  required: ['type']
+});
+
+export type AccountCategoryName = 'TECHNICAL' | 'NARRATIVE' | 'SMART_MONEY' | 'MARKET_STRUCTURE';
+
+export interface AccountCategory {
+  category: AccountCategoryName;
+}
+
+export const ACCOUNT_CATEGORY = defineSchema<AccountCategory>('account_category', "An account's main focus", {
+  type: 'object',
+  properties: {
+    category: { type: 'string', enum: ['TECHNICAL', 'NARRATIVE', 'SMART_MONEY', 'MARKET_STRUCTURE'] }
+  },
+  required: ['category']
+});
+
+export interface InfluenceOrder {
+  groups: string[][]; // per tied group, handles from most to least influential
+}
+
+export const INFLUENCE_ORDER = defineSchema<InfluenceOrder>(
+  'influence_order',
+  'Accounts in each tied group, most influential first',
+  {
+    type: 'object',
+    properties: {
+      groups: { type: 'array', items: { type: 'array', items: { type: 'string' } } }
+    },
+    required: ['groups']
+  }
+);
+
+export interface TweetDraft {
+  text: string;
+}
+
+export const TWEET_DRAFT = defineSchema<TweetDraft>('tweet_draft', 'A tweet or reply ready to post', {
+  type: 'object',
+  properties: { text: { type: 'string', maxLength: 280 } },
+  required: ['text']
+});
+
+export interface TokenAnalysis {
+  analysis: string;
+}
+
+export const TOKEN_ANALYSIS = defineSchema<TokenAnalysis>('token_analysis', 'A short analysis of one token', {
+  type: 'object',
+  properties: { analysis: { type: 'string', description: 'Exactly 2 sentences' } },
+  required: ['analysis']
+});
+
+export interface InsightSummary {
+  summary: string;
+}
+
+export const INSIGHT_SUMMARY = defineSchema<InsightSummary>('insight_summary', 'What credible accounts are saying', {
+  type: 'object',
+  properties: { summary: { type: 'string', description: 'One sentence' } },
+  required: ['summary']
+});
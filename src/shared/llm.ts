@@ -0,0 +1,383 @@
+import Anthropic from '@anthropic-ai/sdk';
+import OpenAI from 'openai';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { existsSync, readFileSync } from 'fs';
+import { logger } from './logger.js';
+import { monitor } from './monitor.js';
+import { OutputSchema, schemaProblems, extractJson } from './llm-schemas.js';
+
+/**
+ * What a prompt is for. Routes pick models per task: cheap and fast for
+ * labelling, better for anything we publish.
+ */
+export type LLMTask =
+  | 'sentiment' // tweet sentiment and topics (listener)
+  | 'classification' // sectors, account categories
+  | 'parsing' // what a mention is asking
+  | 'summary' // RAG synthesis
+  | 'ranking' // influence tie-breaks
+  | 'analysis' // per-token take (analyzers/claude.ts)
+  | 'composition' // research tweets
+  | 'reply'; // replies to mentions
+
+export const LLM_TASKS: LLMTask[] = [
+  'sentiment',
+  'classification',
+  'parsing',
+  'summary',
+  'ranking',
+  'analysis',
+  'composition',
+  'reply'
+];
+
+export interface LLMCompletion {
+  task: LLMTask;
+  model: string;
+  prompt: string;
+  maxTokens: number;
+  schema?: OutputSchema<unknown>; // ask for JSON matching this (tool use / JSON mode)
+}
+
+/**
+ * LLMAdapter - one provider's API behind a single call. With a schema the
+ * reply is JSON text, requested the provider's native way where it has one.
+ * Throws LLMError so the client can tell rate limits and outages from bad requests
+ */
+export interface LLMAdapter {
+  available(): boolean; // configured (API key present)
+  complete(request: LLMCompletion): Promise<string>;
+}
+
+export class LLMError extends Error {
+  constructor(readonly provider: string, readonly status: number | undefined, message: string) {
+    super(`${provider}: ${message}`);
+    this.name = 'LLMError';
+  }
+
+  // Worth trying the next model: rate limited, server error, or no response at all
+  get retryable(): boolean {
+    return this.status === undefined || this.status === 429 || this.status >= 500;
+  }
+}
+
+// A reply that still didn't match its schema after the repair retry
+export class LLMOutputError extends Error {
+  constructor(readonly task: LLMTask, readonly problems: string[]) {
+    super(`LLM ${task} output invalid: ${problems.join('; ')}`);
+    this.name = 'LLMOutputError';
+  }
+}
+
+function wrap(provider: string, error: any): LLMError {
+  if (error instanceof LLMError) return error;
+  const status = typeof error?.status === 'number' ? error.status : undefined;
+  return new LLMError(provider, status, error?.message || String(error));
+}
+
+// Clients are created lazily so importing this module never requires an API key
+
+export class AnthropicAdapter implements LLMAdapter {
+  private client: Anthropic | null = null;
+
+  constructor(private apiKey: string | undefined = process.env.ANTHROPIC_API_KEY) {}
+
+  available(): boolean {
+    return !!this.apiKey;
+  }
+
+  async complete(request: LLMCompletion): Promise<string> {
+    if (!this.client) this.client = new Anthropic({ apiKey: this.apiKey });
+    const schema = request.schema;
+    try {
+      // Structured output as a forced tool call; its input is the JSON
+      const message = await this.client.messages.create({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        messages: [{ role: 'user', content: request.prompt }],
+        ...(schema && {
+          tools: [{ name: schema.name, description: schema.description, input_schema: schema.schema }],
+          tool_choice: { type: 'tool' as const, name: schema.name }
+        })
+      });
+      const toolUse = message.content.find(block => block.type === 'tool_use');
+      if (toolUse?.type === 'tool_use') return JSON.stringify(toolUse.input);
+      const text = message.content.find(block => block.type === 'text');
+      return text?.type === 'text' ? text.text : '';
+    } catch (error: any) {
+      throw wrap('anthropic', error);
+    }
+  }
+}
+
+export class GeminiAdapter implements LLMAdapter {
+  private client: GoogleGenerativeAI | null = null;
+
+  constructor(private apiKey: string | undefined = process.env.GOOGLE_API_KEY) {}
+
+  available(): boolean {
+    return !!this.apiKey;
+  }
+
+  async complete(request: LLMCompletion): Promise<string> {
+    if (!this.client) this.client = new GoogleGenerativeAI(this.apiKey || '');
+    try {
+      // JSON mode; the schema itself travels in the prompt (Gemini's schema dialect is narrower)
+      const model = this.client.getGenerativeModel({
+        model: request.model,
+        generationConfig: {
+          maxOutputTokens: request.maxTokens,
+          ...(request.schema && { responseMimeType: 'application/json' })
+        }
+      });
+      const response = await model.generateContent(request.prompt);
+      return response.response.text();
+    } catch (error: any) {
+      throw wrap('gemini', error);
+    }
+  }
+}
+
+export class OpenAIAdapter implements LLMAdapter {
+  private client: OpenAI | null = null;
+
+  constructor(private apiKey: string | undefined = process.env.OPENAI_API_KEY) {}
+
+  available(): boolean {
+    return !!this.apiKey;
+  }
+
+  async complete(request: LLMCompletion): Promise<string> {
+    if (!this.client) this.client = new OpenAI({ apiKey: this.apiKey });
+    try {
+      const schema = request.schema;
+      const response = await this.client.chat.completions.create({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        messages: [{ role: 'user', content: request.prompt }],
+        ...(schema && {
+          response_format: {
+            type: 'json_schema' as const,
+            json_schema: { name: schema.name, description: schema.description, schema: schema.schema, strict: false }
+          }
+        })
+      });
+      return response.choices[0]?.message?.content || '';
+    } catch (error: any) {
+      throw wrap('openai', error);
+    }
+  }
+}
+
+/**
+ * One scripted answer. The first entry whose task and `match` (a regex
+ * tested against the prompt) fit is used; `status` makes the call fail
+ * with that HTTP status instead, to exercise fallback.
+ */
+export interface ScriptedReply {
+  task?: LLMTask;
+  match?: string;
+  reply?: string;
+  status?: number;
+  times?: number; // used at most this often, then skipped
+}
+
+/**
+ * Canned answers for tests and offline runs; every call is kept in `calls`
+ */
+export class ScriptedLLMAdapter implements LLMAdapter {
+  calls: LLMCompletion[] = [];
+  private used = new Map<ScriptedReply, number>();
+
+  constructor(private script: ScriptedReply[], private defaultReply: string = '') {}
+
+  static fromFile(path: string): ScriptedLLMAdapter {
+    return new ScriptedLLMAdapter(JSON.parse(readFileSync(path, 'utf8')));
+  }
+
+  available(): boolean {
+    return true;
+  }
+
+  async complete(request: LLMCompletion): Promise<string> {
+    this.calls.push(request);
+
+    const entry = this.script.find(
+      e =>
+        (!e.task || e.task === request.task) &&
+        (!e.match || new RegExp(e.match, 'i').test(request.prompt)) &&
+        (e.times === undefined || (this.used.get(e) || 0) < e.times)
+    );
+    if (!entry) return this.defaultReply;
+
+    this.used.set(entry, (this.used.get(entry) || 0) + 1);
+    if (entry.status) throw new LLMError('mock', entry.status, `scripted ${entry.status}`);
+    return entry.reply ?? this.defaultReply;
+  }
+}
+
+// task -> "provider:model" candidates, first choice first
+export type LLMRoutes = Record<LLMTask, string[]>;
+
+const FAST = ['anthropic:claude-haiku-4-20250514', 'gemini:gemini-2.0-flash', 'openai:gpt-4o-mini'];
+const BETTER = ['anthropic:claude-sonnet-4-20250514', 'openai:gpt-4o', 'anthropic:claude-haiku-4-20250514'];
+
+export const DEFAULT_ROUTES: LLMRoutes = {
+  sentiment: FAST,
+  classification: FAST,
+  parsing: FAST,
+  summary: FAST,
+  ranking: ['gemini:gemini-2.0-flash', ...FAST.filter(r => !r.startsWith('gemini:'))],
+  analysis: FAST,
+  composition: BETTER,
+  reply: BETTER
+};
+
+function parseRoute(route: string): { provider: string; model: string } {
+  const separator = route.indexOf(':');
+  if (separator <= 0) throw new Error(`LLM route "${route}" should be provider:model`);
+  return { provider: route.slice(0, separator), model: route.slice(separator + 1) };
+}
+
+/**
+ * Default routes, with tasks replaced by the JSON object at LLM_ROUTES
+ * (default llm-routes.json, if present): {"composition": ["openai:gpt-4o"]}
+ */
+export function loadLLMRoutes(path: string = process.env.LLM_ROUTES || 'llm-routes.json'): LLMRoutes {
+  if (!existsSync(path)) return DEFAULT_ROUTES;
+
+  const overrides: Partial<LLMRoutes> = JSON.parse(readFileSync(path, 'utf8'));
+  for (const [task, routes] of Object.entries(overrides)) {
+    if (!LLM_TASKS.includes(task as LLMTask)) throw new Error(`LLM routes name unknown task "${task}"`);
+    (routes || []).forEach(parseRoute);
+  }
+
+  logger.info(`Loaded LLM routes from ${path}`);
+  return { ...DEFAULT_ROUTES, ...overrides };
+}
+
+/**
+ * LLMClient - every model call in the app goes through here. Each task has
+ * an ordered list of models; providers without a key are skipped, and a
+ * 429, 5xx or dropped connection moves on to the next model. Other errors
+ * (bad request, auth) are thrown as they are.
+ *
+ * completeJSON asks for output matching a schema, validates it, and gives
+ * the model one chance to repair an invalid reply. Every outcome is counted
+ * per task (monitor.getLLMOutputMetrics) so parse failures stay visible.
+ */
+export class LLMClient {
+  constructor(
+    private adapters: Record<string, LLMAdapter> = {
+      anthropic: new AnthropicAdapter(),
+      gemini: new GeminiAdapter(),
+      openai: new OpenAIAdapter()
+    },
+    private routes: LLMRoutes = loadLLMRoutes()
+  ) {}
+
+  // Some configured provider can serve the task
+  available(task: LLMTask): boolean {
+    return this.candidates(task).length > 0;
+  }
+
+  async complete(
+    task: LLMTask,
+    prompt: string,
+    options: { maxTokens: number; schema?: OutputSchema<unknown> }
+  ): Promise<string> {
+    const candidates = this.candidates(task);
+    if (candidates.length === 0) throw new LLMError('llm', undefined, `no configured provider for ${task}`);
+
+    let lastError: LLMError | null = null;
+    for (const [i, { provider, model }] of candidates.entries()) {
+      try {
+        return await this.adapters[provider].complete({ task, model, prompt, ...options });
+      } catch (error: any) {
+        lastError = wrap(provider, error);
+        if (!lastError.retryable) throw lastError;
+
+        const next = candidates[i + 1];
+        if (next) {
+          logger.warn(
+            `LLM ${task}: ${provider}:${model} failed (${lastError.status ?? 'no response'}), falling back to ${next.provider}:${next.model}`
+          );
+        }
+      }
+    }
+    throw lastError!;
+  }
+
+  async completeJSON<T>(
+    task: LLMTask,
+    prompt: string,
+    schema: OutputSchema<T>,
+    options: { maxTokens: number }
+  ): Promise<T> {
+    const request = `${prompt}
+
+Reply with only a JSON object matching this schema (${schema.description}):
+${JSON.stringify(schema.schema)}`;
+    const structured = { ...options, schema: schema as OutputSchema<unknown> };
+
+    const first = await this.complete(task, request, structured);
+    const attempt = parseOutput(first, schema);
+    if (attempt.problems.length === 0) {
+      monitor.recordLLMOutput(task, 'parsed');
+      return attempt.value as T;
+    }
+
+    logger.warn(`LLM ${task}: invalid ${schema.name} output, asking for a repair`, attempt.problems);
+    const repair = await this.complete(
+      task,
+      `${request}
+
+Your previous reply:
+${first}
+
+It was invalid: ${attempt.problems.join('; ')}
+Reply again with only the corrected JSON object.`,
+      structured
+    );
+    const repaired = parseOutput(repair, schema);
+    if (repaired.problems.length === 0) {
+      monitor.recordLLMOutput(task, 'repaired');
+      return repaired.value as T;
+    }
+
+    monitor.recordLLMOutput(task, 'failed');
+    throw new LLMOutputError(task, repaired.problems);
+  }
+
+  private candidates(task: LLMTask): { provider: string; model: string }[] {
+    return (this.routes[task] || [])
+      .map(parseRoute)
+      .filter(({ provider }) => this.adapters[provider]?.available());
+  }
+}
+
+function parseOutput(reply: string, schema: OutputSchema<unknown>): { value?: unknown; problems: string[] } {
+  try {
+    const value = extractJson(reply);
+    return { value, problems: schemaProblems(schema.schema, value) };
+  } catch (error: any) {
+    return { problems: [`not JSON: ${error.message}`] };
+  }
+}
+
+/**
+ * LLM_PROVIDER=mock sends every task to a ScriptedLLMAdapter reading
+ * LLM_SCRIPT (default fixtures/llm-script.json); anything else uses the real
+ * providers with LLM_ROUTES
+ */
+export function createLLMClient(provider: string | undefined = process.env.LLM_PROVIDER): LLMClient {
+  if (provider === 'mock') {
+    const path = process.env.LLM_SCRIPT || 'fixtures/llm-script.json';
+    logger.info(`Using scripted LLM responses from ${path}`);
+    const routes = Object.fromEntries(LLM_TASKS.map(task => [task, ['mock:scripted']])) as LLMRoutes;
+    return new LLMClient({ mock: ScriptedLLMAdapter.fromFile(path) }, routes);
+  }
+  return new LLMClient();
+}
+
+export const llm = createLLMClient();
@@ -15,6 +15,13 @@ export interface HealthMetrics {
   successRate: number; // 0-100
 }
 
+// Structured LLM replies per task (shared/llm.ts completeJSON)
+export interface LLMOutputStats {
+  parsed: number; // valid on the first try
+  repaired: number; // valid after the repair retry
+  failed: number; // still invalid; the caller fell back
+}
+
 export interface PerformanceMetrics {
   avgFetchTime: number; // ms
   avgAnalysisTime: number; // ms
@@ -41,6 +48,8 @@ export class Monitor {
     successRate: 100
   };
 
+  private llmOutputs: Record<string, LLMOutputStats> = {};
+
   private performanceData = {
     fetchTimes: [] as number[],
     analysisTimes: [] as number[],
@@ -91,6 +100,22 @@ export class Monitor {
     this.metrics.llmCallsRemaining--;
   }
 
+  recordLLMOutput(task: string, outcome: keyof LLMOutputStats) {
+    const stats = (this.llmOutputs[task] ||= { parsed: 0, repaired: 0, failed: 0 });
+    stats[outcome]++;
+    if (outcome === 'failed') logger.warn(`LLM ${task} output failed validation after repair`, stats);
+  }
+
+  getLLMOutputMetrics(): Record<string, LLMOutputStats & { parseFailureRate: number }> {
+    return Object.fromEntries(
+      Object.entries(this.llmOutputs).map(([task, stats]) => {
+        const total = stats.parsed + stats.repaired + stats.failed;
+        // Share of calls whose first reply didn't parse, repaired or not
+        return [task, { ...stats, parseFailureRate: total > 0 ? (stats.repaired + stats.failed) / total : 0 }];
+      })
+    );
+  }
+
   recordError(error: Error) {
     this.metrics.lastError = error.message;
     this.metrics.lastErrorTime = Date.now();
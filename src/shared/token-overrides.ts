@@ -0,0 +1,155 @@
+import Database from 'better-sqlite3';
+import { Token } from './types.js';
+import { logger } from './logger.js';
+
+export type OverrideAction = 'block' | 'allow';
+
+export interface TokenOverride {
+  tokenId: string; // canonical asset id (collectors/token-registry.ts)
+  action: OverrideAction;
+  reason: string;
+  author: string;
+  createdAt: number;
+  expiresAt?: number; // permanent when absent
+}
+
+/**
+ * Parse an expiry: a duration from now ("12h", "30d") or a date ("2026-12-31").
+ * Undefined input means no expiry.
+ */
+export function parseExpiry(input: string | undefined, now: number = Date.now()): number | undefined {
+  if (!input) return undefined;
+
+  const duration = input.match(/^(\d+)\s*([hdw])$/i);
+  if (duration) {
+    const unitMs = { h: 3600000, d: 86400000, w: 604800000 }[duration[2].toLowerCase() as 'h' | 'd' | 'w'];
+    return now + parseInt(duration[1]) * unitMs;
+  }
+
+  const date = Date.parse(input);
+  if (isNaN(date)) throw new Error(`Invalid expiry "${input}" (use 12h, 30d, 2w or a date)`);
+  if (date <= now) throw new Error(`Expiry ${input} is in the past`);
+  return date;
+}
+
+// Every id a token can be listed under: its canonical id, CoinGecko id and contracts
+function identities(token: Token): string[] {
+  return [
+    token.id,
+    ...(token.coingeckoId ? [token.coingeckoId] : []),
+    ...(token.contracts || []).map(c => `${c.chain}:${c.address}`)
+  ];
+}
+
+/**
+ * TokenOverrides - manual block/allow list by canonical token identity.
+ * Blocked tokens (scams, delistings, legal sensitivity) never reach analysis
+ * or a tweet; allowed tokens skip the impostor and safety filters and always
+ * get a slot in the run's picks. One override per token; expired ones are
+ * kept for the record but ignored.
+ */
+export class TokenOverrides {
+  private db: Database.Database;
+
+  constructor(dbPath: string = 'deciresearch.db') {
+    this.db = new Database(dbPath);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS token_overrides (
+        token_id TEXT PRIMARY KEY,
+        action TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        author TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER
+      );
+    `);
+  }
+
+  set(override: Omit<TokenOverride, 'createdAt'> & { createdAt?: number }): TokenOverride {
+    if (!override.reason?.trim()) throw new Error('An override needs a reason');
+    if (!override.author?.trim()) throw new Error('An override needs an author');
+    if (override.action !== 'block' && override.action !== 'allow') {
+      throw new Error(`Unknown override action "${override.action}"`);
+    }
+
+    const stored: TokenOverride = { ...override, createdAt: override.createdAt ?? Date.now() };
+    this.db
+      .prepare(`
+        INSERT OR REPLACE INTO token_overrides (token_id, action, reason, author, created_at, expires_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `)
+      .run(stored.tokenId, stored.action, stored.reason, stored.author, stored.createdAt, stored.expiresAt ?? null);
+
+    logger.info(`Token override: ${stored.action} ${stored.tokenId} by ${stored.author} (${stored.reason})`);
+    return stored;
+  }
+
+  remove(tokenId: string): boolean {
+    return this.db.prepare('DELETE FROM token_overrides WHERE token_id = ?').run(tokenId).changes > 0;
+  }
+
+  list(includeExpired: boolean = false, now: number = Date.now()): TokenOverride[] {
+    const rows = this.db
+      .prepare(`
+        SELECT * FROM token_overrides
+        WHERE ? OR expires_at IS NULL OR expires_at > ?
+        ORDER BY action, created_at DESC
+      `)
+      .all(includeExpired ? 1 : 0, now) as any[];
+    return rows.map(rowToOverride);
+  }
+
+  // The active override for any of the token's identities
+  get(token: Token, now: number = Date.now()): TokenOverride | null {
+    const ids = identities(token);
+    const row = this.db
+      .prepare(`
+        SELECT * FROM token_overrides
+        WHERE token_id IN (${ids.map(() => '?').join(', ')})
+          AND (expires_at IS NULL OR expires_at > ?)
+        ORDER BY action = 'block' DESC
+        LIMIT 1
+      `)
+      .get(...ids, now) as any;
+    return row ? rowToOverride(row) : null;
+  }
+
+  isBlocked(token: Token): boolean {
+    return this.get(token)?.action === 'block';
+  }
+
+  isAllowed(token: Token): boolean {
+    return this.get(token)?.action === 'allow';
+  }
+
+  withoutBlocked(tokens: Token[]): Token[] {
+    const blocked = tokens.filter(t => this.isBlocked(t));
+    if (blocked.length > 0) {
+      logger.warn('Skipping blocked tokens:', blocked.map(t => `${t.symbol} (${t.id})`));
+    }
+    return tokens.filter(t => !blocked.includes(t));
+  }
+
+  /**
+   * The top `n` of a score-sorted list, with allowed tokens guaranteed a slot
+   */
+  pick(scored: Token[], n: number): Token[] {
+    const forced = scored.filter(t => this.isAllowed(t)).slice(0, n);
+    const rest = scored.filter(t => !forced.includes(t)).slice(0, n - forced.length);
+    const picked = new Set([...forced, ...rest]);
+    return scored.filter(t => picked.has(t));
+  }
+}
+
+function rowToOverride(row: any): TokenOverride {
+  return {
+    tokenId: row.token_id,
+    action: row.action,
+    reason: row.reason,
+    author: row.author,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at ?? undefined
+  };
+}
+
+export const tokenOverrides = new TokenOverrides();
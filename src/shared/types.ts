@@ -1,3 +1,33 @@
+export type TokenSource = 'coingecko' | 'dexscreener';
+
+export interface TokenContract {
+  chain: string; // canonical chain id (collectors/chains.ts)
+  address: string; // EVM addresses lowercased
+}
+
+export interface ScoreComponent {
+  factor: string; // scoring factor name (analyzers/scorer.ts)
+  points: number;
+  value: number; // the metric the factor looked at
+  reason: string;
+}
+
+/**
+ * Contract and trading-pattern red flags (collectors/contract-risk.ts).
+ * Absent fields weren't measured; they never count as safe or unsafe.
+ */
+export interface ContractRisk {
+  mintable?: boolean; // mint authority (Solana) or owner mint function still live
+  freezable?: boolean; // freeze authority, or owner can pause transfers
+  upgradeable?: boolean; // proxy contract the owner can swap out
+  renounced?: boolean; // no owner left
+  honeypot?: boolean; // a simulated sell fails
+  buyTax?: number; // percent
+  sellTax?: number; // percent
+  sellShare?: number; // sells / all swaps over 24h, 0-1
+  liquidityLockedPercent?: number; // of the pool's liquidity, when the DEX reports it
+}
+
 export interface Token {
   id: string;
   symbol: string;
@@ -8,6 +38,8 @@ export interface Token {
   priceChange24h: number;
   priceChange7d: number;
   score?: number;
+  scoreBreakdown?: ScoreComponent[]; // what score is made of
+  sector?: string; // sector id (collectors/sectors.ts)
   analysis?: string;
   timestamp: number;
   // Validation fields
@@ -16,6 +48,27 @@ export interface Token {
   liquidity?: number; // USD value of liquidity
   topHolderPercent?: number; // percentage owned by largest holder
   contractRenounced?: boolean;
+  contractRisk?: ContractRisk;
+  // DEX pair activity (collectors/dexscreener.ts)
+  buys24h?: number;
+  sells24h?: number;
+  liquidityLockedPercent?: number;
+  // Fundamentals (collectors/defillama.ts)
+  tvl?: number; // USD, protocol or chain
+  tvlChange7d?: number; // percent
+  fees24h?: number; // USD
+  fees7d?: number;
+  // Perpetuals positioning (collectors/derivatives.ts)
+  fundingRate?: number; // latest rate per funding interval, as a fraction (0.0001 = 0.01%)
+  previousFundingRate?: number; // the interval before, to spot flips
+  openInterest?: number; // USD
+  openInterestChange24h?: number; // percent
+  // Identity (see collectors/token-registry.ts)
+  coingeckoId?: string;
+  contracts?: TokenContract[];
+  sources?: TokenSource[];
+  provenance?: Partial<Record<keyof Token, TokenSource>>; // which source each merged metric came from
+  symbolCollision?: string[]; // ids of other assets trading under the same symbol
 }
 
 export interface TweetContent {
@@ -1,79 +1,436 @@
+import { existsSync, readFileSync } from 'fs';
 import { Token } from './types.js';
 import { logger } from './logger.js';
+import { config, BotConfig } from './config.js';
+import { saveValidations } from './db.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ValidationMetric =
+  | 'age'
+  | 'volumeToMcap'
+  | 'priceChange24h'
+  | 'volatility24h'
+  | 'liquidity'
+  | 'topHolderPercent'
+  | 'volume24h'
+  | 'contractRenounced'
+  | 'honeypot'
+  | 'mintable'
+  | 'freezable'
+  | 'upgradeable'
+  | 'buyTax'
+  | 'sellTax'
+  | 'taxAsymmetry'
+  | 'sellShare'
+  | 'liquidityLocked';
+
+// A literal, or the name of a BotConfig threshold so config changes take effect
+export type Threshold = number | keyof BotConfig;
+
+/**
+ * One check. It fires when the metric is above `above` or below `below`
+ * (exclusive); tokens without the metric are skipped, not penalised.
+ * `{value}` and `{threshold}` in the message are filled in.
+ */
+export interface ValidationRule {
+  id: string;
+  metric: ValidationMetric;
+  above?: Threshold;
+  below?: Threshold;
+  severity: 'risk' | 'warning'; // any risk blocks the token
+  penalty: number; // taken off the 100-point safety score
+  message: string;
+}
+
+// Which tokens a profile applies to; every given field must match
+export interface ProfileMatch {
+  listed?: boolean; // has a CoinGecko id
+  minMarketCap?: number;
+  chains?: string[]; // any of the token's contracts on one of these
+}
+
+export interface ValidationProfile {
+  id: string;
+  description: string;
+  match?: ProfileMatch; // omitted: matches every token
+  minScore: number; // below this the token fails even without risks
+  rules: ValidationRule[];
+}
+
+export interface RuleEvaluation {
+  rule: string;
+  severity: 'risk' | 'warning';
+  status: 'passed' | 'fired' | 'skipped'; // skipped: token has no value for the metric
+  value?: number;
+  threshold?: number;
+  penalty: number; // applied (0 unless fired)
+  message?: string;
+}
 
 export interface ValidationResult {
   isValid: boolean;
   score: number; // 0-100, higher is safer
   risks: string[];
   warnings: string[];
+  profile: string;
+  blockedBy: string[]; // rule ids that failed the token, or 'min-score'
+  evaluations: RuleEvaluation[];
 }
 
-export function validateToken(token: Token): ValidationResult {
-  const risks: string[] = [];
-  const warnings: string[] = [];
-  let safetyScore = 100;
+interface MetricDefinition {
+  value: (token: Token) => number | undefined;
+  format: (value: number) => string;
+}
 
-  // 1. Red flags: Very new tokens
-  if (token.age && token.age < 7 * 24 * 60 * 60 * 1000) { // Less than 7 days
-    risks.push('Token less than 7 days old');
-    safetyScore -= 40;
-  }
+// true/false as 1/0; unmeasured stays undefined
+function flag(value: boolean | undefined): number | undefined {
+  return value === undefined ? undefined : value ? 1 : 0;
+}
 
-  // 2. Red flags: Extremely low market cap with high volume (classic pump)
-  if (token.marketCap > 0 && token.volume24h > 0) {
-    const volumeToMcapRatio = token.volume24h / token.marketCap;
-    if (volumeToMcapRatio > 2) {
-      risks.push(`Suspicious volume/market cap ratio: ${volumeToMcapRatio.toFixed(2)}x`);
-      safetyScore -= 30;
-    }
-  }
+const yesNo = (v: number) => (v ? 'yes' : 'no');
+const percent = (v: number) => `${v.toFixed(0)}%`;
+
+// Collectors use 0 for unknown, so a 0 age/liquidity/volatility/holder share counts as missing
+const METRICS: Record<ValidationMetric, MetricDefinition> = {
+  age: { value: t => t.age || undefined, format: v => `${(v / DAY_MS).toFixed(1)} days` },
+  volumeToMcap: {
+    value: t => (t.marketCap > 0 && t.volume24h > 0 ? t.volume24h / t.marketCap : undefined),
+    format: v => `${v.toFixed(2)}x`
+  },
+  priceChange24h: { value: t => t.priceChange24h, format: v => `${v > 0 ? '+' : ''}${v.toFixed(0)}%` },
+  volatility24h: { value: t => t.volatility24h || undefined, format: v => `${v.toFixed(0)}%` },
+  liquidity: { value: t => t.liquidity || undefined, format: v => `$${(v / 1000).toFixed(0)}K` },
+  topHolderPercent: { value: t => t.topHolderPercent || undefined, format: v => `${v.toFixed(1)}%` },
+  volume24h: { value: t => t.volume24h, format: v => `$${(v / 1000).toFixed(0)}K` },
+  contractRenounced: { value: t => flag(t.contractRenounced), format: yesNo },
+  // Contract risk (collectors/contract-risk.ts)
+  honeypot: { value: t => flag(t.contractRisk?.honeypot), format: yesNo },
+  mintable: { value: t => flag(t.contractRisk?.mintable), format: yesNo },
+  freezable: { value: t => flag(t.contractRisk?.freezable), format: yesNo },
+  upgradeable: { value: t => flag(t.contractRisk?.upgradeable), format: yesNo },
+  buyTax: { value: t => t.contractRisk?.buyTax, format: percent },
+  sellTax: { value: t => t.contractRisk?.sellTax, format: percent },
+  taxAsymmetry: {
+    value: t =>
+      t.contractRisk?.sellTax === undefined ? undefined : t.contractRisk.sellTax - (t.contractRisk.buyTax ?? 0),
+    format: v => `${v.toFixed(0)} points`
+  },
+  sellShare: { value: t => t.contractRisk?.sellShare, format: v => `${(v * 100).toFixed(0)}%` },
+  liquidityLocked: { value: t => t.contractRisk?.liquidityLockedPercent, format: percent }
+};
 
-  // 3. Red flag: Price up >200% in 24h (classic pump before dump)
-  if (token.priceChange24h > 200) {
-    warnings.push(`Extreme 24h gain: +${token.priceChange24h.toFixed(0)}%`);
-    safetyScore -= 20;
+// Shared rule definitions; profiles pick and adjust them
+const RULES = {
+  young: {
+    id: 'young',
+    metric: 'age',
+    below: 7 * DAY_MS,
+    severity: 'risk',
+    penalty: 40,
+    message: 'Token less than 7 days old'
+  },
+  pumpRatio: {
+    id: 'pump-ratio',
+    metric: 'volumeToMcap',
+    above: 2,
+    severity: 'risk',
+    penalty: 30,
+    message: 'Suspicious volume/market cap ratio: {value}'
+  },
+  extremeGain: {
+    id: 'extreme-gain',
+    metric: 'priceChange24h',
+    above: 200,
+    severity: 'warning',
+    penalty: 20,
+    message: 'Extreme 24h gain: {value}'
+  },
+  volatility: {
+    id: 'volatility',
+    metric: 'volatility24h',
+    above: 'maxVolatilityPercent',
+    severity: 'risk',
+    penalty: 25,
+    message: 'Extreme volatility: {value}'
+  },
+  thinLiquidity: {
+    id: 'thin-liquidity',
+    metric: 'liquidity',
+    below: 'minLiquidityUSD',
+    severity: 'warning',
+    penalty: 10,
+    message: 'Low liquidity: {value}'
+  },
+  holderConcentration: {
+    id: 'holder-concentration',
+    metric: 'topHolderPercent',
+    above: 'maxHolderConcentration',
+    severity: 'risk',
+    penalty: 35,
+    message: 'High holder concentration: Top holder owns {value}'
+  },
+  illiquid: {
+    id: 'illiquid',
+    metric: 'volumeToMcap',
+    below: 0.01,
+    severity: 'warning',
+    penalty: 15,
+    message: 'Very low trading volume relative to market cap (illiquid)'
+  },
+  lowVolume: {
+    id: 'low-volume',
+    metric: 'volume24h',
+    below: 'minVolumeUSD',
+    severity: 'risk',
+    penalty: 20,
+    message: '24h volume {value} under the {threshold} minimum'
+  },
+  renounced: {
+    id: 'renounced',
+    metric: 'contractRenounced',
+    above: 0,
+    severity: 'warning',
+    penalty: 5,
+    message: 'Ownership renounced (could be abandoned project)'
+  },
+  honeypot: {
+    id: 'honeypot',
+    metric: 'honeypot',
+    above: 0,
+    severity: 'risk',
+    penalty: 100,
+    message: 'Honeypot: a simulated sell fails'
+  },
+  buyOnly: {
+    id: 'buy-only',
+    metric: 'sellShare',
+    below: 0.05,
+    severity: 'risk',
+    penalty: 50,
+    message: 'Only {value} of 24h swaps were sells (possible honeypot)'
+  },
+  sellTax: {
+    id: 'sell-tax',
+    metric: 'sellTax',
+    above: 10,
+    severity: 'risk',
+    penalty: 40,
+    message: 'Sell tax {value}'
+  },
+  taxAsymmetry: {
+    id: 'tax-asymmetry',
+    metric: 'taxAsymmetry',
+    above: 5,
+    severity: 'risk',
+    penalty: 30,
+    message: 'Sell tax {value} above buy tax'
+  },
+  buyTax: {
+    id: 'buy-tax',
+    metric: 'buyTax',
+    above: 5,
+    severity: 'warning',
+    penalty: 10,
+    message: 'Buy tax {value}'
+  },
+  mintable: {
+    id: 'mintable',
+    metric: 'mintable',
+    above: 0,
+    severity: 'risk',
+    penalty: 35,
+    message: 'Supply can still be minted'
+  },
+  freezable: {
+    id: 'freezable',
+    metric: 'freezable',
+    above: 0,
+    severity: 'risk',
+    penalty: 35,
+    message: 'Holders can be frozen or transfers paused'
+  },
+  upgradeable: {
+    id: 'upgradeable',
+    metric: 'upgradeable',
+    above: 0,
+    severity: 'warning',
+    penalty: 15,
+    message: 'Upgradeable proxy contract'
+  },
+  unlockedLiquidity: {
+    id: 'unlocked-liquidity',
+    metric: 'liquidityLocked',
+    below: 50,
+    severity: 'warning',
+    penalty: 15,
+    message: 'Only {value} of liquidity locked'
   }
+} satisfies Record<string, ValidationRule>;
 
-  // 4. Red flag: Extreme volatility (>150% swing in a day)
-  if (token.volatility24h && token.volatility24h > 150) {
-    risks.push(`Extreme volatility: ${token.volatility24h.toFixed(0)}%`);
-    safetyScore -= 25;
+/**
+ * Profiles are tried in order; the first whose match fits the token applies.
+ * Keep `default` last.
+ */
+export const DEFAULT_PROFILES: ValidationProfile[] = [
+  {
+    id: 'large-cap',
+    description: 'CoinGecko-listed assets over $1B: age, DEX liquidity and top holders (exchanges, bridges) say little',
+    match: { listed: true, minMarketCap: 1e9 },
+    minScore: 40,
+    rules: [
+      { ...RULES.pumpRatio, severity: 'warning', penalty: 15 },
+      RULES.extremeGain,
+      RULES.volatility,
+      RULES.illiquid,
+      RULES.lowVolume,
+      RULES.honeypot
+    ]
+  },
+  {
+    id: 'solana-dex',
+    description: 'Unlisted Solana tokens (mostly new memecoins): concentration and thin pools block, heavy churn is normal',
+    match: { listed: false, chains: ['solana'] },
+    minScore: 50,
+    rules: [
+      RULES.young,
+      { ...RULES.pumpRatio, above: 5, message: 'Volume {value} of market cap, even for a memecoin' },
+      RULES.extremeGain,
+      RULES.volatility,
+      { ...RULES.thinLiquidity, severity: 'risk', penalty: 30 },
+      RULES.holderConcentration,
+      RULES.lowVolume,
+      RULES.honeypot,
+      RULES.buyOnly,
+      RULES.mintable,
+      RULES.freezable,
+      RULES.unlockedLiquidity
+    ]
+  },
+  {
+    id: 'default',
+    description: 'Everything else',
+    minScore: 40,
+    rules: [
+      RULES.young,
+      RULES.pumpRatio,
+      RULES.extremeGain,
+      RULES.volatility,
+      RULES.thinLiquidity,
+      RULES.holderConcentration,
+      RULES.illiquid,
+      RULES.lowVolume,
+      RULES.renounced,
+      RULES.honeypot,
+      RULES.buyOnly,
+      RULES.sellTax,
+      RULES.taxAsymmetry,
+      RULES.buyTax,
+      RULES.mintable,
+      RULES.freezable,
+      RULES.upgradeable,
+      RULES.unlockedLiquidity
+    ]
   }
+];
 
-  // 5. Warning: Low liquidity relative to price
-  if (token.liquidity && token.liquidity < 100000) {
-    warnings.push(`Low liquidity: $${(token.liquidity / 1000).toFixed(0)}K`);
-    safetyScore -= 10;
+function resolveThreshold(threshold: Threshold | undefined): number | undefined {
+  if (threshold === undefined || typeof threshold === 'number') return threshold;
+  const value = config.get(threshold);
+  if (typeof value !== 'number') throw new Error(`Validation threshold "${threshold}" is not a numeric config value`);
+  return value;
+}
+
+function validateProfiles(profiles: ValidationProfile[]): ValidationProfile[] {
+  for (const profile of profiles) {
+    for (const rule of profile.rules) {
+      if (!METRICS[rule.metric]) {
+        throw new Error(`Validation rule "${profile.id}/${rule.id}" has unknown metric "${rule.metric}"`);
+      }
+      if (rule.above === undefined && rule.below === undefined) {
+        throw new Error(`Validation rule "${profile.id}/${rule.id}" needs an above or below threshold`);
+      }
+      resolveThreshold(rule.above);
+      resolveThreshold(rule.below);
+    }
   }
+  return profiles;
+}
+
+/**
+ * Default profiles, overridden by the JSON array of profiles at VALIDATION_RULES
+ * (default validation-rules.json, if present). A profile replaces the default
+ * with the same id; new ids are tried before `default`.
+ */
+export function loadValidationProfiles(
+  path: string = process.env.VALIDATION_RULES || 'validation-rules.json'
+): ValidationProfile[] {
+  if (!existsSync(path)) return DEFAULT_PROFILES;
 
-  // 6. Warning: Holder concentration (if one wallet owns >50%)
-  if (token.topHolderPercent && token.topHolderPercent > 50) {
-    risks.push(`High holder concentration: Top holder owns ${token.topHolderPercent.toFixed(1)}%`);
-    safetyScore -= 35;
+  const overrides: ValidationProfile[] = JSON.parse(readFileSync(path, 'utf8'));
+  const profiles = [...DEFAULT_PROFILES];
+  for (const profile of overrides) {
+    const index = profiles.findIndex(p => p.id === profile.id);
+    if (index >= 0) profiles[index] = profile;
+    else profiles.splice(profiles.length - 1, 0, profile);
   }
 
-  // 7. Warning: Low volume for its market cap (dead token)
-  if (token.marketCap > 0 && token.volume24h > 0) {
-    const volumeToMcapRatio = token.volume24h / token.marketCap;
-    if (volumeToMcapRatio < 0.01) {
-      warnings.push('Very low trading volume relative to market cap (illiquid)');
-      safetyScore -= 15;
-    }
+  logger.info(`Loaded validation profiles from ${path}`);
+  return validateProfiles(profiles);
+}
+
+function matches(token: Token, match: ProfileMatch = {}): boolean {
+  if (match.listed !== undefined && !!token.coingeckoId !== match.listed) return false;
+  if (match.minMarketCap !== undefined && !(token.marketCap >= match.minMarketCap)) return false;
+  if (match.chains && !token.contracts?.some(c => match.chains!.includes(c.chain))) return false;
+  return true;
+}
+
+export function profileFor(token: Token, profiles: ValidationProfile[]): ValidationProfile {
+  return profiles.find(p => matches(token, p.match)) || profiles[profiles.length - 1];
+}
+
+function evaluate(rule: ValidationRule, token: Token): RuleEvaluation {
+  const metric = METRICS[rule.metric];
+  const value = metric.value(token);
+  if (value === undefined || !Number.isFinite(value)) {
+    return { rule: rule.id, severity: rule.severity, status: 'skipped', penalty: 0 };
   }
 
-  // 8. Red flag: Contract renounced (could be abandoned)
-  if (token.contractRenounced) {
-    warnings.push('Ownership renounced (could be abandoned project)');
-    safetyScore -= 5;
+  const above = resolveThreshold(rule.above);
+  const below = resolveThreshold(rule.below);
+  const threshold = above !== undefined && value > above ? above : below !== undefined && value < below ? below : undefined;
+  if (threshold === undefined) {
+    return { rule: rule.id, severity: rule.severity, status: 'passed', value, threshold: above ?? below, penalty: 0 };
   }
 
-  // Clamp score to 0-100
-  safetyScore = Math.max(0, Math.min(100, safetyScore));
+  return {
+    rule: rule.id,
+    severity: rule.severity,
+    status: 'fired',
+    value,
+    threshold,
+    penalty: rule.penalty,
+    message: rule.message.replace('{value}', metric.format(value)).replace('{threshold}', metric.format(threshold))
+  };
+}
+
+export function validateToken(token: Token, profiles: ValidationProfile[] = loadValidationProfiles()): ValidationResult {
+  const profile = profileFor(token, profiles);
+  const evaluations = profile.rules.map(rule => evaluate(rule, token));
+  const fired = evaluations.filter(e => e.status === 'fired');
 
-  const isValid = risks.length === 0 && safetyScore >= 40;
+  const risks = fired.filter(e => e.severity === 'risk').map(e => e.message!);
+  const warnings = fired.filter(e => e.severity === 'warning').map(e => e.message!);
+  const safetyScore = Math.max(0, Math.min(100, 100 - fired.reduce((sum, e) => sum + e.penalty, 0)));
+
+  const blockedBy = fired.filter(e => e.severity === 'risk').map(e => e.rule);
+  if (safetyScore < profile.minScore) blockedBy.push('min-score');
+  const isValid = blockedBy.length === 0;
 
   if (!isValid) {
     logger.warn(`Token ${token.symbol} failed validation`, {
+      profile: profile.id,
       score: safetyScore,
       risks,
       warnings
@@ -84,13 +441,31 @@ export function validateToken(token: Token): ValidationResult {
     isValid,
     score: safetyScore,
     risks,
-    warnings
+    warnings,
+    profile: profile.id,
+    blockedBy,
+    evaluations
   };
 }
 
+/**
+ * Tokens that pass their profile's rules. Every evaluation is recorded
+ * so a blocked token can be explained later (`/tokens/:id/validation`).
+ */
 export function filterSafeTokens(tokens: Token[]): Token[] {
-  return tokens.filter(token => {
-    const validation = validateToken(token);
-    return validation.isValid;
-  });
+  if (!config.get('enableValidation')) {
+    logger.warn('Validation disabled, passing all tokens');
+    return tokens;
+  }
+
+  const profiles = loadValidationProfiles();
+  const results = tokens.map(token => ({ token, validation: validateToken(token, profiles) }));
+
+  try {
+    saveValidations(results);
+  } catch (error: any) {
+    logger.error('Failed to record validation results', error.message);
+  }
+
+  return results.filter(r => r.validation.isValid).map(r => r.token);
 }
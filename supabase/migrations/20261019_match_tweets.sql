@@ -0,0 +1,56 @@
+-- Top-k cosine similarity search over tweet embeddings (pgvector)
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- Cosine index for the <=> operator used below
+CREATE INDEX IF NOT EXISTS idx_tweets_embedding_cosine
+  ON tweets USING ivfflat (embedding vector_cosine_ops) WITH (lists = 100);
+
+-- Returns the closest tweets to query_embedding, optionally restricted to
+-- accounts of one tracked_accounts.category
+CREATE OR REPLACE FUNCTION match_tweets(
+  query_embedding vector(1536),
+  match_count INTEGER DEFAULT 10,
+  filter_category TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id TEXT,
+  tweet_id TEXT,
+  handle TEXT,
+  text TEXT,
+  embedding vector(1536),
+  "timestamp" BIGINT,
+  likes INTEGER,
+  retweets INTEGER,
+  replies INTEGER,
+  sentiment TEXT,
+  topics TEXT[],
+  credibility_at_time REAL,
+  stored_at BIGINT,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    t.id,
+    t.tweet_id,
+    t.handle,
+    t.text,
+    t.embedding,
+    t."timestamp",
+    t.likes,
+    t.retweets,
+    t.replies,
+    t.sentiment,
+    t.topics,
+    t.credibility_at_time,
+    t.stored_at,
+    1 - (t.embedding <=> query_embedding) AS similarity
+  FROM tweets t
+  LEFT JOIN tracked_accounts a ON lower(a.handle) = lower(t.handle)
+  WHERE t.embedding IS NOT NULL
+    AND (filter_category IS NULL OR a.category = filter_category)
+  ORDER BY t.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+COMMENT ON FUNCTION match_tweets IS 'Top-k cosine search over tweets.embedding, optionally filtered by tracked account category';
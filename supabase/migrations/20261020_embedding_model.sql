@@ -0,0 +1,95 @@
+-- Tag every tweet embedding with the model that produced it so vectors from
+-- different providers (OpenAI 1536d, local MiniLM 384d, hashed n-grams) can
+-- share the table without ever being compared to each other.
+
+ALTER TABLE tweets ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+ALTER TABLE tweets ADD COLUMN IF NOT EXISTS embedding_dim INTEGER;
+ALTER TABLE tweets ADD COLUMN IF NOT EXISTS embedding_status TEXT DEFAULT 'ok';
+
+-- Everything stored so far came from text-embedding-3-small
+UPDATE tweets
+SET embedding_model = 'openai:text-embedding-3-small',
+    embedding_dim = 1536
+WHERE embedding IS NOT NULL AND embedding_model IS NULL;
+
+-- Older rows stored all-zero placeholder vectors when the API call failed;
+-- clear them and queue them for re-embedding
+UPDATE tweets
+SET embedding = NULL,
+    embedding_status = 'failed'
+WHERE embedding IS NOT NULL AND vector_norm(embedding) = 0;
+
+UPDATE tweets
+SET embedding_status = 'failed'
+WHERE embedding IS NULL AND embedding_status = 'ok';
+
+-- Allow vectors of any dimension in the column
+DROP INDEX IF EXISTS idx_tweets_embedding;
+DROP INDEX IF EXISTS idx_tweets_embedding_cosine;
+ALTER TABLE tweets ALTER COLUMN embedding TYPE vector;
+
+-- ivfflat needs a fixed dimension, so index each model separately
+CREATE INDEX IF NOT EXISTS idx_tweets_embedding_openai_small
+  ON tweets USING ivfflat ((embedding::vector(1536)) vector_cosine_ops) WITH (lists = 100)
+  WHERE embedding_model = 'openai:text-embedding-3-small';
+
+CREATE INDEX IF NOT EXISTS idx_tweets_embedding_status ON tweets(embedding_status);
+
+-- match_tweets now takes the query's model and only compares like with like
+DROP FUNCTION IF EXISTS match_tweets(vector, integer, text);
+
+CREATE OR REPLACE FUNCTION match_tweets(
+  query_embedding vector,
+  filter_model TEXT,
+  match_count INTEGER DEFAULT 10,
+  filter_category TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id TEXT,
+  tweet_id TEXT,
+  handle TEXT,
+  text TEXT,
+  embedding vector,
+  embedding_model TEXT,
+  embedding_dim INTEGER,
+  embedding_status TEXT,
+  "timestamp" BIGINT,
+  likes INTEGER,
+  retweets INTEGER,
+  replies INTEGER,
+  sentiment TEXT,
+  topics TEXT[],
+  credibility_at_time REAL,
+  stored_at BIGINT,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    t.id,
+    t.tweet_id,
+    t.handle,
+    t.text,
+    t.embedding,
+    t.embedding_model,
+    t.embedding_dim,
+    t.embedding_status,
+    t."timestamp",
+    t.likes,
+    t.retweets,
+    t.replies,
+    t.sentiment,
+    t.topics,
+    t.credibility_at_time,
+    t.stored_at,
+    1 - (t.embedding <=> query_embedding) AS similarity
+  FROM tweets t
+  LEFT JOIN tracked_accounts a ON lower(a.handle) = lower(t.handle)
+  WHERE t.embedding IS NOT NULL
+    AND t.embedding_model = filter_model
+    AND (filter_category IS NULL OR a.category = filter_category)
+  ORDER BY t.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+COMMENT ON FUNCTION match_tweets IS 'Top-k cosine search over tweets embedded by filter_model, optionally filtered by tracked account category';
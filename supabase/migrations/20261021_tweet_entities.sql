@@ -0,0 +1,95 @@
+-- Structured entities extracted from tweet text (src/intelligence/entity-extractor.ts)
+ALTER TABLE tweets ADD COLUMN IF NOT EXISTS symbols TEXT[] DEFAULT '{}';
+ALTER TABLE tweets ADD COLUMN IF NOT EXISTS addresses TEXT[] DEFAULT '{}';
+ALTER TABLE tweets ADD COLUMN IF NOT EXISTS chains TEXT[] DEFAULT '{}';
+ALTER TABLE tweets ADD COLUMN IF NOT EXISTS protocols TEXT[] DEFAULT '{}';
+ALTER TABLE tweets ADD COLUMN IF NOT EXISTS mentions TEXT[] DEFAULT '{}';
+
+-- Backfill cashtags and @handles for existing rows; chains, protocols and
+-- addresses are filled in as tweets are re-ingested
+UPDATE tweets t
+SET symbols = COALESCE((
+      SELECT array_agg(DISTINCT upper(m[1]))
+      FROM regexp_matches(t.text, '\$([A-Za-z][A-Za-z0-9]{0,9})\M', 'g') AS m
+    ), '{}'),
+    mentions = COALESCE((
+      SELECT array_agg(DISTINCT lower(m[1]))
+      FROM regexp_matches(t.text, '@([A-Za-z0-9_]{1,15})', 'g') AS m
+    ), '{}')
+WHERE t.symbols = '{}' AND t.mentions = '{}';
+
+-- GIN indexes back the @> (contains) filters used by getTweetsByEntity
+CREATE INDEX IF NOT EXISTS idx_tweets_symbols ON tweets USING GIN (symbols);
+CREATE INDEX IF NOT EXISTS idx_tweets_addresses ON tweets USING GIN (addresses);
+CREATE INDEX IF NOT EXISTS idx_tweets_chains ON tweets USING GIN (chains);
+CREATE INDEX IF NOT EXISTS idx_tweets_protocols ON tweets USING GIN (protocols);
+CREATE INDEX IF NOT EXISTS idx_tweets_mentions ON tweets USING GIN (mentions);
+
+-- Return the entity columns from semantic search as well
+DROP FUNCTION IF EXISTS match_tweets(vector, text, integer, text);
+
+CREATE OR REPLACE FUNCTION match_tweets(
+  query_embedding vector,
+  filter_model TEXT,
+  match_count INTEGER DEFAULT 10,
+  filter_category TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id TEXT,
+  tweet_id TEXT,
+  handle TEXT,
+  text TEXT,
+  embedding vector,
+  embedding_model TEXT,
+  embedding_dim INTEGER,
+  embedding_status TEXT,
+  "timestamp" BIGINT,
+  likes INTEGER,
+  retweets INTEGER,
+  replies INTEGER,
+  sentiment TEXT,
+  topics TEXT[],
+  symbols TEXT[],
+  addresses TEXT[],
+  chains TEXT[],
+  protocols TEXT[],
+  mentions TEXT[],
+  credibility_at_time REAL,
+  stored_at BIGINT,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    t.id,
+    t.tweet_id,
+    t.handle,
+    t.text,
+    t.embedding,
+    t.embedding_model,
+    t.embedding_dim,
+    t.embedding_status,
+    t."timestamp",
+    t.likes,
+    t.retweets,
+    t.replies,
+    t.sentiment,
+    t.topics,
+    t.symbols,
+    t.addresses,
+    t.chains,
+    t.protocols,
+    t.mentions,
+    t.credibility_at_time,
+    t.stored_at,
+    1 - (t.embedding <=> query_embedding) AS similarity
+  FROM tweets t
+  LEFT JOIN tracked_accounts a ON lower(a.handle) = lower(t.handle)
+  WHERE t.embedding IS NOT NULL
+    AND t.embedding_model = filter_model
+    AND (filter_category IS NULL OR a.category = filter_category)
+  ORDER BY t.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+COMMENT ON FUNCTION match_tweets IS 'Top-k cosine search over tweets embedded by filter_model, optionally filtered by tracked account category';
@@ -0,0 +1,148 @@
+-- Topic taxonomy: canonical topic ids with aliases and parent/child relations.
+-- LLM topic strings are resolved through src/intelligence/topic-taxonomy.ts;
+-- this migration installs the seed taxonomy and rewrites existing tweets.topics.
+
+CREATE TABLE IF NOT EXISTS topics (
+  id TEXT PRIMARY KEY,
+  label TEXT NOT NULL,
+  parent_id TEXT REFERENCES topics(id) ON DELETE SET NULL,
+  aliases TEXT[] DEFAULT '{}',
+  embedding vector,
+  embedding_model TEXT,
+  created_at BIGINT,
+  updated_at BIGINT
+);
+
+-- Used by narrative-shifts.ts; created here if missing so snapshot topics can be rewritten
+CREATE TABLE IF NOT EXISTS narrative_snapshots (
+  id BIGSERIAL PRIMARY KEY,
+  topic TEXT NOT NULL,
+  date TEXT,
+  sentiment JSONB,
+  top_accounts TEXT[] DEFAULT '{}',
+  avg_credibility REAL,
+  mention_count INTEGER,
+  timestamp BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS idx_narrative_snapshots_topic ON narrative_snapshots(topic, timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_topics_parent ON topics(parent_id);
+CREATE INDEX IF NOT EXISTS idx_topics_aliases ON topics USING GIN (aliases);
+CREATE INDEX IF NOT EXISTS idx_tweets_topics ON tweets USING GIN (topics);
+
+-- Seed taxonomy (mirrors TOPIC_SEED, parents listed before children)
+INSERT INTO topics (id, label, parent_id, aliases)
+VALUES
+  ('bitcoin', 'Bitcoin', NULL, ARRAY['btc', 'bitcoin ecosystem']),
+  ('bitcoin-etf', 'Bitcoin ETFs', 'bitcoin', ARRAY['btc etf', 'spot bitcoin etf', 'etf flows']),
+  ('ordinals', 'Ordinals', 'bitcoin', ARRAY['inscriptions', 'brc-20', 'runes']),
+  ('bitcoin-l2', 'Bitcoin L2s', 'bitcoin', ARRAY['btc l2', 'btcfi', 'bitcoin layer 2']),
+  ('ethereum', 'Ethereum', NULL, ARRAY['eth', 'ethereum ecosystem']),
+  ('restaking', 'Restaking', 'ethereum', ARRAY['eigenlayer', 'lrt', 'lrts', 'liquid restaking']),
+  ('liquid-staking', 'Liquid staking', 'ethereum', ARRAY['lst', 'lsts', 'lsd', 'lsdfi', 'staking']),
+  ('layer-2', 'Layer 2s', 'ethereum', ARRAY['l2', 'l2s', 'rollup', 'rollups', 'layer 2', 'layer2']),
+  ('solana', 'Solana', NULL, ARRAY['sol', 'solana ecosystem']),
+  ('defi', 'DeFi', NULL, ARRAY['decentralized finance', 'onchain finance']),
+  ('dex', 'DEXs', 'defi', ARRAY['dexs', 'dexes', 'amm', 'amms', 'decentralized exchange']),
+  ('lending', 'Lending', 'defi', ARRAY['money markets', 'borrowing', 'defi lending']),
+  ('yield', 'Yield', 'defi', ARRAY['yields', 'yield farming', 'farming', 'apy']),
+  ('perps', 'Perpetuals', 'defi', ARRAY['perp', 'perp dex', 'perpetual', 'perpetual futures', 'funding rates']),
+  ('prediction-markets', 'Prediction markets', 'defi', ARRAY['prediction market', 'polymarket']),
+  ('stablecoins', 'Stablecoins', NULL, ARRAY['stablecoin', 'stables', 'usdc', 'usdt']),
+  ('rwa', 'Real-world assets', NULL, ARRAY['rwas', 'real world assets', 'tokenization', 'tokenized treasuries']),
+  ('ai', 'AI', NULL, ARRAY['crypto ai', 'ai tokens', 'artificial intelligence', 'decentralized ai']),
+  ('ai-agents', 'AI agents', 'ai', ARRAY['ai agent', 'agentic ai', 'agents', 'autonomous agents', 'crypto ai agents']),
+  ('depin', 'DePIN', NULL, ARRAY['decentralized physical infrastructure']),
+  ('memecoins', 'Memecoins', NULL, ARRAY['memecoin', 'meme coins', 'meme coin', 'memes', 'meme season']),
+  ('nft', 'NFTs', NULL, ARRAY['nfts', 'non-fungible tokens']),
+  ('gaming', 'Gaming', NULL, ARRAY['web3 gaming', 'gamefi', 'crypto gaming']),
+  ('airdrops', 'Airdrops', NULL, ARRAY['airdrop', 'points', 'points farming']),
+  ('macro', 'Macro', NULL, ARRAY['macroeconomics', 'fed', 'rates', 'interest rates', 'liquidity']),
+  ('regulation', 'Regulation', NULL, ARRAY['sec', 'policy', 'crypto regulation', 'legislation']),
+  ('security', 'Security', NULL, ARRAY['exploit', 'exploits', 'hack', 'hacks', 'rug pull', 'rug pulls']),
+  ('market-structure', 'Market structure', NULL, ARRAY['orderflow', 'order flow', 'liquidations', 'open interest'])
+ON CONFLICT (id) DO NOTHING;
+
+UPDATE topics
+SET created_at = (extract(epoch FROM now()) * 1000)::BIGINT,
+    updated_at = (extract(epoch FROM now()) * 1000)::BIGINT
+WHERE created_at IS NULL;
+
+-- Same normalization as normalizeTopic() in topic-taxonomy.ts
+CREATE OR REPLACE FUNCTION normalize_topic(topic TEXT)
+RETURNS TEXT
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT trim(regexp_replace(
+    regexp_replace(
+      regexp_replace(regexp_replace(lower(topic), '^#', ''), '_+', ' ', 'g'),
+      '[.,;:!?"'']+$', ''
+    ),
+    '\s+', ' ', 'g'
+  ));
+$$;
+
+-- Every spelling (id, label, aliases, and their plural/singular forms) -> topic id
+CREATE OR REPLACE VIEW topic_alias_map AS
+WITH spellings AS (
+  SELECT t.id AS topic_id, normalize_topic(s) AS alias
+  FROM topics t,
+       unnest(t.aliases || ARRAY[t.id, replace(t.id, '-', ' '), t.label]) AS s
+)
+SELECT DISTINCT ON (alias) alias, topic_id
+FROM (
+  SELECT alias, topic_id FROM spellings
+  UNION ALL
+  SELECT alias || 's', topic_id FROM spellings WHERE alias NOT LIKE '%s'
+  UNION ALL
+  SELECT left(alias, -1), topic_id FROM spellings WHERE alias LIKE '%s' AND alias NOT LIKE '%ss' AND length(alias) > 3
+) variants
+ORDER BY alias, topic_id;
+
+-- Rewrite stored topic strings to canonical ids (unknown topics are only normalized)
+UPDATE tweets tw
+SET topics = rewritten.topics
+FROM (
+  SELECT t.id, array_agg(DISTINCT COALESCE(m.topic_id, normalize_topic(raw.topic))) AS topics
+  FROM tweets t
+  CROSS JOIN LATERAL unnest(t.topics) AS raw(topic)
+  LEFT JOIN topic_alias_map m ON m.alias = normalize_topic(raw.topic)
+  GROUP BY t.id
+) rewritten
+WHERE tw.id = rewritten.id AND tw.topics IS DISTINCT FROM rewritten.topics;
+
+UPDATE narrative_snapshots s
+SET topic = m.topic_id
+FROM topic_alias_map m
+WHERE m.alias = normalize_topic(s.topic) AND s.topic <> m.topic_id;
+
+-- Distinct topic strings with usage counts (TopicRegistry.migrateStoredTopics)
+CREATE OR REPLACE FUNCTION tweet_topic_counts()
+RETURNS TABLE (topic TEXT, count BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT raw.topic, COUNT(*) AS count
+  FROM tweets t
+  CROSS JOIN LATERAL unnest(t.topics) AS raw(topic)
+  GROUP BY raw.topic
+  ORDER BY count DESC;
+$$;
+
+-- Replace one topic string with another on tweets and snapshots; returns tweets changed
+CREATE OR REPLACE FUNCTION rename_topic(from_topic TEXT, to_topic TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  updated INTEGER;
+BEGIN
+  UPDATE tweets
+  SET topics = ARRAY(SELECT DISTINCT unnest(array_replace(topics, from_topic, to_topic)))
+  WHERE topics @> ARRAY[from_topic];
+  GET DIAGNOSTICS updated = ROW_COUNT;
+
+  UPDATE narrative_snapshots SET topic = to_topic WHERE topic = from_topic;
+
+  RETURN updated;
+END;
+$$;
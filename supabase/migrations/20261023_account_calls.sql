@@ -0,0 +1,26 @@
+-- Directional token calls from tracked accounts, scored against price outcomes.
+-- Rows are written by src/intelligence/call-tracker.ts; returns are stored in the
+-- call's direction (a bearish call on a token that fell 10% has return_* = 0.1).
+
+CREATE TABLE IF NOT EXISTS account_calls (
+  id TEXT PRIMARY KEY, -- tweet_id:symbol
+  tweet_id TEXT NOT NULL,
+  handle TEXT NOT NULL,
+  symbol TEXT NOT NULL,
+  coin_id TEXT,
+  direction TEXT NOT NULL CHECK (direction IN ('bullish', 'bearish')),
+  called_at BIGINT NOT NULL,
+  entry_price DOUBLE PRECISION,
+  price_1d DOUBLE PRECISION,
+  return_1d DOUBLE PRECISION,
+  price_7d DOUBLE PRECISION,
+  return_7d DOUBLE PRECISION,
+  price_30d DOUBLE PRECISION,
+  return_30d DOUBLE PRECISION,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed', 'unpriced')),
+  updated_at BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_calls_handle ON account_calls(handle);
+CREATE INDEX IF NOT EXISTS idx_account_calls_open ON account_calls(status, called_at);
+
@@ -0,0 +1,17 @@
+-- Citation graph inputs and influence evidence.
+-- Tweets keep Twitter's referenced_tweets (reply / quote / retweet targets) and
+-- conversation_id so src/intelligence/influence-graph.ts can build the
+-- mention/quote/reply graph; account_influence stores the evidence behind each score.
+
+ALTER TABLE tweets ADD COLUMN IF NOT EXISTS referenced_tweets JSONB DEFAULT '[]';
+ALTER TABLE tweets ADD COLUMN IF NOT EXISTS conversation_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_tweets_conversation ON tweets(conversation_id);
+CREATE INDEX IF NOT EXISTS idx_tweets_timestamp ON tweets("timestamp");
+
+ALTER TABLE account_influence ADD COLUMN IF NOT EXISTS evidence JSONB;
+
+COMMENT ON COLUMN account_influence.evidence IS 'Graph evidence behind the scores: citations, reply chains, narrative lead times, accuracy source';
+COMMENT ON COLUMN account_influence.cited_count IS 'Citation centrality (0-100): PageRank percentile in the mention/quote/reply graph';
+COMMENT ON COLUMN account_influence.conversation_starter_score IS 'Percentile (0-100) of reply-chain depth and reach on threads the account started';
+COMMENT ON COLUMN account_influence.early_narrative_score IS 'Percentile (0-100) of lead time on first mentions of topics vs other accounts';
@@ -0,0 +1,35 @@
+-- Influence score history: one row per account per scoring run.
+-- account_influence keeps only the latest score; momentum is the regression slope
+-- of influence_score over this table (see src/intelligence/influence-momentum.ts).
+
+CREATE TABLE IF NOT EXISTS account_influence_history (
+  id BIGSERIAL PRIMARY KEY,
+  handle TEXT NOT NULL,
+  influence_score NUMERIC NOT NULL,
+  credibility NUMERIC,
+  cited_count INTEGER,
+  conversation_starter_score NUMERIC,
+  early_narrative_score NUMERIC,
+  accuracy NUMERIC,
+  tier TEXT CHECK (tier IN ('trendsetter', 'leader', 'contributor', 'follower')),
+  scored_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_influence_history_handle
+  ON account_influence_history(handle, scored_at DESC);
+
+-- Seed each account's history with its current score so momentum has a starting point
+INSERT INTO account_influence_history (
+  handle, influence_score, credibility, cited_count, conversation_starter_score,
+  early_narrative_score, accuracy, tier, scored_at
+)
+SELECT
+  ai.handle, ai.influence_score, ai.credibility, ai.cited_count, ai.conversation_starter_score,
+  ai.early_narrative_score, ai.accuracy, ai.tier, ai.last_updated
+FROM account_influence ai
+WHERE NOT EXISTS (
+  SELECT 1 FROM account_influence_history h WHERE h.handle = ai.handle
+);
+
+COMMENT ON TABLE account_influence_history IS 'Every influence scoring run per account; source of account_influence.momentum';
+COMMENT ON COLUMN account_influence.momentum IS 'Trend of influence_score over account_influence_history: rising, stable or declining by regression slope';
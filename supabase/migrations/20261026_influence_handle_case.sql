@@ -0,0 +1,11 @@
+-- Influence rows are keyed by lowercase handle (ranking looks accounts up
+-- case-insensitively). Older rows kept the spelling they were scored under:
+-- keep the newest row per account and lowercase the rest.
+
+DELETE FROM account_influence ai
+USING account_influence newer
+WHERE lower(newer.handle) = lower(ai.handle)
+  AND (newer.last_updated, newer.handle) > (ai.last_updated, ai.handle);
+
+UPDATE account_influence SET handle = lower(handle) WHERE handle <> lower(handle);
+UPDATE account_influence_history SET handle = lower(handle) WHERE handle <> lower(handle);
@@ -0,0 +1,76 @@
+-- match_tweets ordered by the uncast `embedding <=> query_embedding`, which the
+-- partial ivfflat index on (embedding::vector(1536)) for text-embedding-3-small
+-- (20261020_embedding_model.sql) can never serve, so every search was a
+-- sequential scan. Queries for that model now repeat the index expression and
+-- its predicate literally; other models have no index and keep the plain scan.
+
+DROP FUNCTION IF EXISTS match_tweets(vector, text, integer, text);
+
+CREATE OR REPLACE FUNCTION match_tweets(
+  query_embedding vector,
+  filter_model TEXT,
+  match_count INTEGER DEFAULT 10,
+  filter_category TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id TEXT,
+  tweet_id TEXT,
+  handle TEXT,
+  text TEXT,
+  embedding vector,
+  embedding_model TEXT,
+  embedding_dim INTEGER,
+  embedding_status TEXT,
+  "timestamp" BIGINT,
+  likes INTEGER,
+  retweets INTEGER,
+  replies INTEGER,
+  sentiment TEXT,
+  topics TEXT[],
+  symbols TEXT[],
+  addresses TEXT[],
+  chains TEXT[],
+  protocols TEXT[],
+  mentions TEXT[],
+  credibility_at_time REAL,
+  stored_at BIGINT,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE plpgsql STABLE
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF filter_model = 'openai:text-embedding-3-small' THEN
+    -- Same expression and predicate as idx_tweets_embedding_openai_small
+    RETURN QUERY
+    SELECT
+      t.id, t.tweet_id, t.handle, t.text, t.embedding, t.embedding_model, t.embedding_dim,
+      t.embedding_status, t."timestamp", t.likes, t.retweets, t.replies, t.sentiment, t.topics,
+      t.symbols, t.addresses, t.chains, t.protocols, t.mentions, t.credibility_at_time, t.stored_at,
+      1 - (t.embedding::vector(1536) <=> query_embedding::vector(1536)) AS similarity
+    FROM tweets t
+    LEFT JOIN tracked_accounts a ON lower(a.handle) = lower(t.handle)
+    WHERE t.embedding IS NOT NULL
+      AND t.embedding_model = 'openai:text-embedding-3-small'
+      AND (filter_category IS NULL OR a.category = filter_category)
+    ORDER BY t.embedding::vector(1536) <=> query_embedding::vector(1536)
+    LIMIT match_count;
+  ELSE
+    RETURN QUERY
+    SELECT
+      t.id, t.tweet_id, t.handle, t.text, t.embedding, t.embedding_model, t.embedding_dim,
+      t.embedding_status, t."timestamp", t.likes, t.retweets, t.replies, t.sentiment, t.topics,
+      t.symbols, t.addresses, t.chains, t.protocols, t.mentions, t.credibility_at_time, t.stored_at,
+      1 - (t.embedding <=> query_embedding) AS similarity
+    FROM tweets t
+    LEFT JOIN tracked_accounts a ON lower(a.handle) = lower(t.handle)
+    WHERE t.embedding IS NOT NULL
+      AND t.embedding_model = filter_model
+      AND (filter_category IS NULL OR a.category = filter_category)
+    ORDER BY t.embedding <=> query_embedding
+    LIMIT match_count;
+  END IF;
+END;
+$$;
+
+COMMENT ON FUNCTION match_tweets IS 'Top-k cosine search over tweets embedded by filter_model, optionally filtered by tracked account category; text-embedding-3-small searches use its ivfflat index';